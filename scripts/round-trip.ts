@@ -0,0 +1,68 @@
+#!/usr/bin/env tsx
+
+/**
+ * Round-trip every sample in templates/ plus the generated fixtures through
+ * each format parser and report differences nobody declared as lossy.
+ *
+ * Usage: pnpm check:round-trip [--verbose]
+ */
+
+import path from "path";
+import {
+  generateFixtures,
+  loadTemplateFixtures,
+  runRoundTrips,
+} from "../src/ipc/formats/round-trip";
+
+const MAX_DIFFERENCES_SHOWN = 10;
+
+async function main() {
+  const verbose = process.argv.includes("--verbose");
+  const fixtures = [
+    ...(await loadTemplateFixtures(path.resolve("templates"))),
+    ...generateFixtures(),
+  ];
+
+  const results = await runRoundTrips(fixtures);
+  let failures = 0;
+
+  for (const result of results) {
+    const label = `${result.format.padEnd(11)} ${result.fixture}`;
+
+    if (result.error) {
+      failures++;
+      console.log(`✗ ${label}\n    error: ${result.error}`);
+      continue;
+    }
+
+    if (result.differences.length > 0) {
+      failures++;
+      console.log(
+        `✗ ${label} — ${result.differences.length} unexpected difference(s)`,
+      );
+      for (const diff of result.differences.slice(0, MAX_DIFFERENCES_SHOWN)) {
+        console.log(
+          `    ${diff.path}: expected ${JSON.stringify(diff.expected)}, got ${JSON.stringify(diff.actual)}`,
+        );
+      }
+      continue;
+    }
+
+    if (verbose) {
+      const losses = result.expectedLosses.length
+        ? ` (expected loss: ${result.expectedLosses.join(", ")})`
+        : "";
+      console.log(`✓ ${label}${losses}`);
+    }
+  }
+
+  console.log(
+    `\n${results.length - failures}/${results.length} round trips match`,
+  );
+  process.exitCode = failures > 0 ? 1 : 0;
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,54 @@
+#!/usr/bin/env tsx
+
+/**
+ * Parse each text import fixture with the default rules and report every
+ * line whose role, challenge or response differs from the expected one.
+ *
+ * Usage: pnpm check:text-import
+ */
+
+import {
+  DEFAULT_TEXT_IMPORT_RULES,
+  parseTextLines,
+} from "../src/utils/text-import";
+import { TEXT_IMPORT_FIXTURES } from "../src/utils/text-import-fixtures";
+
+function main() {
+  let failures = 0;
+
+  for (const fixture of TEXT_IMPORT_FIXTURES) {
+    const lines = parseTextLines(fixture.text, DEFAULT_TEXT_IMPORT_RULES);
+    const actual = lines.map(({ role, challengeText, responseText }) => ({
+      role,
+      challengeText,
+      responseText,
+    }));
+
+    const differences = fixture.expected.flatMap((expected, i) =>
+      JSON.stringify(actual[i]) === JSON.stringify(expected)
+        ? []
+        : [
+            `    line ${i + 1}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual[i])}`,
+          ],
+    );
+    if (actual.length !== fixture.expected.length) {
+      differences.push(
+        `    expected ${fixture.expected.length} lines, got ${actual.length}`,
+      );
+    }
+
+    if (differences.length > 0) {
+      failures++;
+      console.log(`✗ ${fixture.name}\n${differences.join("\n")}`);
+    } else {
+      console.log(`✓ ${fixture.name}`);
+    }
+  }
+
+  console.log(
+    `\n${TEXT_IMPORT_FIXTURES.length - failures}/${TEXT_IMPORT_FIXTURES.length} text imports match`,
+  );
+  process.exitCode = failures > 0 ? 1 : 0;
+}
+
+main();
@@ -1,8 +1,12 @@
 import { ipc } from "@/ipc/manager";
-import type { ChecklistFile } from "@/types/checklist";
+import type { CsvLayoutColumn } from "@/ipc/formats/csv";
+import type { ChecklistFile, ExportOptions } from "@/types/checklist";
 
-export function readChecklistFile(filePath: string) {
-  return ipc.client.checklist.readChecklistFile({ filePath });
+export function readChecklistFile(
+  filePath: string,
+  csvLayout?: CsvLayoutColumn[],
+) {
+  return ipc.client.checklist.readChecklistFile({ filePath, csvLayout });
 }
 
 export function writeChecklistFile(file: ChecklistFile, filePath: string) {
@@ -12,19 +16,33 @@ export function writeChecklistFile(file: ChecklistFile, filePath: string) {
   });
 }
 
-export function importFile() {
-  return ipc.client.checklist.importFile();
+export function importFile(filePath?: string) {
+  return ipc.client.checklist.importFile({ filePath });
 }
 
 export function exportFile(
   file: ChecklistFile,
   format: string,
   filePath: string,
+  options?: ExportOptions,
 ) {
   return ipc.client.checklist.exportFile({
     file: file as unknown as Record<string, unknown>,
     format,
     filePath,
+    options,
+  });
+}
+
+export function validateExport(
+  file: ChecklistFile,
+  format: string,
+  options?: ExportOptions,
+) {
+  return ipc.client.checklist.validateExport({
+    file: file as unknown as Record<string, unknown>,
+    format,
+    options,
   });
 }
 
@@ -0,0 +1,9 @@
+import { ipc } from "@/ipc/manager";
+
+export function writeClipboard(text: string, data?: string) {
+  return ipc.client.clipboard.writeClipboard({ text, data });
+}
+
+export function readClipboard() {
+  return ipc.client.clipboard.readClipboard();
+}
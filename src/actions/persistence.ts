@@ -1,10 +1,17 @@
 import { ipc } from "@/ipc/manager";
+import type { SnapshotReason } from "@/ipc/persistence/types";
+import type { ChecklistFile, FileExportSettings } from "@/types/checklist";
 
 export function saveWorkspace(
   files: Record<string, unknown>,
   activeFileId: string | null,
+  exportSettings: Record<string, FileExportSettings>,
 ) {
-  return ipc.client.persistence.saveWorkspace({ files, activeFileId });
+  return ipc.client.persistence.saveWorkspace({
+    files,
+    activeFileId,
+    exportSettings,
+  });
 }
 
 export function loadWorkspace() {
@@ -36,3 +43,18 @@ export function savePanelState(state: {
 export function loadPanelState() {
   return ipc.client.persistence.loadPanelState();
 }
+
+export function saveSnapshot(file: ChecklistFile, reason: SnapshotReason) {
+  return ipc.client.persistence.saveSnapshot({
+    file: file as unknown as Record<string, unknown>,
+    reason,
+  });
+}
+
+export function getSnapshots(fileId: string) {
+  return ipc.client.persistence.getSnapshots({ fileId });
+}
+
+export function loadSnapshot(fileId: string, snapshotId: string) {
+  return ipc.client.persistence.loadSnapshot({ fileId, snapshotId });
+}
@@ -0,0 +1,26 @@
+import { ipc } from "@/ipc/manager";
+import type { ChecklistFile } from "@/types/checklist";
+
+export function getTemplates() {
+  return ipc.client.templates.getTemplates();
+}
+
+export function loadTemplate(id: string) {
+  return ipc.client.templates.loadTemplate({ id });
+}
+
+export function saveTemplate(
+  file: ChecklistFile,
+  name: string,
+  description: string,
+) {
+  return ipc.client.templates.saveTemplate({
+    file: file as unknown as Record<string, unknown>,
+    name,
+    description,
+  });
+}
+
+export function deleteTemplate(id: string) {
+  return ipc.client.templates.deleteTemplate({ id });
+}
@@ -0,0 +1,5 @@
+import { ipc } from "@/ipc/manager";
+
+export function watchFiles(filePaths: string[]) {
+  return ipc.client.watcher.watchFiles({ filePaths });
+}
@@ -0,0 +1,225 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { ChecklistFile, ChecklistFormat } from "@/types/checklist";
+import {
+  FORMAT_EXTENSIONS,
+  exportOptionsFor,
+  detectFormat,
+  parseFileContent,
+  serializeFile,
+  validateFile,
+} from "@/ipc/formats";
+import type { FormatDiagnostic } from "@/ipc/formats";
+
+/** Group / checklist / item counts for a parsed file */
+export interface FileSummary {
+  name: string;
+  groups: number;
+  checklists: number;
+  items: number;
+}
+
+/** A diagnostic with a human-readable location ("Group › Checklist › item") */
+export interface LocatedDiagnostic extends FormatDiagnostic {
+  location: string;
+}
+
+interface CommandResultBase {
+  input: string;
+  ok: boolean;
+  error?: string;
+  /** Compatibility problems the reader worked around */
+  warnings?: string[];
+}
+
+export interface InfoResult extends CommandResultBase {
+  format?: ChecklistFormat;
+  summary?: FileSummary;
+}
+
+export interface ValidateResult extends CommandResultBase {
+  format?: ChecklistFormat;
+  target?: ChecklistFormat;
+  summary?: FileSummary;
+  diagnostics: LocatedDiagnostic[];
+}
+
+export interface ConvertResult extends CommandResultBase {
+  output?: string;
+  format?: ChecklistFormat;
+  target: ChecklistFormat;
+  summary?: FileSummary;
+  diagnostics: LocatedDiagnostic[];
+}
+
+/** Read and parse a checklist file, detecting its format unless given */
+async function loadFile(
+  input: string,
+  format?: ChecklistFormat,
+): Promise<{ file: ChecklistFile; warnings?: string[] }> {
+  const content = await readFile(input);
+  const detected = format ?? detectFormat(input, content);
+  if (!detected) {
+    throw new Error(`Unsupported file format: ${path.extname(input)}`);
+  }
+
+  const fileName = path.basename(input, path.extname(input));
+  const { warnings, ...parsed } = await parseFileContent(
+    content,
+    detected,
+    fileName,
+  );
+  const file: ChecklistFile = {
+    ...parsed,
+    id: crypto.randomUUID(),
+    filePath: path.resolve(input),
+    dirty: false,
+    lastModified: Date.now(),
+  };
+  return { file, warnings };
+}
+
+function summarize(file: ChecklistFile): FileSummary {
+  const checklists = file.groups.flatMap((g) => g.checklists);
+  return {
+    name: file.name,
+    groups: file.groups.length,
+    checklists: checklists.length,
+    items: checklists.reduce((sum, c) => sum + c.items.length, 0),
+  };
+}
+
+function locate(
+  file: ChecklistFile,
+  diagnostics: FormatDiagnostic[],
+): LocatedDiagnostic[] {
+  return diagnostics.map((diagnostic) => {
+    const group = file.groups.find((g) => g.id === diagnostic.groupId);
+    const checklist = group?.checklists.find(
+      (c) => c.id === diagnostic.checklistId,
+    );
+    const item = checklist?.items.find((i) => i.id === diagnostic.itemId);
+
+    const parts = [group?.name, checklist?.name, item?.challengeText].filter(
+      (p): p is string => p !== undefined,
+    );
+    return {
+      ...diagnostic,
+      location: parts.length > 0 ? parts.join(" › ") : "(file)",
+    };
+  });
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Parse a file and report its counts */
+export async function info(
+  input: string,
+  from?: ChecklistFormat,
+): Promise<InfoResult> {
+  try {
+    const { file, warnings } = await loadFile(input, from);
+    return {
+      input,
+      ok: true,
+      warnings,
+      format: file.format,
+      summary: summarize(file),
+    };
+  } catch (err) {
+    return { input, ok: false, error: errorMessage(err) };
+  }
+}
+
+/**
+ * Parse a file and, when a target format is given, report everything
+ * exporting to it would drop or alter.
+ */
+export async function validate(
+  input: string,
+  target?: ChecklistFormat,
+  from?: ChecklistFormat,
+): Promise<ValidateResult> {
+  try {
+    const { file, warnings } = await loadFile(input, from);
+    const diagnostics = target ? locate(file, validateFile(file, target)) : [];
+    return {
+      input,
+      ok: true,
+      warnings,
+      format: file.format,
+      target,
+      summary: summarize(file),
+      diagnostics,
+    };
+  } catch (err) {
+    return {
+      input,
+      ok: false,
+      target,
+      diagnostics: [],
+      error: errorMessage(err),
+    };
+  }
+}
+
+/**
+ * Convert a file to the target format.
+ *
+ * `output` may be an explicit file path; otherwise the file is written next
+ * to the input (or into `outDir`) with the target format's extension.
+ */
+export async function convert(
+  input: string,
+  target: ChecklistFormat,
+  options: { output?: string; outDir?: string; from?: ChecklistFormat },
+): Promise<ConvertResult> {
+  try {
+    const { file, warnings } = await loadFile(input, options.from);
+    const diagnostics = locate(file, validateFile(file, target));
+
+    const output =
+      options.output ??
+      path.join(
+        options.outDir ?? path.dirname(input),
+        `${path.basename(input, path.extname(input))}.${FORMAT_EXTENSIONS[target]}`,
+      );
+    if (path.resolve(output) === path.resolve(input)) {
+      throw new Error(`Refusing to overwrite input file ${input}`);
+    }
+
+    const content = await serializeFile(
+      file,
+      target,
+      exportOptionsFor(target, output),
+    );
+    await mkdir(path.dirname(output), { recursive: true });
+    // Write binary formats as Buffer, text as utf-8
+    if (Buffer.isBuffer(content)) {
+      await writeFile(output, content);
+    } else {
+      await writeFile(output, content, "utf-8");
+    }
+
+    return {
+      input,
+      ok: true,
+      warnings,
+      output,
+      format: file.format,
+      target,
+      summary: summarize(file),
+      diagnostics,
+    };
+  } catch (err) {
+    return {
+      input,
+      ok: false,
+      target,
+      diagnostics: [],
+      error: errorMessage(err),
+    };
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Headless checklist converter.
+ *
+ * Shares the format registry with the app but never touches Electron, so it
+ * can run from plain Node in scripts and CI. Run `pnpm cli --help` for usage.
+ */
+
+import { parseArgs } from "util";
+import { ChecklistFormat } from "@/types/checklist";
+import {
+  convert,
+  info,
+  validate,
+  type ConvertResult,
+  type FileSummary,
+  type InfoResult,
+  type LocatedDiagnostic,
+  type ValidateResult,
+} from "./commands";
+
+/** Process exit codes — stable, scripts depend on them */
+export const EXIT_CODES = {
+  ok: 0,
+  /** At least one file could not be read, parsed or written (or exported, for `validate`) */
+  failure: 1,
+  /** Bad command line */
+  usage: 2,
+  /** `validate` (or `convert --strict`) found warning-level losses */
+  lossy: 3,
+} as const;
+
+const USAGE = `Usage: efis-checklist <command> [options] <input...>
+
+Commands:
+  info <input...>                 Print group, checklist and item counts
+  validate <input...> [--to fmt]  Parse files; with --to, report what exporting would lose
+  convert <input...> --to fmt     Convert files to another format
+
+Options:
+  --to <format>       Target format (${Object.values(ChecklistFormat).join(", ")})
+  --from <format>     Input format, when the extension is ambiguous
+  -o, --output <file> Output path (single input only)
+  --out-dir <dir>     Output directory (default: next to each input)
+  --strict            convert: exit ${EXIT_CODES.lossy} if the target format loses data
+  --verbose           Also list info-level findings
+  --json              Print machine-readable JSON instead of text
+  -h, --help          Show this help
+
+Exit codes: ${EXIT_CODES.ok} ok, ${EXIT_CODES.failure} failure, ${EXIT_CODES.usage} usage error, ${EXIT_CODES.lossy} lossy conversion`;
+
+class UsageError extends Error {}
+
+function parseFormat(value: string | undefined, flag: string) {
+  if (value === undefined) return undefined;
+  const format = Object.values(ChecklistFormat).find((f) => f === value);
+  if (!format) {
+    throw new UsageError(`Unknown ${flag} format "${value}"`);
+  }
+  return format;
+}
+
+// ---------------------------------------------------------------------------
+// Text output
+// ---------------------------------------------------------------------------
+
+function formatSummary(summary: FileSummary): string {
+  return `${summary.groups} groups, ${summary.checklists} checklists, ${summary.items} items`;
+}
+
+function printDiagnostics(diagnostics: LocatedDiagnostic[], verbose: boolean) {
+  for (const d of diagnostics) {
+    if (d.severity === "info" && !verbose) continue;
+    console.log(`    ${d.severity.padEnd(7)} ${d.location}: ${d.message}`);
+  }
+}
+
+function countSeverity(
+  diagnostics: LocatedDiagnostic[],
+  severity: LocatedDiagnostic["severity"],
+): number {
+  return diagnostics.filter((d) => d.severity === severity).length;
+}
+
+function printResult(
+  command: string,
+  result: InfoResult | ValidateResult | ConvertResult,
+  verbose: boolean,
+) {
+  if (!result.ok) {
+    console.error(`✗ ${result.input}: ${result.error}`);
+    return;
+  }
+
+  const summary = result.summary ? formatSummary(result.summary) : "";
+  if (command === "convert") {
+    const r = result as ConvertResult;
+    console.log(
+      `✓ ${r.input} → ${r.output} (${r.format} → ${r.target}): ${summary}`,
+    );
+  } else {
+    console.log(`✓ ${result.input} [${result.format}]: ${summary}`);
+  }
+
+  for (const warning of result.warnings ?? []) {
+    console.log(`    ${"warning".padEnd(7)} (read): ${warning}`);
+  }
+
+  if ("diagnostics" in result && result.diagnostics.length > 0) {
+    const errors = countSeverity(result.diagnostics, "error");
+    const warnings = countSeverity(result.diagnostics, "warning");
+    const infos = result.diagnostics.length - errors - warnings;
+    console.log(
+      `    ${errors > 0 ? `${errors} error(s), ` : ""}${warnings} warning(s), ${infos} info finding(s) for ${result.target}`,
+    );
+    printDiagnostics(result.diagnostics, verbose);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      to: { type: "string" },
+      from: { type: "string" },
+      output: { type: "string", short: "o" },
+      "out-dir": { type: "string" },
+      strict: { type: "boolean", default: false },
+      verbose: { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, ...inputs] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? EXIT_CODES.ok : EXIT_CODES.usage;
+  }
+  if (inputs.length === 0) {
+    throw new UsageError(`${command}: no input files given`);
+  }
+
+  const to = parseFormat(values.to, "--to");
+  const from = parseFormat(values.from, "--from");
+
+  let results: Array<InfoResult | ValidateResult | ConvertResult>;
+  switch (command) {
+    case "info":
+      results = await Promise.all(inputs.map((input) => info(input, from)));
+      break;
+    case "validate":
+      results = await Promise.all(
+        inputs.map((input) => validate(input, to, from)),
+      );
+      break;
+    case "convert": {
+      if (!to) throw new UsageError("convert: --to is required");
+      if (values.output && inputs.length > 1) {
+        throw new UsageError("convert: --output only works with one input");
+      }
+      // Sequential so batch output reads in input order and memory stays flat
+      results = [];
+      for (const input of inputs) {
+        results.push(
+          await convert(input, to, {
+            output: values.output,
+            outDir: values["out-dir"],
+            from,
+          }),
+        );
+      }
+      break;
+    }
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+
+  // Errors (e.g. undefined variables) mean the export itself would fail
+  const failed = results.some(
+    (r) =>
+      !r.ok ||
+      ("diagnostics" in r && countSeverity(r.diagnostics, "error") > 0),
+  );
+  const lossy = results.some(
+    (r) => "diagnostics" in r && countSeverity(r.diagnostics, "warning") > 0,
+  );
+  const exitCode = failed
+    ? EXIT_CODES.failure
+    : lossy && (command === "validate" || values.strict)
+      ? EXIT_CODES.lossy
+      : EXIT_CODES.ok;
+
+  if (values.json) {
+    console.log(JSON.stringify({ command, exitCode, results }, null, 2));
+  } else {
+    for (const result of results) {
+      printResult(command, result, values.verbose);
+    }
+  }
+
+  return exitCode;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((err) => {
+    if (
+      err instanceof UsageError ||
+      (err as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")
+    ) {
+      console.error(`${err.message}\n\n${USAGE}`);
+      process.exitCode = EXIT_CODES.usage;
+    } else {
+      console.error(err);
+      process.exitCode = EXIT_CODES.failure;
+    }
+  });
@@ -24,6 +24,7 @@ import { TypeIndicator } from "@/components/editor/type-indicator";
 import { ITEM_TYPE_LINE_COLOR } from "@/components/editor/indent-guides";
 import type { LineSegment } from "@/components/editor/indent-guides";
 import { cn } from "@/utils/tailwind";
+import { variableValues } from "@/ipc/formats/variables";
 import { ChecklistItemType } from "@/types/checklist";
 import type {
   ChecklistFile,
@@ -322,6 +323,16 @@ const ITEM_TYPE_OPTIONS: {
     label: "Caution",
     description: "Caution advisory",
   },
+  {
+    type: ChecklistItemType.PlainText,
+    label: "Plain Text",
+    description: "Text shown as written, without a checkbox",
+  },
+  {
+    type: ChecklistItemType.Space,
+    label: "Space",
+    description: "Blank line between items",
+  },
 ];
 
 interface ItemTypeSelectorProps {
@@ -435,6 +446,13 @@ export function ChecklistEditor() {
     return findActiveChecklist(activeGroup, activeChecklistId) ?? null;
   }, [activeGroup, activeChecklistId]);
 
+  // Resolved inline in item text; only changes when the metadata does
+  const metadata = activeFile?.metadata;
+  const variables = useMemo(
+    () => (metadata ? variableValues(metadata) : new Map<string, string>()),
+    [metadata],
+  );
+
   // Compute visible items (collapse logic)
   const visibleIndices = useMemo(() => {
     if (!activeChecklist) return [];
@@ -739,6 +757,7 @@ export function ChecklistEditor() {
                       key={item.id}
                       item={item}
                       index={itemIndex}
+                      variables={variables}
                       isSelected={selectedItemIds.has(item.id)}
                       isEditing={item.id === editingItemId}
                       isCollapsed={collapsedItemIds.has(item.id)}
@@ -756,7 +775,10 @@ export function ChecklistEditor() {
                       onSelect={(shiftKey) => handleSelect(item.id, shiftKey)}
                       onStartEdit={() => {
                         setActiveItem(item.id);
-                        setEditingItem(item.id);
+                        // A space has no text to edit
+                        if (item.type !== ChecklistItemType.Space) {
+                          setEditingItem(item.id);
+                        }
                       }}
                       onCommitEdit={(changes) =>
                         handleCommitEdit(item.id, changes)
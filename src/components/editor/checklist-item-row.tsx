@@ -17,6 +17,9 @@ import { cn } from "@/utils/tailwind";
 import { ChecklistItemType } from "@/types/checklist";
 import type { ChecklistItem } from "@/types/checklist";
 import { TypeIndicator } from "@/components/editor/type-indicator";
+import { VariableText } from "@/components/editor/variable-text";
+import { LiveDataChip } from "@/components/editor/live-data-picker";
+import { getLiveDataToken } from "@/ipc/formats/garmin-pilot/live-data";
 import {
   IndentGuides,
   ITEM_TYPE_LINE_COLOR,
@@ -38,6 +41,8 @@ import {
 interface ChecklistItemRowProps {
   item: ChecklistItem;
   index: number;
+  /** Defined variables, resolved inline when not editing */
+  variables: Map<string, string>;
   isSelected: boolean;
   isEditing: boolean;
   isCollapsed: boolean;
@@ -173,27 +178,51 @@ function InlineEdit({ item, onCommit, onCancel }: InlineEditProps) {
 // Content Variants
 // ---------------------------------------------------------------------------
 
-function ChallengeResponseContent({ item }: { item: ChecklistItem }) {
+function ChallengeResponseContent({
+  item,
+  variables,
+}: {
+  item: ChecklistItem;
+  variables: Map<string, string>;
+}) {
+  const liveData = getLiveDataToken(item.responseText);
+
   return (
     <div className="flex min-w-0 flex-1 items-center overflow-hidden">
       <span className="text-foreground min-w-0 truncate text-[13px]">
-        {item.challengeText || "Untitled"}
+        <VariableText
+          text={item.challengeText || "Untitled"}
+          variables={variables}
+        />
       </span>
       <span className="text-text-muted mx-1 min-w-5 flex-1 translate-y-1 overflow-hidden font-mono text-xs tracking-[2px] whitespace-nowrap">
         {"·".repeat(200)}
       </span>
       <span className="text-efis-accent shrink-0 text-right text-[13px] font-medium">
-        {item.responseText}
+        {liveData ? (
+          <LiveDataChip token={liveData} />
+        ) : (
+          <VariableText text={item.responseText} variables={variables} />
+        )}
       </span>
     </div>
   );
 }
 
-function ChallengeOnlyContent({ item }: { item: ChecklistItem }) {
+function ChallengeOnlyContent({
+  item,
+  variables,
+}: {
+  item: ChecklistItem;
+  variables: Map<string, string>;
+}) {
   return (
     <div className="flex min-w-0 flex-1 items-center">
       <span className="text-foreground min-w-0 truncate text-[13px]">
-        {item.challengeText || "Untitled"}
+        <VariableText
+          text={item.challengeText || "Untitled"}
+          variables={variables}
+        />
       </span>
     </div>
   );
@@ -201,11 +230,13 @@ function ChallengeOnlyContent({ item }: { item: ChecklistItem }) {
 
 function TitleContent({
   item,
+  variables,
   isCollapsed,
   childCount,
   onToggleCollapse,
 }: {
   item: ChecklistItem;
+  variables: Map<string, string>;
   isCollapsed: boolean;
   childCount: number;
   onToggleCollapse: () => void;
@@ -231,7 +262,10 @@ function TitleContent({
       )}
 
       <span className="text-efis-purple min-w-0 flex-1 truncate text-[12px] font-bold tracking-wide uppercase">
-        {item.challengeText || "UNTITLED SECTION"}
+        <VariableText
+          text={item.challengeText || "UNTITLED SECTION"}
+          variables={variables}
+        />
       </span>
 
       {childCount > 0 && (
@@ -245,32 +279,86 @@ function TitleContent({
   );
 }
 
-function NoteContent({ item }: { item: ChecklistItem }) {
+function NoteContent({
+  item,
+  variables,
+}: {
+  item: ChecklistItem;
+  variables: Map<string, string>;
+}) {
   return (
     <div className="flex min-w-0 flex-1 items-center">
       <span className="text-muted-foreground min-w-0 truncate text-[13px] italic">
-        {item.challengeText || "Empty note"}
+        <VariableText
+          text={item.challengeText || "Empty note"}
+          variables={variables}
+        />
+      </span>
+    </div>
+  );
+}
+
+function PlainTextContent({
+  item,
+  variables,
+}: {
+  item: ChecklistItem;
+  variables: Map<string, string>;
+}) {
+  return (
+    <div className="flex min-w-0 flex-1 items-center">
+      <span className="text-text-secondary min-w-0 truncate text-[13px]">
+        <VariableText
+          text={item.challengeText || "Empty text"}
+          variables={variables}
+        />
       </span>
     </div>
   );
 }
 
-function WarningContent({ item }: { item: ChecklistItem }) {
+function SpaceContent() {
+  return (
+    <div className="flex min-w-0 flex-1 items-center">
+      <span className="border-border-light w-full border-t border-dashed" />
+    </div>
+  );
+}
+
+function WarningContent({
+  item,
+  variables,
+}: {
+  item: ChecklistItem;
+  variables: Map<string, string>;
+}) {
   return (
     <div className="flex min-w-0 flex-1 items-center">
       <span className="text-efis-yellow min-w-0 truncate text-[13px]">
         {"⚠ "}
-        {item.challengeText || "Warning"}
+        <VariableText
+          text={item.challengeText || "Warning"}
+          variables={variables}
+        />
       </span>
     </div>
   );
 }
 
-function CautionContent({ item }: { item: ChecklistItem }) {
+function CautionContent({
+  item,
+  variables,
+}: {
+  item: ChecklistItem;
+  variables: Map<string, string>;
+}) {
   return (
     <div className="flex min-w-0 flex-1 items-center">
       <span className="text-efis-orange min-w-0 truncate text-[13px]">
-        {item.challengeText || "Caution"}
+        <VariableText
+          text={item.challengeText || "Caution"}
+          variables={variables}
+        />
       </span>
     </div>
   );
@@ -373,6 +461,7 @@ function ActionButtons({
 
 export function ChecklistItemRow({
   item,
+  variables,
   isSelected,
   isEditing,
   isCollapsed,
@@ -504,28 +593,33 @@ export function ChecklistItemRow({
           ) : (
             <>
               {item.type === ChecklistItemType.ChallengeResponse && (
-                <ChallengeResponseContent item={item} />
+                <ChallengeResponseContent item={item} variables={variables} />
               )}
               {item.type === ChecklistItemType.ChallengeOnly && (
-                <ChallengeOnlyContent item={item} />
+                <ChallengeOnlyContent item={item} variables={variables} />
               )}
               {item.type === ChecklistItemType.Title && (
                 <TitleContent
                   item={item}
+                  variables={variables}
                   isCollapsed={isCollapsed}
                   childCount={childCount}
                   onToggleCollapse={onToggleCollapse}
                 />
               )}
               {item.type === ChecklistItemType.Note && (
-                <NoteContent item={item} />
+                <NoteContent item={item} variables={variables} />
               )}
               {item.type === ChecklistItemType.Warning && (
-                <WarningContent item={item} />
+                <WarningContent item={item} variables={variables} />
               )}
               {item.type === ChecklistItemType.Caution && (
-                <CautionContent item={item} />
+                <CautionContent item={item} variables={variables} />
+              )}
+              {item.type === ChecklistItemType.PlainText && (
+                <PlainTextContent item={item} variables={variables} />
               )}
+              {item.type === ChecklistItemType.Space && <SpaceContent />}
             </>
           )}
 
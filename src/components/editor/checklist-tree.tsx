@@ -3,15 +3,18 @@ import {
   ALargeSmall,
   ChevronDown,
   ChevronRight,
+  ClipboardCopy,
   Copy,
   CopyPlus,
   FileDown,
   FolderInput,
   FolderPlus,
   GripVertical,
+  House,
   Pencil,
   Plus,
   Settings,
+  TextCursorInput,
   Trash2,
 } from "lucide-react";
 import { toast } from "sonner";
@@ -53,9 +56,11 @@ import {
 import { useChecklistStore } from "@/stores";
 import { FormatBadge } from "@/components/editor/format-badge";
 import { FileMetadataDialog } from "@/components/editor/file-metadata-dialog";
+import { TextImportDialog } from "@/components/editor/text-import-dialog";
 import { GroupIcon } from "@/components/editor/group-icon";
 import { importChecklistsFromFile } from "@/actions/checklist";
 import { cn } from "@/utils/tailwind";
+import { copyChecklist } from "@/utils/clipboard";
 import { ChecklistGroupCategory } from "@/types/checklist";
 import type {
   Checklist,
@@ -134,6 +139,7 @@ function ChecklistTreeItem({
   const moveChecklist = useChecklistStore((s) => s.moveChecklist);
   const copyChecklistToFile = useChecklistStore((s) => s.copyChecklistToFile);
   const uppercaseChecklist = useChecklistStore((s) => s.uppercaseChecklist);
+  const setDefaultChecklist = useChecklistStore((s) => s.setDefaultChecklist);
 
   const otherGroups = file.groups.filter((g) => g.id !== group.id);
   const otherFiles = Object.values(files).filter((f) => f.id !== file.id);
@@ -189,6 +195,20 @@ function ChecklistTreeItem({
             <span className="min-w-0 flex-1 truncate">{checklist.name}</span>
           )}
 
+          {checklist.isDefault && (
+            <span
+              title="Startup checklist — Garmin avionics open on it"
+              className="shrink-0"
+            >
+              <House
+                className={cn(
+                  "size-3",
+                  isActive ? "text-efis-accent" : "text-efis-green",
+                )}
+              />
+            </span>
+          )}
+
           <span
             className={cn(
               "shrink-0 tabular-nums",
@@ -211,6 +231,10 @@ function ChecklistTreeItem({
           <Copy className="size-3.5" />
           Duplicate
         </ContextMenuItem>
+        <ContextMenuItem onClick={() => copyChecklist(file.id, checklist.id)}>
+          <ClipboardCopy className="size-3.5" />
+          Copy
+        </ContextMenuItem>
         {otherGroups.length > 0 && (
           <ContextMenuSub>
             <ContextMenuSubTrigger>
@@ -294,6 +318,19 @@ function ChecklistTreeItem({
             </ContextMenuSubContent>
           </ContextMenuSub>
         )}
+        <ContextMenuItem
+          onClick={() =>
+            setDefaultChecklist(
+              file.id,
+              checklist.isDefault ? null : checklist.id,
+            )
+          }
+        >
+          <House className="size-3.5" />
+          {checklist.isDefault
+            ? "Clear Startup Checklist"
+            : "Set as Startup Checklist"}
+        </ContextMenuItem>
         <ContextMenuSeparator />
         <ContextMenuItem
           onClick={() => uppercaseChecklist(file.id, group.id, checklist.id)}
@@ -335,6 +372,7 @@ interface GroupSectionProps {
   onStartRename: (id: string) => void;
   onCommitRename: (id: string, name: string) => void;
   onCancelRename: () => void;
+  onImportText: () => void;
 }
 
 function GroupSection({
@@ -346,6 +384,7 @@ function GroupSection({
   onStartRename,
   onCommitRename,
   onCancelRename,
+  onImportText,
 }: GroupSectionProps) {
   const [expanded, setExpanded] = useState(true);
 
@@ -507,6 +546,10 @@ function GroupSection({
             <FileDown className="size-3.5" />
             Import checklist
           </ContextMenuItem>
+          <ContextMenuItem onClick={onImportText}>
+            <TextCursorInput className="size-3.5" />
+            Import from text&hellip;
+          </ContextMenuItem>
           <ContextMenuSeparator />
           <ContextMenuItem variant="destructive" onClick={handleDeleteGroup}>
             <Trash2 className="size-3.5" />
@@ -646,6 +689,9 @@ export function ChecklistTree() {
   const [renamingId, setRenamingId] = useState<string | null>(null);
   const [isRenamingFile, setIsRenamingFile] = useState(false);
   const [isMetadataOpen, setIsMetadataOpen] = useState(false);
+  const [textImportGroupId, setTextImportGroupId] = useState<string | null>(
+    null,
+  );
 
   const activeFile = activeFileId ? files[activeFileId] : null;
 
@@ -850,6 +896,13 @@ export function ChecklistTree() {
         onOpenChange={setIsMetadataOpen}
       />
 
+      <TextImportDialog
+        file={activeFile}
+        groupId={textImportGroupId}
+        open={textImportGroupId !== null}
+        onOpenChange={(open) => !open && setTextImportGroupId(null)}
+      />
+
       {/* Tree body */}
       <ScrollArea className="min-h-0 flex-1">
         {activeFile.groups.length > 0 ? (
@@ -883,6 +936,7 @@ export function ChecklistTree() {
                         onStartRename={handleStartRename}
                         onCommitRename={handleCommitRename}
                         onCancelRename={handleCancelRename}
+                        onImportText={() => setTextImportGroupId(group.id)}
                       />
                     ))}
                   </div>
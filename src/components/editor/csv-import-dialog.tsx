@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { readChecklistFile } from "@/actions/checklist";
+import { CSV_COLUMNS } from "@/ipc/formats/csv";
+import type { CsvColumn } from "@/ipc/formats/csv";
+import { useChecklistStore, useUiStore } from "@/stores";
+import type { PendingCsvImport } from "@/stores/ui-store";
+import { toastFileImported } from "@/utils/import-toast";
+import { cn } from "@/utils/tailwind";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const COLUMN_LABELS: Record<CsvColumn, string> = {
+  group: "Group",
+  category: "Group Category",
+  checklist: "Checklist",
+  type: "Item Type",
+  challenge: "Challenge",
+  response: "Response",
+  indent: "Indent",
+  centered: "Centered",
+  collapsible: "Collapsible",
+};
+
+/** Select value for a column that is not read */
+const IGNORE = "ignore";
+
+// ---------------------------------------------------------------------------
+// CsvImportDialog
+// ---------------------------------------------------------------------------
+
+/**
+ * Ask which checklist field each column of an imported CSV file holds,
+ * starting from the fields its header names match, then open the file.
+ * Shows the first file waiting in the UI store.
+ */
+export function CsvImportDialog() {
+  const pending = useUiStore((s) => s.pendingCsvImports[0] ?? null);
+  const finishCsvImport = useUiStore((s) => s.finishCsvImport);
+
+  return (
+    <Dialog
+      open={pending !== null}
+      onOpenChange={(open) => {
+        if (!open) finishCsvImport();
+      }}
+    >
+      <DialogContent className="flex max-h-[80vh] flex-col sm:max-w-200">
+        <DialogHeader>
+          <DialogTitle>Map CSV Columns</DialogTitle>
+          <DialogDescription>
+            Choose the checklist field each column holds. Columns were matched
+            by their header names; change any that are wrong.
+          </DialogDescription>
+        </DialogHeader>
+        {pending && (
+          <CsvImportForm
+            key={pending.filePath}
+            pending={pending}
+            onDone={finishCsvImport}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// CsvImportForm
+// ---------------------------------------------------------------------------
+
+interface CsvImportFormProps {
+  pending: PendingCsvImport;
+  onDone: () => void;
+}
+
+function CsvImportForm({ pending, onDone }: CsvImportFormProps) {
+  const addFile = useChecklistStore((s) => s.addFile);
+  const { filePath, preview } = pending;
+
+  const [mapping, setMapping] = useState(preview.mapping);
+  const [isImporting, setIsImporting] = useState(false);
+  const hasChallenge = mapping.includes("challenge");
+
+  function handleColumnChange(index: number, column: CsvColumn | null) {
+    // Each field is read from one column; the column that had it is ignored
+    setMapping(
+      mapping.map((current, i) =>
+        i === index ? column : current === column ? null : current,
+      ),
+    );
+  }
+
+  async function handleImport() {
+    const layout = preview.headers.flatMap((header, i) => {
+      const column = mapping[i];
+      return column ? [{ column, header }] : [];
+    });
+    try {
+      setIsImporting(true);
+      const { warnings, ...file } = await readChecklistFile(filePath, layout);
+      addFile(file);
+      toastFileImported(file.name, warnings);
+      onDone();
+    } catch (err) {
+      toast.error("Import failed", {
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
+  return (
+    <>
+      <ScrollArea className="border-border min-h-0 flex-1 rounded border">
+        <div className="flex flex-col p-1">
+          {preview.headers.map((header, i) => (
+            <ColumnRow
+              key={i}
+              header={header}
+              samples={preview.rows.map((row) => row[i] ?? "")}
+              column={mapping[i]}
+              isChanged={mapping[i] !== preview.mapping[i]}
+              onColumnChange={(column) => handleColumnChange(i, column)}
+            />
+          ))}
+        </div>
+      </ScrollArea>
+
+      <DialogFooter className="items-center">
+        {!hasChallenge && (
+          <span className="text-text-muted mr-auto text-[11px]">
+            Map the column holding the item text to Challenge
+          </span>
+        )}
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button disabled={!hasChallenge || isImporting} onClick={handleImport}>
+          Import
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// ColumnRow
+// ---------------------------------------------------------------------------
+
+interface ColumnRowProps {
+  header: string;
+  /** The column's cells in the first rows of the file */
+  samples: string[];
+  column: CsvColumn | null;
+  isChanged: boolean;
+  onColumnChange: (column: CsvColumn | null) => void;
+}
+
+function ColumnRow({
+  header,
+  samples,
+  column,
+  isChanged,
+  onColumnChange,
+}: ColumnRowProps) {
+  const sampleText = samples.filter((cell) => cell.trim()).join(" · ");
+
+  return (
+    <div className="flex items-center gap-2 rounded px-1 py-0.5">
+      <span className="w-40 shrink-0 truncate text-xs font-semibold">
+        {header || <span className="text-text-muted italic">(no header)</span>}
+      </span>
+      <Select
+        value={column ?? IGNORE}
+        onValueChange={(value) =>
+          onColumnChange(value === IGNORE ? null : (value as CsvColumn))
+        }
+      >
+        <SelectTrigger
+          size="sm"
+          className={cn(
+            "h-6 w-36 shrink-0 text-[11px]",
+            isChanged && "border-efis-accent",
+          )}
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={IGNORE}>Ignore</SelectItem>
+          {CSV_COLUMNS.map((value) => (
+            <SelectItem key={value} value={value}>
+              {COLUMN_LABELS[value]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span
+        title={sampleText}
+        className={cn(
+          "text-muted-foreground min-w-0 flex-1 truncate font-mono text-[11px]",
+          !column && "line-through",
+        )}
+      >
+        {sampleText}
+      </span>
+    </div>
+  );
+}
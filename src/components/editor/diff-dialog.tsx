@@ -0,0 +1,457 @@
+import { useMemo, useState } from "react";
+import { ArrowLeftRight, Check } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { GroupIcon } from "./group-icon";
+import { TypeIndicator } from "./type-indicator";
+import { cn } from "@/utils/tailwind";
+import {
+  diffFiles,
+  hasChecklistChanges,
+  hasGroupChanges,
+} from "@/utils/checklist-diff";
+import type {
+  ChecklistDiff,
+  DiffKind,
+  GroupDiff,
+  ItemDiff,
+} from "@/utils/checklist-diff";
+import { useChecklistStore } from "@/stores";
+import type { ChecklistFile, ChecklistItem } from "@/types/checklist";
+
+/**
+ * What the target file is compared against: another open file, or a
+ * fixed version of a file (on disk, a revision snapshot) labelled for display.
+ */
+export type DiffSource =
+  | { kind: "file"; fileId: string }
+  | { kind: "version"; file: ChecklistFile; label: string };
+
+interface DiffDialogProps {
+  targetFileId: string;
+  source: DiffSource;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Presentation helpers
+// ---------------------------------------------------------------------------
+
+const KIND_CONFIG: Record<
+  Exclude<DiffKind, "unchanged">,
+  { label: string; action: string; rowClass: string; textClass: string }
+> = {
+  added: {
+    label: "Added",
+    action: "Add",
+    rowClass: "bg-efis-green-dim/40",
+    textClass: "text-efis-green",
+  },
+  removed: {
+    label: "Removed",
+    action: "Remove",
+    rowClass: "bg-efis-red-dim/40",
+    textClass: "text-efis-red",
+  },
+  changed: {
+    label: "Changed",
+    action: "Apply",
+    rowClass: "bg-efis-yellow-dim/40",
+    textClass: "text-efis-yellow",
+  },
+  moved: {
+    label: "Moved",
+    action: "Move",
+    rowClass: "bg-efis-accent-dim/40",
+    textClass: "text-efis-accent",
+  },
+};
+
+/** e.g. "2 added, 1 changed" — counts every level of the diff */
+function summarize(diffs: GroupDiff[]): string {
+  const counts: Record<string, number> = {};
+  const add = (kind: string) => (counts[kind] = (counts[kind] ?? 0) + 1);
+
+  for (const group of diffs) {
+    if (group.kind !== "matched") add(group.kind);
+    if (group.categoryChanged) add("changed");
+    for (const checklist of group.checklists) {
+      if (checklist.kind !== "matched") add(checklist.kind);
+      for (const item of checklist.items) {
+        if (item.kind !== "unchanged") add(item.kind);
+      }
+    }
+  }
+
+  const parts = (["added", "removed", "changed", "moved"] as const)
+    .filter((kind) => counts[kind])
+    .map((kind) => `${counts[kind]} ${kind}`);
+  return parts.length > 0 ? parts.join(", ") : "No differences";
+}
+
+function KindLabel({ kind }: { kind: DiffKind }) {
+  if (kind === "unchanged") return null;
+  const config = KIND_CONFIG[kind];
+  return (
+    <span
+      className={cn(
+        "text-[10px] font-semibold tracking-wide uppercase",
+        config.textClass,
+      )}
+    >
+      {config.label}
+    </span>
+  );
+}
+
+function ItemCell({ item }: { item?: ChecklistItem }) {
+  if (!item) return <div className="min-w-0 flex-1" />;
+  return (
+    <div
+      className="flex min-w-0 flex-1 items-center gap-1"
+      style={{ paddingLeft: item.indent * 12 }}
+    >
+      <TypeIndicator type={item.type} className="w-3" />
+      <span className="text-foreground truncate text-[12px]">
+        {item.challengeText || "(blank)"}
+      </span>
+      {item.responseText && (
+        <span className="text-text-muted ml-auto shrink-0 truncate pl-2 text-[12px]">
+          {item.responseText}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function AcceptButton({
+  label,
+  onClick,
+}: {
+  label: string;
+  onClick: () => void;
+}) {
+  return (
+    <Button
+      size="xs"
+      variant="outline"
+      onClick={onClick}
+      className="w-16 shrink-0"
+    >
+      <Check />
+      {label}
+    </Button>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// DiffDialog
+// ---------------------------------------------------------------------------
+
+export function DiffDialog({
+  targetFileId,
+  source,
+  open,
+  onOpenChange,
+}: DiffDialogProps) {
+  const files = useChecklistStore((s) => s.files);
+
+  const insertGroup = useChecklistStore((s) => s.insertGroup);
+  const removeGroup = useChecklistStore((s) => s.removeGroup);
+  const updateGroupCategory = useChecklistStore((s) => s.updateGroupCategory);
+  const addChecklistsToGroup = useChecklistStore((s) => s.addChecklistsToGroup);
+  const removeChecklist = useChecklistStore((s) => s.removeChecklist);
+  const insertItems = useChecklistStore((s) => s.insertItems);
+  const removeItem = useChecklistStore((s) => s.removeItem);
+  const updateItem = useChecklistStore((s) => s.updateItem);
+  const reorderItems = useChecklistStore((s) => s.reorderItems);
+
+  // Two open files can be merged in either direction
+  const [swapped, setSwapped] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const canSwap = source.kind === "file";
+  const targetId =
+    swapped && source.kind === "file" ? source.fileId : targetFileId;
+  const target = files[targetId];
+  const sourceFile =
+    source.kind === "version"
+      ? source.file
+      : files[swapped ? targetFileId : source.fileId];
+
+  const diffs = useMemo(
+    () => (target && sourceFile ? diffFiles(target, sourceFile) : []),
+    [target, sourceFile],
+  );
+
+  const visibleGroups = showUnchanged ? diffs : diffs.filter(hasGroupChanges);
+
+  if (!target || !sourceFile) return null;
+
+  const sourceLabel =
+    source.kind === "version" ? source.label : sourceFile.name;
+
+  // -- Accept handlers (one store action each, so each is one undo step) ----
+
+  function acceptGroup(diff: GroupDiff) {
+    if (diff.kind === "added" && diff.source) {
+      insertGroup(targetId, diff.source);
+    } else if (diff.kind === "removed" && diff.target) {
+      removeGroup(targetId, diff.target.id);
+    } else if (diff.categoryChanged && diff.target && diff.source) {
+      updateGroupCategory(targetId, diff.target.id, diff.source.category);
+    }
+  }
+
+  function acceptChecklist(groupId: string, diff: ChecklistDiff) {
+    if (diff.kind === "added" && diff.source) {
+      addChecklistsToGroup(targetId, groupId, [diff.source]);
+    } else if (diff.kind === "removed" && diff.target) {
+      removeChecklist(targetId, groupId, diff.target.id);
+    }
+  }
+
+  function acceptItem(groupId: string, checklistId: string, diff: ItemDiff) {
+    switch (diff.kind) {
+      case "added":
+        insertItems(
+          targetId,
+          groupId,
+          checklistId,
+          [diff.source!],
+          diff.insertIndex!,
+        );
+        break;
+      case "removed":
+        removeItem(targetId, groupId, checklistId, diff.target!.id);
+        break;
+      case "changed": {
+        const {
+          type,
+          challengeText,
+          responseText,
+          indent,
+          centered,
+          collapsible,
+        } = diff.source!;
+        updateItem(targetId, groupId, checklistId, diff.target!.id, {
+          type,
+          challengeText,
+          responseText,
+          indent,
+          centered,
+          collapsible,
+        });
+        break;
+      }
+      case "moved": {
+        // reorderItems removes before inserting, shifting later indices down
+        const from = diff.targetIndex!;
+        const to =
+          diff.insertIndex! > from ? diff.insertIndex! - 1 : diff.insertIndex!;
+        reorderItems(targetId, groupId, checklistId, from, to);
+        break;
+      }
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[85vh] flex-col sm:max-w-240">
+        <DialogHeader>
+          <DialogTitle>Compare Files</DialogTitle>
+          <DialogDescription>
+            {summarize(diffs)}. Accepted changes are applied to{" "}
+            <span className="text-foreground">{target.name}</span> and can be
+            undone with Ctrl+Z.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Column headings and view controls */}
+        <div className="flex items-center gap-3 text-[11px]">
+          <span className="text-text-secondary flex-1 truncate font-semibold tracking-wide uppercase">
+            {target.name} (target)
+          </span>
+          <span className="flex w-14 shrink-0 justify-center">
+            <Button
+              size="icon-xs"
+              variant="outline"
+              disabled={!canSwap}
+              onClick={() => setSwapped((s) => !s)}
+              title="Swap target and source"
+            >
+              <ArrowLeftRight />
+            </Button>
+          </span>
+          <span className="text-text-secondary flex-1 truncate font-semibold tracking-wide uppercase">
+            {sourceLabel}
+          </span>
+          <span className="w-16 shrink-0" />
+        </div>
+
+        <ScrollArea className="min-h-0 flex-1">
+          <div className="flex flex-col gap-4 pr-3">
+            {visibleGroups.length === 0 && (
+              <div className="text-text-muted py-6 text-center text-xs">
+                The files are identical
+              </div>
+            )}
+            {visibleGroups.map((group) => (
+              <div key={group.target?.id ?? group.source!.id}>
+                {/* Group header */}
+                <div className="border-border flex items-center gap-2 border-b pb-1">
+                  <GroupIcon
+                    category={(group.source ?? group.target)!.category}
+                  />
+                  <span className="text-foreground text-[13px] font-semibold">
+                    {group.name}
+                  </span>
+                  <KindLabel
+                    kind={
+                      group.kind === "matched"
+                        ? group.categoryChanged
+                          ? "changed"
+                          : "unchanged"
+                        : group.kind
+                    }
+                  />
+                  {group.kind !== "matched" && (
+                    <span className="text-text-muted text-[11px]">
+                      {(group.source ?? group.target)!.checklists.length}{" "}
+                      checklists
+                    </span>
+                  )}
+                  {group.categoryChanged && (
+                    <span className="text-text-muted text-[11px]">
+                      {group.target!.category} → {group.source!.category}
+                    </span>
+                  )}
+                  <span className="flex-1" />
+                  {(group.kind !== "matched" || group.categoryChanged) && (
+                    <AcceptButton
+                      label={
+                        group.kind === "added"
+                          ? "Add"
+                          : group.kind === "removed"
+                            ? "Remove"
+                            : "Apply"
+                      }
+                      onClick={() => acceptGroup(group)}
+                    />
+                  )}
+                </div>
+
+                {/* Checklists of a group present on both sides */}
+                {group.checklists
+                  .filter((cl) => showUnchanged || hasChecklistChanges(cl))
+                  .map((checklist) => (
+                    <ChecklistSection
+                      key={checklist.target?.id ?? checklist.source!.id}
+                      diff={checklist}
+                      showUnchanged={showUnchanged}
+                      onAcceptChecklist={() =>
+                        acceptChecklist(group.target!.id, checklist)
+                      }
+                      onAcceptItem={(item) =>
+                        acceptItem(group.target!.id, checklist.target!.id, item)
+                      }
+                    />
+                  ))}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="flex items-center gap-2">
+          <Switch
+            size="sm"
+            checked={showUnchanged}
+            onCheckedChange={setShowUnchanged}
+          />
+          <Label className="text-muted-foreground text-[11px]">
+            Show unchanged
+          </Label>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// ChecklistSection
+// ---------------------------------------------------------------------------
+
+interface ChecklistSectionProps {
+  diff: ChecklistDiff;
+  showUnchanged: boolean;
+  onAcceptChecklist: () => void;
+  onAcceptItem: (item: ItemDiff) => void;
+}
+
+function ChecklistSection({
+  diff,
+  showUnchanged,
+  onAcceptChecklist,
+  onAcceptItem,
+}: ChecklistSectionProps) {
+  const items = showUnchanged
+    ? diff.items
+    : diff.items.filter((i) => i.kind !== "unchanged");
+
+  return (
+    <div className="mt-2 flex flex-col gap-0.5">
+      <div className="flex items-center gap-2 px-2">
+        <span className="text-text-secondary text-[12px] font-medium">
+          {diff.name}
+        </span>
+        {diff.kind !== "matched" && (
+          <>
+            <KindLabel kind={diff.kind} />
+            <span className="text-text-muted text-[11px]">
+              {(diff.source ?? diff.target)!.items.length} items
+            </span>
+            <span className="flex-1" />
+            <AcceptButton
+              label={KIND_CONFIG[diff.kind].action}
+              onClick={onAcceptChecklist}
+            />
+          </>
+        )}
+      </div>
+
+      {items.map((item, i) => (
+        <div
+          key={item.target?.id ?? item.source?.id ?? i}
+          className={cn(
+            "flex items-center gap-3 rounded px-2 py-0.5",
+            item.kind !== "unchanged" && KIND_CONFIG[item.kind].rowClass,
+          )}
+        >
+          <ItemCell item={item.target} />
+          <span className="flex w-14 shrink-0 justify-center">
+            <KindLabel kind={item.kind} />
+          </span>
+          <ItemCell item={item.source} />
+          {item.kind === "unchanged" ? (
+            <span className="w-16 shrink-0" />
+          ) : (
+            <AcceptButton
+              label={KIND_CONFIG[item.kind].action}
+              onClick={() => onAcceptItem(item)}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
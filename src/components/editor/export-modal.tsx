@@ -1,22 +1,55 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { CircleX, Info, RefreshCw, TriangleAlert, X } from "lucide-react";
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { TypeIndicator } from "./type-indicator";
+import {
+  TEXT_EXPORT_DEFAULTS,
+  TextExportOptionsForm,
+} from "./text-export-options";
+import { PdfExportOptionsForm } from "./pdf-export-options";
+import { getPdfExportDefaults } from "@/ipc/formats/pdf/options";
 import { cn } from "@/utils/tailwind";
 import { useChecklistStore } from "@/stores";
-import { exportFile } from "@/actions/checklist";
+import { exportFile, validateExport } from "@/actions/checklist";
 import { saveFileDialog } from "@/actions/dialog";
+import {
+  forgetExport,
+  isProfileStale,
+  recordExport,
+  reexportWithToast,
+  rememberExportOptions,
+  useExportProfiles,
+} from "@/hooks/use-export-profiles";
 import { toast } from "sonner";
 import { ChecklistFormat } from "@/types/checklist";
+import type {
+  ChecklistFile,
+  ChecklistItem,
+  ExportOptions,
+  ExportProfile,
+} from "@/types/checklist";
+import type { FormatDiagnostic } from "@/ipc/formats/types";
 
 interface ExportModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
+/** Formats with an options step, and the defaults its form starts from */
+const EXPORT_DEFAULTS: Partial<Record<ChecklistFormat, ExportOptions>> = {
+  ...TEXT_EXPORT_DEFAULTS,
+  [ChecklistFormat.Pdf]: getPdfExportDefaults(),
+};
+
 // Format options for the export grid
 const EXPORT_OPTIONS = [
   {
@@ -40,6 +73,13 @@ const EXPORT_OPTIONS = [
     description: "Paper backup",
     enabled: true,
   },
+  {
+    format: ChecklistFormat.Html,
+    name: "Interactive HTML",
+    extension: ".html",
+    description: "Any tablet browser",
+    enabled: true,
+  },
   {
     format: ChecklistFormat.Gplt,
     name: "Garmin Pilot",
@@ -68,28 +108,324 @@ const EXPORT_OPTIONS = [
     description: "Grand Rapids",
     enabled: true,
   },
+  {
+    format: ChecklistFormat.Csv,
+    name: "CSV Spreadsheet",
+    extension: ".csv / .tsv",
+    description: "Excel, Numbers, Sheets",
+    enabled: true,
+  },
+  {
+    format: ChecklistFormat.EfisEditor,
+    name: "efis-editor",
+    extension: ".json",
+    description: "rdamazio web editor",
+    enabled: true,
+  },
+  {
+    format: ChecklistFormat.Markdown,
+    name: "Markdown",
+    extension: ".md",
+    description: "Readable, diffable source",
+    enabled: true,
+  },
 ];
 
+type ExportOption = (typeof EXPORT_OPTIONS)[number];
+
+// ---------------------------------------------------------------------------
+// Compatibility report
+// ---------------------------------------------------------------------------
+
+interface ReportEntry {
+  diagnostic: FormatDiagnostic;
+  item?: ChecklistItem;
+}
+
+interface ReportSection {
+  key: string;
+  label: string;
+  checklistId?: string;
+  entries: ReportEntry[];
+}
+
+/** Arrange diagnostics in file order: file-wide, then per group and checklist */
+function buildReportSections(
+  file: ChecklistFile,
+  diagnostics: FormatDiagnostic[],
+): ReportSection[] {
+  const sections: ReportSection[] = [];
+
+  const fileEntries = diagnostics
+    .filter((d) => !d.groupId)
+    .map((diagnostic) => ({ diagnostic }));
+  if (fileEntries.length > 0) {
+    sections.push({ key: "file", label: file.name, entries: fileEntries });
+  }
+
+  for (const group of file.groups) {
+    const groupEntries = diagnostics
+      .filter((d) => d.groupId === group.id && !d.checklistId)
+      .map((diagnostic) => ({ diagnostic }));
+    if (groupEntries.length > 0) {
+      sections.push({
+        key: group.id,
+        label: group.name,
+        entries: groupEntries,
+      });
+    }
+
+    for (const checklist of group.checklists) {
+      const entries = diagnostics
+        .filter((d) => d.checklistId === checklist.id)
+        .map((diagnostic) => ({
+          diagnostic,
+          item: checklist.items.find((i) => i.id === diagnostic.itemId),
+        }));
+      if (entries.length > 0) {
+        sections.push({
+          key: checklist.id,
+          label: `${group.name} › ${checklist.name}`,
+          checklistId: checklist.id,
+          entries,
+        });
+      }
+    }
+  }
+
+  return sections;
+}
+
+/** e.g. "3 issues found (1 warning)." */
+function describeReport(diagnostics: FormatDiagnostic[]): string {
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+  const warnings = diagnostics.filter((d) => d.severity === "warning").length;
+  const counts = [
+    errors > 0 ? `${errors} error${errors === 1 ? "" : "s"}` : null,
+    warnings > 0 ? `${warnings} warning${warnings === 1 ? "" : "s"}` : null,
+  ].filter(Boolean);
+  let text = `${diagnostics.length} issue${diagnostics.length === 1 ? "" : "s"} found`;
+  if (counts.length > 0) text += ` (${counts.join(", ")})`;
+  if (errors > 0) text += " — fix the errors to export";
+  return `${text}.`;
+}
+
+function SeverityIcon({
+  severity,
+}: {
+  severity: FormatDiagnostic["severity"];
+}) {
+  if (severity === "error") {
+    return <CircleX className="text-efis-red mt-0.5 size-3.5 shrink-0" />;
+  }
+  return severity === "warning" ? (
+    <TriangleAlert className="text-efis-yellow mt-0.5 size-3.5 shrink-0" />
+  ) : (
+    <Info className="text-text-muted mt-0.5 size-3.5 shrink-0" />
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Export targets
+// ---------------------------------------------------------------------------
+
+function formatName(format: ChecklistFormat): string {
+  return EXPORT_OPTIONS.find((o) => o.format === format)?.name ?? format;
+}
+
+/** Last path segment, for display (paths may use either separator) */
+function baseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() ?? filePath;
+}
+
+interface ExportTargetRowProps {
+  file: ChecklistFile;
+  profile: ExportProfile;
+  disabled: boolean;
+  onReexport: () => void;
+  onRemove: () => void;
+}
+
+function ExportTargetRow({
+  file,
+  profile,
+  disabled,
+  onReexport,
+  onRemove,
+}: ExportTargetRowProps) {
+  const stale = isProfileStale(file, profile);
+
+  return (
+    <div className="flex items-center gap-2 rounded px-2 py-1">
+      <span
+        className={cn(
+          "size-2 shrink-0 rounded-full",
+          stale ? "bg-efis-yellow" : "bg-efis-green",
+        )}
+      />
+      <span className="flex min-w-0 flex-1 flex-col">
+        <span className="text-foreground truncate text-[12px]">
+          {formatName(profile.format)}
+          <span className="text-text-muted">
+            {" "}
+            · {baseName(profile.filePath)}
+          </span>
+        </span>
+        <span
+          className="text-text-muted truncate font-mono text-[10px]"
+          title={profile.filePath}
+        >
+          {profile.filePath}
+        </span>
+      </span>
+      <span className="text-text-muted shrink-0 text-[11px]">
+        {stale ? "Out of date" : "Up to date"}
+      </span>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={onReexport}
+        title="Re-export"
+        className="text-text-muted hover:text-foreground rounded p-1 transition-colors duration-150 disabled:opacity-40"
+      >
+        <RefreshCw className="size-3" />
+      </button>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={onRemove}
+        title="Forget this target"
+        className="text-text-muted hover:text-foreground rounded p-1 transition-colors duration-150 disabled:opacity-40"
+      >
+        <X className="size-3" />
+      </button>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// ExportModal
+// ---------------------------------------------------------------------------
+
 export function ExportModal({ open, onOpenChange }: ExportModalProps) {
   const activeFileId = useChecklistStore((s) => s.activeFileId);
   const files = useChecklistStore((s) => s.files);
   const activeFile = activeFileId ? files[activeFileId] : null;
+  const lastOptions = useChecklistStore((s) =>
+    activeFileId ? s.exportSettings[activeFileId]?.options : undefined,
+  );
+
+  const setActiveFile = useChecklistStore((s) => s.setActiveFile);
+  const setActiveChecklist = useChecklistStore((s) => s.setActiveChecklist);
+  const setActiveItem = useChecklistStore((s) => s.setActiveItem);
+
+  const { profiles } = useExportProfiles(activeFileId);
 
   const [isExporting, setIsExporting] = useState(false);
+  // Writer overrides being edited, for formats that have any
+  const [optionsStep, setOptionsStep] = useState<{
+    option: ExportOption;
+    options: ExportOptions;
+  } | null>(null);
+  const [report, setReport] = useState<{
+    option: ExportOption;
+    options?: ExportOptions;
+    diagnostics: FormatDiagnostic[];
+  } | null>(null);
+
+  const sections = useMemo(
+    () =>
+      report && activeFile
+        ? buildReportSections(activeFile, report.diagnostics)
+        : [],
+    [report, activeFile],
+  );
+
+  function handleOpenChange(next: boolean) {
+    if (!next) {
+      setOptionsStep(null);
+      setReport(null);
+    }
+    onOpenChange(next);
+  }
+
+  /** Configurable formats get an options step, prefilled with the last-used overrides */
+  function handleSelectFormat(option: ExportOption) {
+    if (!activeFile) return;
+
+    const defaults = EXPORT_DEFAULTS[option.format];
+    if (defaults) {
+      setOptionsStep({
+        option,
+        options: { ...defaults, ...lastOptions?.[option.format] },
+      });
+      return;
+    }
+
+    void handleCheckAndExport(option);
+  }
+
+  /** Check format compatibility first — only show the report if something would be lost */
+  async function handleCheckAndExport(
+    option: ExportOption,
+    options?: ExportOptions,
+  ) {
+    if (!activeFile) return;
+
+    try {
+      setIsExporting(true);
+      const diagnostics = await validateExport(
+        activeFile,
+        option.format,
+        options,
+      );
+      if (diagnostics.length > 0) {
+        setReport({ option, options, diagnostics });
+        setIsExporting(false);
+        return;
+      }
+    } catch (err) {
+      toast.error("Compatibility check failed", {
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+      setIsExporting(false);
+      return;
+    }
+
+    await handleExport(option.format, option.extension, options);
+  }
 
-  async function handleExport(format: ChecklistFormat, extension: string) {
+  function handleNavigate(section: ReportSection, entry: ReportEntry) {
+    if (!activeFile || !section.checklistId) return;
+    setActiveFile(activeFile.id);
+    setActiveChecklist(section.checklistId);
+    if (entry.item) setActiveItem(entry.item.id);
+    handleOpenChange(false);
+  }
+
+  async function handleExport(
+    format: ChecklistFormat,
+    extension: string,
+    options?: ExportOptions,
+  ) {
     if (!activeFile) return;
 
     try {
       setIsExporting(true);
 
-      // Remove leading dot and slashes for the save dialog
-      const cleanExt = extension.replace(/^\./, "").split("/")[0].trim();
+      // Remove dots and slashes for the save dialog; the source file's
+      // extension is the default when the format offers it (e.g. .tsv)
+      const extensions = extension
+        .split("/")
+        .map((ext) => ext.trim().replace(/^\./, ""));
+      const sourceExt = activeFile.filePath?.split(".").pop()?.toLowerCase();
+      const defaultExt =
+        extensions.find((ext) => ext === sourceExt) ?? extensions[0];
 
       const filePath = await saveFileDialog({
         title: `Export as ${format.toUpperCase()}`,
-        defaultPath: `${activeFile.name}.${cleanExt}`,
-        filters: [{ name: format.toUpperCase(), extensions: [cleanExt] }],
+        defaultPath: `${activeFile.name}.${defaultExt}`,
+        filters: [{ name: format.toUpperCase(), extensions }],
       });
 
       if (!filePath) {
@@ -97,11 +433,13 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
         return; // User cancelled
       }
 
-      await exportFile(activeFile, format, filePath);
+      await exportFile(activeFile, format, filePath, options);
+      recordExport(activeFile, { format, filePath, options });
+      if (options) rememberExportOptions(activeFile.id, format, options);
       toast.success("Export complete", {
         description: `Saved to ${filePath}`,
       });
-      onOpenChange(false);
+      handleOpenChange(false);
     } catch (err) {
       toast.error("Export failed", {
         description: err instanceof Error ? err.message : "Unknown error",
@@ -111,8 +449,162 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
     }
   }
 
+  async function handleReexport(profileIds?: string[]) {
+    if (!activeFile) return;
+    setIsExporting(true);
+    try {
+      await reexportWithToast(activeFile.id, profileIds);
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  if (report) {
+    return (
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-140">
+          <DialogHeader>
+            <DialogTitle>{report.option.name} Compatibility</DialogTitle>
+            <DialogDescription>
+              {describeReport(report.diagnostics)} Click an entry to jump to it.
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-90">
+            <div className="flex flex-col gap-3 pr-3">
+              {sections.map((section) => (
+                <div key={section.key} className="flex flex-col gap-0.5">
+                  <span className="text-text-secondary text-[11px] font-semibold tracking-wide uppercase">
+                    {section.label}
+                  </span>
+                  {section.entries.map((entry, i) => (
+                    <button
+                      key={i}
+                      type="button"
+                      disabled={!section.checklistId}
+                      onClick={() => handleNavigate(section, entry)}
+                      className={cn(
+                        "flex items-start gap-2 rounded px-2 py-1 text-left transition-colors duration-150",
+                        section.checklistId &&
+                          "hover:bg-bg-elevated cursor-pointer",
+                      )}
+                    >
+                      <SeverityIcon severity={entry.diagnostic.severity} />
+                      <span className="flex min-w-0 flex-1 flex-col">
+                        {entry.item && (
+                          <span className="flex items-center gap-1.5">
+                            <TypeIndicator
+                              type={entry.item.type}
+                              className="w-3"
+                            />
+                            <span className="text-foreground truncate text-[12px]">
+                              {entry.item.challengeText || "(blank)"}
+                            </span>
+                          </span>
+                        )}
+                        <span className="text-text-muted text-[11px]">
+                          {entry.diagnostic.message}
+                        </span>
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              disabled={isExporting}
+              onClick={() => setReport(null)}
+            >
+              Back
+            </Button>
+            <Button
+              disabled={
+                isExporting ||
+                report.diagnostics.some((d) => d.severity === "error")
+              }
+              onClick={() =>
+                handleExport(
+                  report.option.format,
+                  report.option.extension,
+                  report.options,
+                )
+              }
+            >
+              Export anyway
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  if (optionsStep) {
+    const defaults = EXPORT_DEFAULTS[optionsStep.option.format];
+    const isPdf = optionsStep.option.format === ChecklistFormat.Pdf;
+    return (
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-100">
+          <DialogHeader>
+            <DialogTitle>{optionsStep.option.name} Options</DialogTitle>
+            <DialogDescription>
+              {isPdf
+                ? "Lay out the printout for your kneeboard or binder."
+                : "Adjust for your display and firmware."}{" "}
+              These are remembered for this file.
+            </DialogDescription>
+          </DialogHeader>
+          {isPdf ? (
+            <PdfExportOptionsForm
+              value={optionsStep.options}
+              onChange={(options) =>
+                setOptionsStep({ ...optionsStep, options })
+              }
+            />
+          ) : (
+            <TextExportOptionsForm
+              value={optionsStep.options}
+              onChange={(options) =>
+                setOptionsStep({ ...optionsStep, options })
+              }
+            />
+          )}
+          <DialogFooter>
+            <Button
+              variant="outline"
+              disabled={isExporting}
+              onClick={() => setOptionsStep(null)}
+            >
+              Back
+            </Button>
+            {defaults && (
+              <Button
+                variant="outline"
+                disabled={isExporting}
+                onClick={() =>
+                  setOptionsStep({ ...optionsStep, options: { ...defaults } })
+                }
+              >
+                Reset to defaults
+              </Button>
+            )}
+            <Button
+              disabled={isExporting}
+              onClick={() =>
+                handleCheckAndExport(optionsStep.option, optionsStep.options)
+              }
+            >
+              Export
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-120">
         <DialogHeader>
           <DialogTitle>Export Checklists</DialogTitle>
@@ -123,7 +615,7 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
               key={option.format}
               type="button"
               disabled={!option.enabled || !activeFile || isExporting}
-              onClick={() => handleExport(option.format, option.extension)}
+              onClick={() => handleSelectFormat(option)}
               className={cn(
                 "border-border flex flex-col items-start rounded-lg border p-3 text-left transition-colors duration-150",
                 option.enabled && activeFile && !isExporting
@@ -143,6 +635,38 @@ export function ExportModal({ open, onOpenChange }: ExportModalProps) {
             </button>
           ))}
         </div>
+        {activeFile && profiles.length > 0 && (
+          <div className="flex flex-col gap-1">
+            <div className="flex items-center justify-between">
+              <span className="text-text-secondary text-[11px] font-semibold tracking-wide uppercase">
+                Export Targets
+              </span>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isExporting}
+                onClick={() => handleReexport()}
+              >
+                <RefreshCw className="size-3" />
+                Re-export all
+              </Button>
+            </div>
+            <ScrollArea className="max-h-40">
+              <div className="flex flex-col pr-3">
+                {profiles.map((profile) => (
+                  <ExportTargetRow
+                    key={profile.id}
+                    file={activeFile}
+                    profile={profile}
+                    disabled={isExporting}
+                    onReexport={() => handleReexport([profile.id])}
+                    onRemove={() => forgetExport(activeFile.id, profile.id)}
+                  />
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { DiffDialog } from "./diff-dialog";
+import { useChecklistStore } from "@/stores";
+import { readChecklistFile } from "@/actions/checklist";
+import { csvLayoutOf } from "@/ipc/formats/csv";
+import { toast } from "sonner";
+import type { ExternalFileChange } from "@/ipc/watcher/types";
+import type { ChecklistFile } from "@/types/checklist";
+
+interface ExternalChangeDialogProps {
+  change: ExternalFileChange | null;
+  onResolved: () => void;
+}
+
+export function ExternalChangeDialog({
+  change,
+  onResolved,
+}: ExternalChangeDialogProps) {
+  const files = useChecklistStore((s) => s.files);
+  const activeFileId = useChecklistStore((s) => s.activeFileId);
+  const reloadFile = useChecklistStore((s) => s.reloadFile);
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [diskFile, setDiskFile] = useState<ChecklistFile | null>(null);
+
+  // The same path may be open more than once; prefer the active copy
+  const affected = change
+    ? Object.values(files).filter((f) => f.filePath === change.filePath)
+    : [];
+  const primary =
+    affected.find((f) => f.id === activeFileId) ?? affected[0] ?? null;
+
+  // Every copy was closed since the change was reported
+  useEffect(() => {
+    if (change && !primary) onResolved();
+  }, [change, primary, onResolved]);
+
+  if (!change || !primary) return null;
+
+  function resolve() {
+    setDiskFile(null);
+    onResolved();
+  }
+
+  async function readDiskVersion(): Promise<ChecklistFile | null> {
+    try {
+      setIsLoading(true);
+      return await readChecklistFile(change!.filePath, csvLayoutOf(primary!));
+    } catch (err) {
+      toast.error("Could not read file from disk", {
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleReload() {
+    const disk = await readDiskVersion();
+    if (!disk) return;
+    for (const file of affected) {
+      reloadFile(file.id, disk);
+    }
+    toast.success(`Reloaded ${disk.name}`, {
+      description: "Undo with Ctrl+Z to get your version back",
+    });
+    resolve();
+  }
+
+  async function handleCompare() {
+    const disk = await readDiskVersion();
+    if (disk) setDiskFile(disk);
+  }
+
+  if (diskFile) {
+    return (
+      <DiffDialog
+        targetFileId={primary.id}
+        source={{
+          kind: "version",
+          file: diskFile,
+          label: `${diskFile.name} (on disk)`,
+        }}
+        open
+        onOpenChange={(open) => !open && resolve()}
+      />
+    );
+  }
+
+  const deleted = change.kind === "deleted";
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && resolve()}>
+      <DialogContent className="sm:max-w-110">
+        <DialogHeader>
+          <DialogTitle>
+            {deleted ? "File Removed on Disk" : "File Changed on Disk"}
+          </DialogTitle>
+          <DialogDescription className="break-all">
+            {change.filePath}
+          </DialogDescription>
+        </DialogHeader>
+        <p className="text-text-secondary text-[12px]">
+          {deleted
+            ? `"${primary.name}" was deleted or moved by another program. Your copy stays open in the editor.`
+            : `"${primary.name}" was modified by another program. Reload it, keep your version, or compare the two first.`}
+        </p>
+        <DialogFooter>
+          {deleted ? (
+            <Button onClick={resolve}>Keep Editing</Button>
+          ) : (
+            <>
+              <Button variant="outline" disabled={isLoading} onClick={resolve}>
+                Ignore
+              </Button>
+              <Button
+                variant="outline"
+                disabled={isLoading}
+                onClick={handleCompare}
+              >
+                Compare
+              </Button>
+              <Button disabled={isLoading} onClick={handleReload}>
+                Reload
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
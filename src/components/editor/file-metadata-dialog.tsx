@@ -1,4 +1,5 @@
 import { useCallback, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -6,10 +7,16 @@ import {
   DialogTitle,
   DialogDescription,
 } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { useChecklistStore } from "@/stores";
-import type { ChecklistFile } from "@/types/checklist";
+import {
+  findUnknownVariables,
+  VARIABLE_NAME_PATTERN,
+} from "@/ipc/formats/variables";
+import type { ChecklistFile, ChecklistVariable } from "@/types/checklist";
 
 interface FileMetadataDialogProps {
   file: ChecklistFile;
@@ -24,7 +31,7 @@ export function FileMetadataDialog({
 }: FileMetadataDialogProps) {
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-sm">
+      <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle>File Metadata</DialogTitle>
           <DialogDescription>Edit metadata for {file.name}</DialogDescription>
@@ -43,6 +50,9 @@ function FileMetadataForm({ file }: { file: ChecklistFile }) {
   );
   const [makeModel, setMakeModel] = useState(file.metadata.makeModel);
   const [copyright, setCopyright] = useState(file.metadata.copyright);
+  const [description, setDescription] = useState(
+    file.metadata.description ?? "",
+  );
 
   const handleRegistrationChange = useCallback(
     (value: string) => {
@@ -68,6 +78,21 @@ function FileMetadataForm({ file }: { file: ChecklistFile }) {
     [file.id, updateFileMetadata],
   );
 
+  const handleDescriptionChange = useCallback(
+    (value: string) => {
+      setDescription(value);
+      updateFileMetadata(file.id, { description: value });
+    },
+    [file.id, updateFileMetadata],
+  );
+
+  const handleVariablesChange = useCallback(
+    (value: ChecklistVariable[]) => {
+      updateFileMetadata(file.id, { variables: value });
+    },
+    [file.id, updateFileMetadata],
+  );
+
   return (
     <div className="space-y-3">
       <div>
@@ -105,6 +130,123 @@ function FileMetadataForm({ file }: { file: ChecklistFile }) {
           className="text-xs"
         />
       </div>
+
+      <div>
+        <Label className="text-muted-foreground mb-1 block text-[11px]">
+          Description
+        </Label>
+        <Textarea
+          value={description}
+          onChange={(e) => handleDescriptionChange(e.target.value)}
+          placeholder="Optional notes about this checklist file"
+          rows={2}
+          className="min-h-0 text-xs"
+        />
+      </div>
+
+      <VariablesEditor file={file} onChange={handleVariablesChange} />
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// VariablesEditor
+// ---------------------------------------------------------------------------
+
+/** Variable names are typed in upper case; other characters are dropped */
+function toVariableName(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9_]/g, "");
+}
+
+function VariablesEditor({
+  file,
+  onChange,
+}: {
+  file: ChecklistFile;
+  onChange: (variables: ChecklistVariable[]) => void;
+}) {
+  const variables = file.metadata.variables ?? [];
+  const undefinedNames = findUnknownVariables(file);
+
+  function update(index: number, changes: Partial<ChecklistVariable>) {
+    onChange(variables.map((v, i) => (i === index ? { ...v, ...changes } : v)));
+  }
+
+  function isInvalid(variable: ChecklistVariable, index: number): boolean {
+    return (
+      !VARIABLE_NAME_PATTERN.test(variable.name) ||
+      variables.some((v, i) => i < index && v.name === variable.name)
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-1 flex items-center justify-between">
+        <Label className="text-muted-foreground block text-[11px]">
+          Variables
+        </Label>
+        <Button
+          size="xs"
+          variant="ghost"
+          onClick={() => onChange([...variables, { name: "", value: "" }])}
+        >
+          <Plus />
+          Add
+        </Button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        {variables.map((variable, index) => (
+          <div key={index} className="flex items-center gap-1">
+            <Input
+              value={variable.name}
+              placeholder="NAME"
+              aria-invalid={isInvalid(variable, index)}
+              onChange={(e) =>
+                update(index, { name: toVariableName(e.target.value) })
+              }
+              className="h-7 w-32 font-mono text-xs"
+            />
+            <Input
+              value={variable.value}
+              placeholder="Value"
+              onChange={(e) => update(index, { value: e.target.value })}
+              className="h-7 flex-1 text-xs"
+            />
+            <Button
+              size="icon-xs"
+              variant="ghost"
+              title="Remove variable"
+              onClick={() => onChange(variables.filter((_, i) => i !== index))}
+            >
+              <Trash2 />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-text-muted mt-1 text-[11px]">
+        Write {"{{NAME}}"} in any item to use a variable. Values are filled in
+        on export; JSON and Markdown keep the tokens.
+      </p>
+
+      {undefinedNames.length > 0 && (
+        <div className="mt-1 flex flex-wrap items-center gap-1 text-[11px]">
+          <span className="text-efis-red">Undefined:</span>
+          {undefinedNames.map((name) => (
+            <Button
+              key={name}
+              size="xs"
+              variant="outline"
+              title={`Define {{${name}}}`}
+              onClick={() => onChange([...variables, { name, value: "" }])}
+            >
+              <Plus />
+              {name}
+            </Button>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
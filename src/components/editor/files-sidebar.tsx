@@ -1,7 +1,11 @@
 import { useCallback, useRef, useState } from "react";
 import {
   ALargeSmall,
+  FileDiff,
   FileText,
+  HardDrive,
+  History,
+  LayoutTemplate,
   FilePlus,
   Upload,
   Pencil,
@@ -14,14 +18,23 @@ import {
   ContextMenuContent,
   ContextMenuItem,
   ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
   ContextMenuTrigger,
 } from "@/components/ui/context-menu";
 import { useChecklistStore } from "@/stores";
 import { FormatBadge } from "@/components/editor/format-badge";
+import { DiffDialog, type DiffSource } from "@/components/editor/diff-dialog";
+import { HistoryDialog } from "@/components/editor/history-dialog";
+import { TemplateGalleryDialog } from "@/components/editor/template-gallery-dialog";
+import { SaveTemplateDialog } from "@/components/editor/save-template-dialog";
 import { cn } from "@/utils/tailwind";
 import { ChecklistFormat, ChecklistGroupCategory } from "@/types/checklist";
 import type { ChecklistFile } from "@/types/checklist";
 import { importFile, readChecklistFile } from "@/actions/checklist";
+import { csvLayoutOf } from "@/ipc/formats/csv";
+import { openImportResult } from "@/utils/import-file";
 import { toast } from "sonner";
 
 // ---------------------------------------------------------------------------
@@ -36,6 +49,10 @@ const FORMAT_ICON_COLOR: Record<ChecklistFormat, string> = {
   [ChecklistFormat.Grt]: "text-efis-orange",
   [ChecklistFormat.Json]: "text-efis-accent",
   [ChecklistFormat.Pdf]: "text-efis-red",
+  [ChecklistFormat.Html]: "text-efis-orange",
+  [ChecklistFormat.Csv]: "text-efis-green",
+  [ChecklistFormat.EfisEditor]: "text-efis-yellow",
+  [ChecklistFormat.Markdown]: "text-efis-purple",
 };
 
 // ---------------------------------------------------------------------------
@@ -96,6 +113,12 @@ interface FileListItemProps {
   onClose: () => void;
   onDelete: () => void;
   onUppercase: () => void;
+  /** Other open files this one can be compared against */
+  otherFiles: ChecklistFile[];
+  onCompareWithFile: (otherFileId: string) => void;
+  onCompareWithDisk: () => void;
+  onShowHistory: () => void;
+  onSaveAsTemplate: () => void;
 }
 
 function FileListItem({
@@ -109,6 +132,11 @@ function FileListItem({
   onClose,
   onDelete,
   onUppercase,
+  otherFiles,
+  onCompareWithFile,
+  onCompareWithDisk,
+  onShowHistory,
+  onSaveAsTemplate,
 }: FileListItemProps) {
   return (
     <ContextMenu>
@@ -165,6 +193,38 @@ function FileListItem({
           Uppercase All
         </ContextMenuItem>
         <ContextMenuSeparator />
+        <ContextMenuSub>
+          <ContextMenuSubTrigger disabled={otherFiles.length === 0}>
+            <FileDiff className="size-3.5" />
+            Compare With
+          </ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            {otherFiles.map((other) => (
+              <ContextMenuItem
+                key={other.id}
+                onClick={() => onCompareWithFile(other.id)}
+              >
+                <FileText
+                  className={cn("size-3.5", FORMAT_ICON_COLOR[other.format])}
+                />
+                {other.name}
+              </ContextMenuItem>
+            ))}
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuItem disabled={!file.filePath} onClick={onCompareWithDisk}>
+          <HardDrive className="size-3.5" />
+          Compare With File on Disk
+        </ContextMenuItem>
+        <ContextMenuItem onClick={onShowHistory}>
+          <History className="size-3.5" />
+          Revision History
+        </ContextMenuItem>
+        <ContextMenuItem onClick={onSaveAsTemplate}>
+          <LayoutTemplate className="size-3.5" />
+          Save as Template
+        </ContextMenuItem>
+        <ContextMenuSeparator />
         <ContextMenuItem variant="destructive" onClick={onDelete}>
           <Trash2 className="size-3.5" />
           Delete
@@ -229,6 +289,13 @@ export function FilesSidebar() {
 
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [renamingFileId, setRenamingFileId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<{
+    targetFileId: string;
+    source: DiffSource;
+  } | null>(null);
+  const [historyFileId, setHistoryFileId] = useState<string | null>(null);
+  const [galleryOpen, setGalleryOpen] = useState(false);
+  const [templateFileId, setTemplateFileId] = useState<string | null>(null);
   const dropZoneRef = useRef<HTMLDivElement>(null);
 
   const fileList = Object.values(files);
@@ -285,6 +352,29 @@ export function FilesSidebar() {
     [files, removeFile],
   );
 
+  const handleCompareWithDisk = useCallback(async (fileId: string) => {
+    const file = useChecklistStore.getState().files[fileId];
+    if (!file?.filePath) return;
+    try {
+      const diskFile = await readChecklistFile(
+        file.filePath,
+        csvLayoutOf(file),
+      );
+      setComparison({
+        targetFileId: fileId,
+        source: {
+          kind: "version",
+          file: diskFile,
+          label: `${diskFile.name} (on disk)`,
+        },
+      });
+    } catch (err) {
+      toast.error("Could not read file from disk", {
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }, []);
+
   // -- Drag & Drop ------------------------------------------------------------
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -299,54 +389,41 @@ export function FilesSidebar() {
     setIsDraggingOver(false);
   }, []);
 
-  const handleDrop = useCallback(
-    async (e: React.DragEvent) => {
-      e.preventDefault();
-      e.stopPropagation();
-      setIsDraggingOver(false);
-
-      const droppedFiles = Array.from(e.dataTransfer.files);
-      if (droppedFiles.length === 0) return;
-
-      // In Electron, dropped files have a .path property
-      for (const droppedFile of droppedFiles) {
-        const filePath = (droppedFile as File & { path: string }).path;
-        if (!filePath) continue;
-
-        try {
-          const file = await readChecklistFile(filePath);
-          addFile(file);
-          toast.success("File imported", {
-            description: `Opened ${file.name}`,
-          });
-        } catch (err) {
-          toast.error("Import failed", {
-            description:
-              err instanceof Error
-                ? err.message
-                : `Failed to import ${droppedFile.name}`,
-          });
-        }
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDraggingOver(false);
+
+    const droppedFiles = Array.from(e.dataTransfer.files);
+    if (droppedFiles.length === 0) return;
+
+    // In Electron, dropped files have a .path property
+    for (const droppedFile of droppedFiles) {
+      const filePath = (droppedFile as File & { path: string }).path;
+      if (!filePath) continue;
+
+      try {
+        openImportResult(await importFile(filePath));
+      } catch (err) {
+        toast.error("Import failed", {
+          description:
+            err instanceof Error
+              ? err.message
+              : `Failed to import ${droppedFile.name}`,
+        });
       }
-    },
-    [addFile],
-  );
+    }
+  }, []);
 
   const handleDropZoneClick = useCallback(async () => {
     try {
-      const file = await importFile();
-      if (file) {
-        addFile(file);
-        toast.success("File imported", {
-          description: `Opened ${file.name}`,
-        });
-      }
+      openImportResult(await importFile());
     } catch (err) {
       toast.error("Import failed", {
         description: err instanceof Error ? err.message : "Unknown error",
       });
     }
-  }, [addFile]);
+  }, []);
 
   // -- Render -----------------------------------------------------------------
 
@@ -359,7 +436,7 @@ export function FilesSidebar() {
         </span>
         <button
           type="button"
-          onClick={handleNewFile}
+          onClick={() => setGalleryOpen(true)}
           className="text-muted-foreground hover:bg-bg-hover hover:text-foreground rounded p-1 transition-colors duration-150"
           title="New file"
         >
@@ -384,6 +461,16 @@ export function FilesSidebar() {
                 onClose={() => handleCloseFile(file.id)}
                 onDelete={() => handleDeleteFile(file.id)}
                 onUppercase={() => uppercaseFile(file.id)}
+                otherFiles={fileList.filter((f) => f.id !== file.id)}
+                onCompareWithFile={(otherFileId) =>
+                  setComparison({
+                    targetFileId: file.id,
+                    source: { kind: "file", fileId: otherFileId },
+                  })
+                }
+                onCompareWithDisk={() => handleCompareWithDisk(file.id)}
+                onShowHistory={() => setHistoryFileId(file.id)}
+                onSaveAsTemplate={() => setTemplateFileId(file.id)}
               />
             ))}
           </div>
@@ -417,6 +504,40 @@ export function FilesSidebar() {
           </span>
         </div>
       </div>
+
+      <TemplateGalleryDialog
+        open={galleryOpen}
+        onOpenChange={setGalleryOpen}
+        onCreateBlank={handleNewFile}
+      />
+
+      {templateFileId && (
+        <SaveTemplateDialog
+          key={templateFileId}
+          fileId={templateFileId}
+          open
+          onOpenChange={(open) => !open && setTemplateFileId(null)}
+        />
+      )}
+
+      {historyFileId && (
+        <HistoryDialog
+          key={historyFileId}
+          fileId={historyFileId}
+          open
+          onOpenChange={(open) => !open && setHistoryFileId(null)}
+        />
+      )}
+
+      {comparison && (
+        <DiffDialog
+          key={`${comparison.targetFileId}-${comparison.source.kind === "file" ? comparison.source.fileId : comparison.source.label}`}
+          targetFileId={comparison.targetFileId}
+          source={comparison.source}
+          open
+          onOpenChange={(open) => !open && setComparison(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,351 @@
+import { useMemo, useState } from "react";
+import { CaseSensitive, Regex, WholeWord } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/utils/tailwind";
+import { useChecklistStore } from "@/stores";
+import {
+  buildEdits,
+  compilePattern,
+  expandReplacement,
+  findMatches,
+} from "@/utils/find-replace";
+import type {
+  FindContext,
+  FindField,
+  FindMatch,
+  FindOptions,
+  FindScope,
+} from "@/utils/find-replace";
+import { toast } from "sonner";
+import type { ChecklistFile } from "@/types/checklist";
+
+interface FindReplaceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SCOPE_LABELS: Record<FindScope, string> = {
+  checklist: "Current checklist",
+  group: "Current group",
+  file: "Current file",
+  all: "All open files",
+};
+
+const FIELD_LABELS: Record<FindField, string> = {
+  groupName: "Group",
+  checklistName: "Checklist",
+  challengeText: "Challenge",
+  responseText: "Response",
+};
+
+/** Rows rendered in the match list; replace-all still covers every match */
+const MAX_VISIBLE_MATCHES = 500;
+
+/** Characters of context shown before a match */
+const CONTEXT_CHARS = 24;
+
+type ToggleKey = "caseSensitive" | "wholeWord" | "regex";
+
+const TOGGLES: { key: ToggleKey; label: string; icon: typeof Regex }[] = [
+  { key: "caseSensitive", label: "Match case", icon: CaseSensitive },
+  { key: "wholeWord", label: "Whole word", icon: WholeWord },
+  { key: "regex", label: "Regular expression", icon: Regex },
+];
+
+function getFindContext(
+  files: Record<string, ChecklistFile>,
+  activeFileId: string | null,
+  activeChecklistId: string | null,
+): FindContext {
+  const file = activeFileId ? files[activeFileId] : null;
+  const group = file?.groups.find((g) =>
+    g.checklists.some((c) => c.id === activeChecklistId),
+  );
+  return {
+    fileId: file?.id ?? null,
+    groupId: group?.id ?? null,
+    checklistId: group ? activeChecklistId : null,
+  };
+}
+
+/** Whether a scope has something to search given the current selection */
+function isScopeAvailable(scope: FindScope, context: FindContext): boolean {
+  switch (scope) {
+    case "checklist":
+      return context.checklistId !== null;
+    case "group":
+      return context.groupId !== null;
+    case "file":
+      return context.fileId !== null;
+    case "all":
+      return true;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// FindReplaceDialog
+// ---------------------------------------------------------------------------
+
+export function FindReplaceDialog({
+  open,
+  onOpenChange,
+}: FindReplaceDialogProps) {
+  const files = useChecklistStore((s) => s.files);
+  const activeFileId = useChecklistStore((s) => s.activeFileId);
+  const activeChecklistId = useChecklistStore((s) => s.activeChecklistId);
+  const replaceText = useChecklistStore((s) => s.replaceText);
+  const setActiveFile = useChecklistStore((s) => s.setActiveFile);
+  const setActiveChecklist = useChecklistStore((s) => s.setActiveChecklist);
+  const setActiveItem = useChecklistStore((s) => s.setActiveItem);
+
+  const [options, setOptions] = useState<FindOptions>({
+    query: "",
+    caseSensitive: false,
+    wholeWord: false,
+    regex: false,
+  });
+  const [replacement, setReplacement] = useState("");
+  const [scope, setScope] = useState<FindScope>("file");
+
+  const context = useMemo(
+    () => getFindContext(files, activeFileId, activeChecklistId),
+    [files, activeFileId, activeChecklistId],
+  );
+
+  const { pattern, error } = useMemo(() => compilePattern(options), [options]);
+
+  const matches = useMemo(
+    () =>
+      pattern && isScopeAvailable(scope, context)
+        ? findMatches(files, scope, context, pattern)
+        : [],
+    [files, scope, context, pattern],
+  );
+
+  function handleSelect(match: FindMatch) {
+    setActiveFile(match.fileId);
+    if (match.checklistId) setActiveChecklist(match.checklistId);
+    if (match.itemId) setActiveItem(match.itemId);
+  }
+
+  function handleReplace(match: FindMatch) {
+    if (!pattern) return;
+    replaceText(buildEdits([match], pattern, replacement, options));
+  }
+
+  function handleReplaceAll() {
+    if (!pattern || matches.length === 0) return;
+    const count = matches.length;
+    replaceText(buildEdits(matches, pattern, replacement, options));
+    toast.success(`Replaced ${count} ${count === 1 ? "match" : "matches"}`, {
+      description: "Undo with Ctrl+Z",
+    });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[75vh] flex-col sm:max-w-180">
+        <DialogHeader>
+          <DialogTitle>Find and Replace</DialogTitle>
+          <DialogDescription>
+            Searches group and checklist names, challenge and response text.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Query */}
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center gap-1">
+            <Input
+              autoFocus
+              value={options.query}
+              placeholder="Find"
+              aria-invalid={error !== null}
+              onChange={(e) =>
+                setOptions({ ...options, query: e.target.value })
+              }
+              className="h-7 flex-1 text-xs"
+            />
+            {TOGGLES.map(({ key, label, icon: Icon }) => (
+              <Button
+                key={key}
+                size="icon"
+                variant={options[key] ? "secondary" : "ghost"}
+                title={label}
+                aria-pressed={options[key]}
+                onClick={() => setOptions({ ...options, [key]: !options[key] })}
+              >
+                <Icon />
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <Input
+              value={replacement}
+              placeholder={
+                options.regex ? "Replace ($1 for groups)" : "Replace"
+              }
+              onChange={(e) => setReplacement(e.target.value)}
+              className="h-7 flex-1 text-xs"
+            />
+            <Select
+              value={scope}
+              onValueChange={(value) => setScope(value as FindScope)}
+            >
+              <SelectTrigger className="w-40" size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                  <SelectItem
+                    key={value}
+                    value={value}
+                    disabled={!isScopeAvailable(value as FindScope, context)}
+                  >
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {error && <span className="text-efis-red text-[11px]">{error}</span>}
+        </div>
+
+        {/* Matches */}
+        <ScrollArea className="border-border min-h-0 flex-1 rounded border">
+          <div className="flex flex-col p-1">
+            {pattern && matches.length === 0 && (
+              <span className="text-text-muted px-2 py-4 text-center text-xs">
+                {isScopeAvailable(scope, context)
+                  ? "No matches"
+                  : `No ${scope} selected`}
+              </span>
+            )}
+            {matches.slice(0, MAX_VISIBLE_MATCHES).map((match) => (
+              <MatchRow
+                key={match.id}
+                match={match}
+                files={files}
+                showFile={scope === "all"}
+                replacement={
+                  pattern && replacement
+                    ? expandReplacement(match, pattern, replacement, options)
+                    : null
+                }
+                onSelect={() => handleSelect(match)}
+                onReplace={() => handleReplace(match)}
+              />
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="items-center">
+          <span className="text-text-muted mr-auto text-[11px]">
+            {matches.length > MAX_VISIBLE_MATCHES
+              ? `${matches.length} matches (showing first ${MAX_VISIBLE_MATCHES})`
+              : `${matches.length} ${matches.length === 1 ? "match" : "matches"}`}
+          </span>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button disabled={matches.length === 0} onClick={handleReplaceAll}>
+            Replace All
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// MatchRow
+// ---------------------------------------------------------------------------
+
+interface MatchRowProps {
+  match: FindMatch;
+  files: Record<string, ChecklistFile>;
+  showFile: boolean;
+  /** Expanded replacement, or null to only highlight the match */
+  replacement: string | null;
+  onSelect: () => void;
+  onReplace: () => void;
+}
+
+function MatchRow({
+  match,
+  files,
+  showFile,
+  replacement,
+  onSelect,
+  onReplace,
+}: MatchRowProps) {
+  const file = files[match.fileId];
+  const group = file?.groups.find((g) => g.id === match.groupId);
+  const checklist = group?.checklists.find((c) => c.id === match.checklistId);
+  const location = [showFile ? file?.name : null, group?.name, checklist?.name]
+    .filter(Boolean)
+    .join(" › ");
+
+  const before = match.text.slice(0, match.start);
+  const matched = match.text.slice(match.start, match.end);
+  const after = match.text.slice(match.end);
+
+  return (
+    <div className="hover:bg-bg-hover group flex items-center gap-2 rounded px-2 py-1">
+      <button
+        type="button"
+        onClick={onSelect}
+        className="flex min-w-0 flex-1 flex-col items-start text-left"
+      >
+        <span className="text-text-muted truncate text-[10px]">
+          {FIELD_LABELS[match.field]} · {location}
+        </span>
+        <span className="text-foreground w-full truncate text-[12px]">
+          {before.length > CONTEXT_CHARS
+            ? `…${before.slice(-CONTEXT_CHARS)}`
+            : before}
+          <span
+            className={cn(
+              "rounded-sm",
+              replacement === null
+                ? "bg-efis-yellow-dim text-efis-yellow"
+                : "bg-efis-red-dim text-efis-red line-through",
+            )}
+          >
+            {matched}
+          </span>
+          {replacement && (
+            <span className="bg-efis-green-dim text-efis-green rounded-sm">
+              {replacement}
+            </span>
+          )}
+          {after}
+        </span>
+      </button>
+      <Button
+        size="xs"
+        variant="outline"
+        className="opacity-0 group-hover:opacity-100"
+        onClick={onReplace}
+      >
+        Replace
+      </Button>
+    </div>
+  );
+}
@@ -38,6 +38,22 @@ const FORMAT_CONFIG: Record<
     label: ".pdf",
     className: "text-efis-red",
   },
+  [ChecklistFormat.Html]: {
+    label: ".html",
+    className: "text-efis-orange",
+  },
+  [ChecklistFormat.Csv]: {
+    label: ".csv",
+    className: "text-efis-green",
+  },
+  [ChecklistFormat.EfisEditor]: {
+    label: ".json",
+    className: "text-efis-yellow",
+  },
+  [ChecklistFormat.Markdown]: {
+    label: ".md",
+    className: "text-efis-purple",
+  },
 };
 
 export function FormatBadge({ format, className }: FormatBadgeProps) {
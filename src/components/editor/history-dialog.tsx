@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, FileDiff, History } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DiffDialog } from "./diff-dialog";
+import { GroupIcon } from "./group-icon";
+import { TypeIndicator } from "./type-indicator";
+import { cn } from "@/utils/tailwind";
+import { useChecklistStore } from "@/stores";
+import { getSnapshots, loadSnapshot } from "@/actions/persistence";
+import { toast } from "sonner";
+import type { SnapshotEntry } from "@/ipc/persistence/types";
+import type {
+  Checklist,
+  ChecklistFile,
+  ChecklistGroup,
+} from "@/types/checklist";
+
+interface HistoryDialogProps {
+  fileId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatTimestamp(time: number): string {
+  return new Date(time).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+/** How a snapshot checklist relates to the current file */
+function checklistStatus(
+  current: ChecklistFile,
+  checklist: Checklist,
+): "deleted" | "modified" | null {
+  for (const group of current.groups) {
+    const match = group.checklists.find((c) => c.id === checklist.id);
+    if (match) {
+      return JSON.stringify(match) === JSON.stringify(checklist)
+        ? null
+        : "modified";
+    }
+  }
+  return "deleted";
+}
+
+// ---------------------------------------------------------------------------
+// HistoryDialog
+// ---------------------------------------------------------------------------
+
+export function HistoryDialog({
+  fileId,
+  open,
+  onOpenChange,
+}: HistoryDialogProps) {
+  const file = useChecklistStore((s) => s.files[fileId]);
+  const restoreFile = useChecklistStore((s) => s.restoreFile);
+  const restoreChecklist = useChecklistStore((s) => s.restoreChecklist);
+
+  const [entries, setEntries] = useState<SnapshotEntry[] | null>(null);
+  const [selected, setSelected] = useState<SnapshotEntry | null>(null);
+  const [preview, setPreview] = useState<ChecklistFile | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  useEffect(() => {
+    getSnapshots(fileId)
+      .then(setEntries)
+      .catch((err) => {
+        setEntries([]);
+        toast.error("Failed to load revision history", {
+          description: err instanceof Error ? err.message : "Unknown error",
+        });
+      });
+  }, [fileId]);
+
+  async function handleSelect(entry: SnapshotEntry) {
+    setSelected(entry);
+    setPreview(null);
+    try {
+      setPreview(await loadSnapshot(fileId, entry.id));
+    } catch (err) {
+      toast.error("Failed to load revision", {
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }
+
+  function handleRestoreFile() {
+    if (!preview || !selected) return;
+    restoreFile(fileId, preview);
+    toast.success("Revision restored", {
+      description: `${formatTimestamp(selected.createdAt)} — undo with Ctrl+Z`,
+    });
+  }
+
+  function handleRestoreChecklist(group: ChecklistGroup, checklist: Checklist) {
+    restoreChecklist(fileId, group, checklist);
+    toast.success(`Restored "${checklist.name}"`, {
+      description: "Undo with Ctrl+Z",
+    });
+  }
+
+  if (!file) return null;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="flex h-[80vh] flex-col sm:max-w-220">
+          <DialogHeader>
+            <DialogTitle>Revision History</DialogTitle>
+            <DialogDescription>
+              Snapshots of {file.name}, taken on Ctrl+S and every few minutes
+              while editing.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex min-h-0 flex-1 gap-3">
+            {/* Snapshot list */}
+            <ScrollArea className="border-border w-60 shrink-0 border-r">
+              <div className="flex flex-col pr-3">
+                {entries === null && (
+                  <span className="text-text-muted px-2 py-4 text-xs">
+                    Loading&hellip;
+                  </span>
+                )}
+                {entries?.length === 0 && (
+                  <span className="text-text-muted px-2 py-4 text-xs">
+                    No revisions yet
+                  </span>
+                )}
+                {entries?.map((entry) => (
+                  <button
+                    key={entry.id}
+                    type="button"
+                    onClick={() => handleSelect(entry)}
+                    className={cn(
+                      "flex flex-col items-start rounded px-2 py-1.5 text-left transition-colors duration-150",
+                      selected?.id === entry.id
+                        ? "bg-bg-active"
+                        : "hover:bg-bg-hover",
+                    )}
+                  >
+                    <span className="text-foreground flex items-center gap-1.5 text-[12px]">
+                      {formatTimestamp(entry.createdAt)}
+                      {entry.reason === "save" && (
+                        <span className="text-efis-accent text-[10px] font-semibold uppercase">
+                          Saved
+                        </span>
+                      )}
+                    </span>
+                    <span className="text-text-muted text-[11px]">
+                      {entry.checklists} checklists · {entry.items} items
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {/* Preview */}
+            <div className="flex min-w-0 flex-1 flex-col gap-2">
+              {!selected && (
+                <div className="text-text-muted flex flex-1 flex-col items-center justify-center gap-2 text-xs">
+                  <History className="size-5" />
+                  Select a revision to preview it
+                </div>
+              )}
+              {selected && !preview && (
+                <span className="text-text-muted text-xs">Loading&hellip;</span>
+              )}
+              {selected && preview && (
+                <>
+                  <div className="flex items-center gap-2">
+                    <span className="text-foreground min-w-0 flex-1 truncate text-[13px] font-semibold">
+                      {preview.name}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setComparing(true)}
+                    >
+                      <FileDiff />
+                      Compare with Current
+                    </Button>
+                    <Button size="sm" onClick={handleRestoreFile}>
+                      Restore File
+                    </Button>
+                  </div>
+                  <ScrollArea className="min-h-0 flex-1">
+                    <div className="flex flex-col gap-3 pr-3">
+                      {preview.groups.map((group) => (
+                        <div key={group.id} className="flex flex-col gap-0.5">
+                          <span className="flex items-center gap-2">
+                            <GroupIcon category={group.category} />
+                            <span className="text-text-secondary text-[11px] font-semibold tracking-wide uppercase">
+                              {group.name}
+                            </span>
+                          </span>
+                          {group.checklists.map((checklist) => (
+                            <SnapshotChecklist
+                              key={checklist.id}
+                              checklist={checklist}
+                              status={checklistStatus(file, checklist)}
+                              onRestore={() =>
+                                handleRestoreChecklist(group, checklist)
+                              }
+                            />
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {comparing && preview && selected && (
+        <DiffDialog
+          targetFileId={fileId}
+          source={{
+            kind: "version",
+            file: preview,
+            label: `Revision of ${formatTimestamp(selected.createdAt)}`,
+          }}
+          open
+          onOpenChange={setComparing}
+        />
+      )}
+    </>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// SnapshotChecklist
+// ---------------------------------------------------------------------------
+
+interface SnapshotChecklistProps {
+  checklist: Checklist;
+  status: "deleted" | "modified" | null;
+  onRestore: () => void;
+}
+
+function SnapshotChecklist({
+  checklist,
+  status,
+  onRestore,
+}: SnapshotChecklistProps) {
+  const [expanded, setExpanded] = useState(false);
+  const Chevron = expanded ? ChevronDown : ChevronRight;
+
+  return (
+    <div className="flex flex-col">
+      <div className="hover:bg-bg-hover flex items-center gap-1.5 rounded px-1 py-0.5">
+        <button
+          type="button"
+          onClick={() => setExpanded((e) => !e)}
+          className="flex min-w-0 flex-1 items-center gap-1.5 text-left"
+        >
+          <Chevron className="text-text-muted size-3 shrink-0" />
+          <span className="text-foreground truncate text-[12px]">
+            {checklist.name}
+          </span>
+          <span className="text-text-muted shrink-0 text-[11px]">
+            {checklist.items.length} items
+          </span>
+          {status && (
+            <span
+              className={cn(
+                "shrink-0 text-[10px] font-semibold uppercase",
+                status === "deleted" ? "text-efis-red" : "text-efis-yellow",
+              )}
+            >
+              {status === "deleted" ? "Deleted since" : "Changed since"}
+            </span>
+          )}
+        </button>
+        <Button
+          size="xs"
+          variant="outline"
+          disabled={!status}
+          onClick={onRestore}
+        >
+          Restore
+        </Button>
+      </div>
+      {expanded && (
+        <div className="flex flex-col py-0.5 pl-5">
+          {checklist.items.map((item) => (
+            <div
+              key={item.id}
+              className="flex items-center gap-1"
+              style={{ paddingLeft: item.indent * 12 }}
+            >
+              <TypeIndicator type={item.type} className="w-3" />
+              <span className="text-foreground truncate text-[12px]">
+                {item.challengeText || "(blank)"}
+              </span>
+              {item.responseText && (
+                <span className="text-text-muted ml-auto shrink-0 pl-2 text-[12px]">
+                  {item.responseText}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -25,6 +25,8 @@ export const ITEM_TYPE_LINE_COLOR: Record<ChecklistItemType, string> = {
   [ChecklistItemType.Note]: "text-text-muted",
   [ChecklistItemType.Warning]: "text-efis-yellow",
   [ChecklistItemType.Caution]: "text-efis-orange",
+  [ChecklistItemType.PlainText]: "text-text-secondary",
+  [ChecklistItemType.Space]: "text-border-light",
 };
 
 // ---------------------------------------------------------------------------
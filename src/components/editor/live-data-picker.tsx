@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { RadioTower } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/utils/tailwind";
+import { LIVE_DATA_TOKENS } from "@/ipc/formats/garmin-pilot/live-data";
+import type { LiveDataToken } from "@/ipc/formats/garmin-pilot/live-data";
+
+// ---------------------------------------------------------------------------
+// LiveDataChip
+// ---------------------------------------------------------------------------
+
+/** A Garmin Pilot live data token, shown as the value it stands for */
+export function LiveDataChip({
+  token,
+  className,
+}: {
+  token: LiveDataToken;
+  className?: string;
+}) {
+  return (
+    <span
+      title={`${token.label} — Garmin Pilot live data (${token.token})`}
+      className={cn(
+        "bg-efis-accent-dim text-efis-accent inline-flex min-w-0 items-center gap-1 rounded px-1.5 py-px text-[11px] font-medium",
+        className,
+      )}
+    >
+      <RadioTower className="size-3 shrink-0" />
+      <span className="truncate">{token.example}</span>
+    </span>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// LiveDataPicker
+// ---------------------------------------------------------------------------
+
+interface LiveDataPickerProps {
+  /** Token currently used as the response, if any */
+  value?: LiveDataToken;
+  onSelect: (token: LiveDataToken) => void;
+}
+
+/** Icon button listing every live data token Garmin Pilot understands */
+export function LiveDataPicker({ value, onSelect }: LiveDataPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant={value ? "secondary" : "ghost"}
+          title="Insert Garmin Pilot live data"
+        >
+          <RadioTower />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="gap-1 p-1">
+        <span className="text-text-muted px-2 pt-1 text-[10px] font-semibold tracking-wide uppercase">
+          Garmin Pilot live data
+        </span>
+        {LIVE_DATA_TOKENS.map((token) => (
+          <button
+            key={token.token}
+            type="button"
+            onClick={() => {
+              onSelect(token);
+              setOpen(false);
+            }}
+            className={cn(
+              "hover:bg-bg-hover flex flex-col items-start rounded px-2 py-1 text-left transition-colors duration-150",
+              value?.token === token.token && "bg-bg-active",
+            )}
+          >
+            <span className="text-foreground text-[12px]">{token.label}</span>
+            <span className="text-text-muted font-mono text-[10px]">
+              {token.example}
+            </span>
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,208 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  PDF_DEFAULTS,
+  PDF_FONT_SIZE_RANGE,
+  PDF_PAGE_SIZES,
+} from "@/ipc/formats/pdf/options";
+import type {
+  ExportOptions,
+  PdfOrientation,
+  PdfPageSize,
+} from "@/types/checklist";
+
+const ORIENTATION_LABELS: Record<PdfOrientation, string> = {
+  portrait: "Portrait",
+  landscape: "Landscape",
+};
+
+type ToggleKey =
+  | "dotLeaders"
+  | "categoryColors"
+  | "keepChecklistsTogether"
+  | "groupsOnNewPage"
+  | "tableOfContents"
+  | "headerFooter";
+
+const TOGGLES: { key: ToggleKey; label: string; description: string }[] = [
+  {
+    key: "dotLeaders",
+    label: "Dot leaders",
+    description: "Dots between challenge and response",
+  },
+  {
+    key: "categoryColors",
+    label: "Category colors",
+    description: "Red emergency and amber abnormal headings",
+  },
+  {
+    key: "keepChecklistsTogether",
+    label: "Keep checklists together",
+    description: "Start a checklist in the next column rather than split it",
+  },
+  {
+    key: "groupsOnNewPage",
+    label: "Groups on new pages",
+    description: "Start every group at the top of a page",
+  },
+  {
+    key: "tableOfContents",
+    label: "Table of contents",
+    description: "List groups and checklists with page numbers",
+  },
+  {
+    key: "headerFooter",
+    label: "Headers and footers",
+    description: "Registration, revision and page numbers on every page",
+  },
+];
+
+interface PdfExportOptionsFormProps {
+  value: ExportOptions;
+  onChange: (value: ExportOptions) => void;
+}
+
+export function PdfExportOptionsForm({
+  value,
+  onChange,
+}: PdfExportOptionsFormProps) {
+  function handleFontSizeChange(text: string) {
+    const parsed = Number.parseFloat(text);
+    if (Number.isNaN(parsed)) return;
+    onChange({
+      ...value,
+      fontSize: Math.min(
+        PDF_FONT_SIZE_RANGE.max,
+        Math.max(PDF_FONT_SIZE_RANGE.min, parsed),
+      ),
+    });
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-muted-foreground mb-1 block text-[11px]">
+            Page size
+          </Label>
+          <Select
+            value={value.pageSize ?? PDF_DEFAULTS.pageSize}
+            onValueChange={(pageSize) =>
+              onChange({ ...value, pageSize: pageSize as PdfPageSize })
+            }
+          >
+            <SelectTrigger className="w-full" size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PDF_PAGE_SIZES).map(([key, size]) => (
+                <SelectItem key={key} value={key}>
+                  {size.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-muted-foreground mb-1 block text-[11px]">
+            Orientation
+          </Label>
+          <Select
+            value={value.orientation ?? PDF_DEFAULTS.orientation}
+            onValueChange={(orientation) =>
+              onChange({
+                ...value,
+                orientation: orientation as PdfOrientation,
+              })
+            }
+          >
+            <SelectTrigger className="w-full" size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ORIENTATION_LABELS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-muted-foreground mb-1 block text-[11px]">
+            Columns
+          </Label>
+          <Select
+            value={String(value.columns ?? PDF_DEFAULTS.columns)}
+            onValueChange={(columns) =>
+              onChange({ ...value, columns: Number(columns) })
+            }
+          >
+            <SelectTrigger className="w-full" size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[1, 2, 3].map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  {n}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-muted-foreground mb-1 block text-[11px]">
+            Font size (pt)
+          </Label>
+          <Input
+            type="number"
+            min={PDF_FONT_SIZE_RANGE.min}
+            max={PDF_FONT_SIZE_RANGE.max}
+            step={0.5}
+            value={value.fontSize ?? PDF_DEFAULTS.fontSize}
+            onChange={(e) => handleFontSizeChange(e.target.value)}
+            className="h-7 text-xs"
+          />
+        </div>
+      </div>
+
+      {TOGGLES.map(({ key, label, description }) => (
+        <div key={key} className="flex items-center justify-between gap-3">
+          <div className="flex flex-col">
+            <Label className="text-foreground text-[12px]">{label}</Label>
+            <span className="text-text-muted text-[11px]">{description}</span>
+          </div>
+          <Switch
+            size="sm"
+            checked={value[key] ?? PDF_DEFAULTS[key]}
+            onCheckedChange={(checked) =>
+              onChange({ ...value, [key]: checked })
+            }
+          />
+        </div>
+      ))}
+
+      {(value.headerFooter ?? PDF_DEFAULTS.headerFooter) && (
+        <div>
+          <Label className="text-muted-foreground mb-1 block text-[11px]">
+            Revision
+          </Label>
+          <Input
+            value={value.revision ?? ""}
+            placeholder="e.g. Rev 3 — Oct 2026"
+            onChange={(e) => onChange({ ...value, revision: e.target.value })}
+            className="h-7 text-xs"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,24 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useChecklistStore } from "@/stores";
+import { cn } from "@/utils/tailwind";
+import {
+  LiveDataChip,
+  LiveDataPicker,
+} from "@/components/editor/live-data-picker";
+import {
+  findLiveDataTokens,
+  getLiveDataToken,
+} from "@/ipc/formats/garmin-pilot/live-data";
+import {
+  GP_ACTION_NEXT_CHECKLIST,
+  GP_COMPLETION_ACTIONS,
+  GP_NORMAL_SUBTYPES,
+  GP_TYPE_NORMAL,
+  checklistGroupKey,
+  isGarminGroup,
+} from "@/ipc/formats/garmin-pilot/utils";
+import type { EfisGroupKey } from "@/ipc/formats/garmin-pilot/utils";
 import {
   ChecklistItemType,
   ChecklistFormat,
@@ -22,6 +40,7 @@ import type {
   ChecklistGroup,
   Checklist,
   ChecklistItem,
+  GarminPilotChecklistExtension,
 } from "@/types/checklist";
 
 // ---------------------------------------------------------------------------
@@ -35,6 +54,8 @@ const ITEM_TYPE_LABELS: Record<ChecklistItemType, string> = {
   [ChecklistItemType.Note]: "Note",
   [ChecklistItemType.Warning]: "Warning",
   [ChecklistItemType.Caution]: "Caution",
+  [ChecklistItemType.PlainText]: "Plain Text",
+  [ChecklistItemType.Space]: "Space",
 };
 
 const GROUP_CATEGORY_LABELS: Record<ChecklistGroupCategory, string> = {
@@ -61,6 +82,7 @@ const FORMAT_COMPATIBILITY: {
   { format: "Garmin Pilot", key: ChecklistFormat.Gplt },
   { format: "GRT", key: ChecklistFormat.Grt },
   { format: "PDF", key: ChecklistFormat.Pdf },
+  { format: "HTML", key: ChecklistFormat.Html },
 ];
 
 /**
@@ -73,6 +95,9 @@ const FORMAT_COMPATIBILITY: {
  * - Garmin ACE: full support (no empty groups/checklists, but that's file-level)
  * - Garmin Pilot: full item support (group limitations are file-level)
  * - PDF: full support (export/display only)
+ * - HTML: full support (export/display only)
+ *
+ * Live data tokens only mean something to Garmin Pilot.
  */
 function getFormatSupport(item: ChecklistItem): Set<ChecklistFormat> {
   const allFormats = new Set<ChecklistFormat>([
@@ -82,6 +107,7 @@ function getFormatSupport(item: ChecklistItem): Set<ChecklistFormat> {
     ChecklistFormat.Gplt,
     ChecklistFormat.Grt,
     ChecklistFormat.Pdf,
+    ChecklistFormat.Html,
   ]);
 
   // ForeFlight does not support nested/indented items
@@ -94,6 +120,22 @@ function getFormatSupport(item: ChecklistItem): Set<ChecklistFormat> {
     allFormats.delete(ChecklistFormat.ForeFlight);
   }
 
+  // Only ACE and PDF have plain text; the others write a note or a check item
+  if (item.type === ChecklistItemType.PlainText) {
+    allFormats.delete(ChecklistFormat.AfsDynon);
+    allFormats.delete(ChecklistFormat.ForeFlight);
+    allFormats.delete(ChecklistFormat.Gplt);
+    allFormats.delete(ChecklistFormat.Grt);
+  }
+
+  if (
+    findLiveDataTokens(`${item.challengeText}\n${item.responseText}`).length
+  ) {
+    for (const format of allFormats) {
+      if (format !== ChecklistFormat.Gplt) allFormats.delete(format);
+    }
+  }
+
   return allFormats;
 }
 
@@ -124,6 +166,17 @@ function findActiveItem(
   return checklist.items.find((i) => i.id === itemId);
 }
 
+/** The value every item has for `key`, or undefined when they differ */
+function sharedValue<K extends keyof ChecklistItem>(
+  items: ChecklistItem[],
+  key: K,
+): ChecklistItem[K] | undefined {
+  const [first, ...rest] = items;
+  return first && rest.every((item) => item[key] === first[key])
+    ? first[key]
+    : undefined;
+}
+
 // ---------------------------------------------------------------------------
 // Section Components
 // ---------------------------------------------------------------------------
@@ -136,6 +189,64 @@ function SectionHeader({ children }: { children: React.ReactNode }) {
   );
 }
 
+/** Item type picker; an undefined value shows as mixed */
+function ItemTypeSelect({
+  value,
+  onChange,
+}: {
+  value?: ChecklistItemType;
+  onChange: (type: ChecklistItemType) => void;
+}) {
+  return (
+    <div className="mb-3">
+      <Label className="text-muted-foreground mb-1 block text-[11px]">
+        Type
+      </Label>
+      <Select value={value ?? ""} onValueChange={onChange}>
+        <SelectTrigger className="w-full" size="sm">
+          <SelectValue placeholder="Mixed" />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(ITEM_TYPE_LABELS).map(([type, label]) => (
+            <SelectItem key={type} value={type}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+/** A labelled switch; an undefined value shows as mixed */
+function ToggleRow({
+  label,
+  checked,
+  onChange,
+  className,
+}: {
+  label: string;
+  checked?: boolean;
+  onChange: (checked: boolean) => void;
+  className?: string;
+}) {
+  return (
+    <div className={cn("flex items-center justify-between", className)}>
+      <Label className="text-muted-foreground text-[11px]">{label}</Label>
+      <div className="flex items-center gap-1.5">
+        {checked === undefined && (
+          <span className="text-text-muted text-[10px]">Mixed</span>
+        )}
+        <Switch
+          size="sm"
+          checked={checked ?? false}
+          onCheckedChange={onChange}
+        />
+      </div>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Selected Item Section
 // ---------------------------------------------------------------------------
@@ -154,50 +265,38 @@ function SelectedItemSection({
   onResponseChange,
 }: SelectedItemSectionProps) {
   const hasResponse = item.type === ChecklistItemType.ChallengeResponse;
+  const liveData = getLiveDataToken(item.responseText);
 
   return (
     <div className="border-border border-b px-3.5 py-3">
       <SectionHeader>Selected Item</SectionHeader>
 
-      {/* Type selector */}
-      <div className="mb-3">
-        <Label className="text-muted-foreground mb-1 block text-[11px]">
-          Type
-        </Label>
-        <Select value={item.type} onValueChange={onTypeChange}>
-          <SelectTrigger className="w-full" size="sm">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            {Object.entries(ITEM_TYPE_LABELS).map(([value, label]) => (
-              <SelectItem key={value} value={value}>
-                {label}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-      </div>
+      <ItemTypeSelect value={item.type} onChange={onTypeChange} />
 
-      {/* Challenge text */}
-      <div className="mb-3">
-        <Label className="text-muted-foreground mb-1 block text-[11px]">
-          {item.type === ChecklistItemType.Title
-            ? "Section Title"
-            : item.type === ChecklistItemType.Note
-              ? "Note Text"
-              : item.type === ChecklistItemType.Warning
-                ? "Warning Text"
-                : item.type === ChecklistItemType.Caution
-                  ? "Caution Text"
-                  : "Challenge Text"}
-        </Label>
-        <Input
-          value={item.challengeText}
-          onChange={(e) => onChallengeChange(e.target.value)}
-          placeholder="Enter text..."
-          className="text-xs"
-        />
-      </div>
+      {/* Challenge text (a space has none) */}
+      {item.type !== ChecklistItemType.Space && (
+        <div className="mb-3">
+          <Label className="text-muted-foreground mb-1 block text-[11px]">
+            {item.type === ChecklistItemType.Title
+              ? "Section Title"
+              : item.type === ChecklistItemType.Note
+                ? "Note Text"
+                : item.type === ChecklistItemType.Warning
+                  ? "Warning Text"
+                  : item.type === ChecklistItemType.Caution
+                    ? "Caution Text"
+                    : item.type === ChecklistItemType.PlainText
+                      ? "Text"
+                      : "Challenge Text"}
+          </Label>
+          <Input
+            value={item.challengeText}
+            onChange={(e) => onChallengeChange(e.target.value)}
+            placeholder="Enter text..."
+            className="text-xs"
+          />
+        </div>
+      )}
 
       {/* Response text (only for Challenge/Response) */}
       {hasResponse && (
@@ -205,31 +304,78 @@ function SelectedItemSection({
           <Label className="text-muted-foreground mb-1 block text-[11px]">
             Response Text
           </Label>
-          <Input
-            value={item.responseText}
-            onChange={(e) => onResponseChange(e.target.value)}
-            placeholder="Enter response..."
-            className="text-xs"
-          />
+          <div className="flex items-center gap-1">
+            <Input
+              value={item.responseText}
+              onChange={(e) => onResponseChange(e.target.value)}
+              placeholder="Enter response..."
+              className="text-xs"
+            />
+            <LiveDataPicker
+              value={liveData}
+              onSelect={(token) => onResponseChange(token.token)}
+            />
+          </div>
+          {liveData && (
+            <div className="text-text-muted mt-1.5 flex items-center gap-1.5 text-[11px]">
+              <LiveDataChip token={liveData} />
+              <span className="truncate">{liveData.label}</span>
+            </div>
+          )}
         </div>
       )}
     </div>
   );
 }
 
+// ---------------------------------------------------------------------------
+// Selected Items Section
+// ---------------------------------------------------------------------------
+
+interface SelectedItemsSectionProps {
+  count: number;
+  /** Type shared by every selected item, if they all have the same one */
+  type?: ChecklistItemType;
+  onTypeChange: (type: ChecklistItemType) => void;
+}
+
+function SelectedItemsSection({
+  count,
+  type,
+  onTypeChange,
+}: SelectedItemsSectionProps) {
+  return (
+    <div className="border-border border-b px-3.5 py-3">
+      <SectionHeader>{count} Items Selected</SectionHeader>
+
+      <ItemTypeSelect value={type} onChange={onTypeChange} />
+
+      <span className="text-text-muted block text-[11px]">
+        Changes apply to every selected item. Select a single item to edit its
+        text.
+      </span>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Formatting Section
 // ---------------------------------------------------------------------------
 
 interface FormattingSectionProps {
-  item: ChecklistItem;
+  /** Values shared by the edited items; undefined where they differ */
+  indent?: number;
+  centered?: boolean;
+  collapsible?: boolean;
   onIndentChange: (indent: string) => void;
   onCenteredChange: (centered: boolean) => void;
   onCollapsibleChange: (collapsible: boolean) => void;
 }
 
 function FormattingSection({
-  item,
+  indent,
+  centered,
+  collapsible,
   onIndentChange,
   onCenteredChange,
   onCollapsibleChange,
@@ -243,9 +389,12 @@ function FormattingSection({
         <Label className="text-muted-foreground mb-1 block text-[11px]">
           Indent Level
         </Label>
-        <Select value={String(item.indent)} onValueChange={onIndentChange}>
+        <Select
+          value={indent === undefined ? "" : String(indent)}
+          onValueChange={onIndentChange}
+        >
           <SelectTrigger className="w-full" size="sm">
-            <SelectValue />
+            <SelectValue placeholder="Mixed" />
           </SelectTrigger>
           <SelectContent>
             {Object.entries(INDENT_LABELS).map(([value, label]) => (
@@ -257,25 +406,17 @@ function FormattingSection({
         </Select>
       </div>
 
-      {/* Centered toggle */}
-      <div className="mb-3 flex items-center justify-between">
-        <Label className="text-muted-foreground text-[11px]">Centered</Label>
-        <Switch
-          size="sm"
-          checked={item.centered}
-          onCheckedChange={onCenteredChange}
-        />
-      </div>
-
-      {/* Collapsible toggle */}
-      <div className="flex items-center justify-between">
-        <Label className="text-muted-foreground text-[11px]">Collapsible</Label>
-        <Switch
-          size="sm"
-          checked={item.collapsible}
-          onCheckedChange={onCollapsibleChange}
-        />
-      </div>
+      <ToggleRow
+        label="Centered"
+        checked={centered}
+        onChange={onCenteredChange}
+        className="mb-3"
+      />
+      <ToggleRow
+        label="Collapsible"
+        checked={collapsible}
+        onChange={onCollapsibleChange}
+      />
     </div>
   );
 }
@@ -285,11 +426,17 @@ function FormattingSection({
 // ---------------------------------------------------------------------------
 
 interface FormatCompatibilitySectionProps {
-  item: ChecklistItem;
+  items: ChecklistItem[];
 }
 
-function FormatCompatibilitySection({ item }: FormatCompatibilitySectionProps) {
-  const supported = useMemo(() => getFormatSupport(item), [item]);
+/** Formats that support every one of `items` */
+function FormatCompatibilitySection({
+  items,
+}: FormatCompatibilitySectionProps) {
+  const supported = useMemo(() => {
+    const [first, ...rest] = items.map(getFormatSupport);
+    return new Set([...first].filter((f) => rest.every((s) => s.has(f))));
+  }, [items]);
 
   return (
     <div className="border-border border-b px-3.5 py-3">
@@ -355,6 +502,112 @@ function GroupInfoSection({ group, onCategoryChange }: GroupInfoSectionProps) {
   );
 }
 
+// ---------------------------------------------------------------------------
+// Garmin Pilot Section
+// ---------------------------------------------------------------------------
+
+interface GarminPilotSectionProps {
+  group: ChecklistGroup;
+  checklist: Checklist;
+  onChange: (extension: GarminPilotChecklistExtension) => void;
+}
+
+/** Options for a Select, with an entry for a stored value the editor doesn't know */
+function withUnknownValue(
+  options: [number, string][],
+  value: number,
+): [number, string][] {
+  return options.some(([v]) => v === value)
+    ? options
+    : [...options, [value, `Other (${value})`]];
+}
+
+function GarminPilotSection({
+  group,
+  checklist,
+  onChange,
+}: GarminPilotSectionProps) {
+  const extension = checklist.extensions?.[ChecklistFormat.Gplt] ?? {};
+  const groupKey: EfisGroupKey = [group.category, group.name];
+  const [type, subtype] = checklistGroupKey(groupKey, extension);
+  const completionItem = extension.completionItem ?? GP_ACTION_NEXT_CHECKLIST;
+  const isNormal = type === GP_TYPE_NORMAL;
+  // Garmin Pilot's own groups fix the phase; move the checklist to change it
+  const phaseFromGroup = isGarminGroup(groupKey);
+
+  return (
+    <div className="border-border border-b px-3.5 py-3">
+      <SectionHeader>Garmin Pilot</SectionHeader>
+
+      <div className="mb-3">
+        <Label className="text-muted-foreground mb-1 block text-[11px]">
+          When Completed
+        </Label>
+        <Select
+          value={String(completionItem)}
+          onValueChange={(value) =>
+            onChange({ ...extension, completionItem: Number(value) })
+          }
+        >
+          <SelectTrigger className="w-full" size="sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {withUnknownValue(GP_COMPLETION_ACTIONS, completionItem).map(
+              ([value, label]) => (
+                <SelectItem key={value} value={String(value)}>
+                  {label}
+                </SelectItem>
+              ),
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label className="text-muted-foreground mb-1 block text-[11px]">
+          Phase of Flight
+        </Label>
+        <Select
+          value={String(subtype)}
+          disabled={!isNormal || phaseFromGroup}
+          onValueChange={(value) =>
+            onChange({ ...extension, subtype: Number(value) })
+          }
+        >
+          <SelectTrigger className="w-full" size="sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {isNormal ? (
+              GP_NORMAL_SUBTYPES.map(([value, label]) => (
+                <SelectItem key={value} value={String(value)}>
+                  {label}
+                </SelectItem>
+              ))
+            ) : (
+              <SelectItem value={String(subtype)}>
+                {GROUP_CATEGORY_LABELS[group.category]}
+              </SelectItem>
+            )}
+          </SelectContent>
+        </Select>
+        {!isNormal ? (
+          <span className="text-text-muted mt-1 block text-[11px]">
+            Only normal checklists have a phase of flight
+          </span>
+        ) : (
+          phaseFromGroup && (
+            <span className="text-text-muted mt-1 block text-[11px]">
+              Set by the {group.name} group
+            </span>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // PropertiesPanel
 // ---------------------------------------------------------------------------
@@ -364,8 +617,13 @@ export function PropertiesPanel() {
   const activeFileId = useChecklistStore((s) => s.activeFileId);
   const activeChecklistId = useChecklistStore((s) => s.activeChecklistId);
   const activeItemId = useChecklistStore((s) => s.activeItemId);
+  const selectedItemIds = useChecklistStore((s) => s.selectedItemIds);
   const updateItem = useChecklistStore((s) => s.updateItem);
+  const updateSelectedItems = useChecklistStore((s) => s.updateSelectedItems);
   const updateGroupCategory = useChecklistStore((s) => s.updateGroupCategory);
+  const updateChecklistExtensions = useChecklistStore(
+    (s) => s.updateChecklistExtensions,
+  );
 
   // Derive active data
   const activeFile = activeFileId ? files[activeFileId] : null;
@@ -385,6 +643,15 @@ export function PropertiesPanel() {
     return findActiveItem(activeChecklist, activeItemId) ?? null;
   }, [activeChecklist, activeItemId]);
 
+  // With more than one item selected, type and formatting edit them all
+  const editedItems = useMemo(() => {
+    const selected =
+      activeChecklist?.items.filter((i) => selectedItemIds.has(i.id)) ?? [];
+    if (selected.length > 1) return selected;
+    return activeItem ? [activeItem] : [];
+  }, [activeChecklist, selectedItemIds, activeItem]);
+  const isBatch = editedItems.length > 1;
+
   // Item update helper
   const handleUpdateItem = useCallback(
     (changes: Partial<Omit<ChecklistItem, "id">>) => {
@@ -401,6 +668,31 @@ export function PropertiesPanel() {
     [activeFileId, activeGroup, activeChecklistId, activeItemId, updateItem],
   );
 
+  // Type and formatting changes go to the whole selection in one undo step
+  const handleUpdateEdited = useCallback(
+    (changes: Partial<Omit<ChecklistItem, "id">>) => {
+      if (!isBatch) {
+        handleUpdateItem(changes);
+        return;
+      }
+      if (!activeFileId || !activeGroup || !activeChecklistId) return;
+      updateSelectedItems(
+        activeFileId,
+        activeGroup.id,
+        activeChecklistId,
+        changes,
+      );
+    },
+    [
+      isBatch,
+      handleUpdateItem,
+      activeFileId,
+      activeGroup,
+      activeChecklistId,
+      updateSelectedItems,
+    ],
+  );
+
   // Item field handlers
   const handleTypeChange = useCallback(
     (type: ChecklistItemType) => {
@@ -409,9 +701,9 @@ export function PropertiesPanel() {
       if (type !== ChecklistItemType.ChallengeResponse) {
         changes.responseText = "";
       }
-      handleUpdateItem(changes);
+      handleUpdateEdited(changes);
     },
-    [handleUpdateItem],
+    [handleUpdateEdited],
   );
 
   const handleChallengeChange = useCallback(
@@ -426,18 +718,18 @@ export function PropertiesPanel() {
 
   const handleIndentChange = useCallback(
     (value: string) =>
-      handleUpdateItem({ indent: Number(value) as 0 | 1 | 2 | 3 }),
-    [handleUpdateItem],
+      handleUpdateEdited({ indent: Number(value) as 0 | 1 | 2 | 3 }),
+    [handleUpdateEdited],
   );
 
   const handleCenteredChange = useCallback(
-    (centered: boolean) => handleUpdateItem({ centered }),
-    [handleUpdateItem],
+    (centered: boolean) => handleUpdateEdited({ centered }),
+    [handleUpdateEdited],
   );
 
   const handleCollapsibleChange = useCallback(
-    (collapsible: boolean) => handleUpdateItem({ collapsible }),
-    [handleUpdateItem],
+    (collapsible: boolean) => handleUpdateEdited({ collapsible }),
+    [handleUpdateEdited],
   );
 
   const handleCategoryChange = useCallback(
@@ -448,6 +740,19 @@ export function PropertiesPanel() {
     [activeFileId, activeGroup, updateGroupCategory],
   );
 
+  const handleGarminPilotChange = useCallback(
+    (extension: GarminPilotChecklistExtension) => {
+      if (!activeFileId || !activeGroup || !activeChecklistId) return;
+      updateChecklistExtensions(
+        activeFileId,
+        activeGroup.id,
+        activeChecklistId,
+        { [ChecklistFormat.Gplt]: extension },
+      );
+    },
+    [activeFileId, activeGroup, activeChecklistId, updateChecklistExtensions],
+  );
+
   return (
     <div className="border-border bg-bg-surface flex min-h-0 w-70 shrink-0 flex-col border-l">
       {/* Header */}
@@ -459,21 +764,31 @@ export function PropertiesPanel() {
 
       {/* Content */}
       <ScrollArea className="min-h-0 flex-1">
-        {activeItem ? (
+        {editedItems.length > 0 ? (
           <>
-            <SelectedItemSection
-              item={activeItem}
-              onTypeChange={handleTypeChange}
-              onChallengeChange={handleChallengeChange}
-              onResponseChange={handleResponseChange}
-            />
+            {isBatch ? (
+              <SelectedItemsSection
+                count={editedItems.length}
+                type={sharedValue(editedItems, "type")}
+                onTypeChange={handleTypeChange}
+              />
+            ) : (
+              <SelectedItemSection
+                item={editedItems[0]}
+                onTypeChange={handleTypeChange}
+                onChallengeChange={handleChallengeChange}
+                onResponseChange={handleResponseChange}
+              />
+            )}
             <FormattingSection
-              item={activeItem}
+              indent={sharedValue(editedItems, "indent")}
+              centered={sharedValue(editedItems, "centered")}
+              collapsible={sharedValue(editedItems, "collapsible")}
               onIndentChange={handleIndentChange}
               onCenteredChange={handleCenteredChange}
               onCollapsibleChange={handleCollapsibleChange}
             />
-            <FormatCompatibilitySection item={activeItem} />
+            <FormatCompatibilitySection items={editedItems} />
           </>
         ) : (
           <div className="text-text-muted px-3.5 py-6 text-center text-xs">
@@ -486,6 +801,13 @@ export function PropertiesPanel() {
             onCategoryChange={handleCategoryChange}
           />
         )}
+        {activeGroup && activeChecklist && (
+          <GarminPilotSection
+            group={activeGroup}
+            checklist={activeChecklist}
+            onChange={handleGarminPilotChange}
+          />
+        )}
       </ScrollArea>
     </div>
   );
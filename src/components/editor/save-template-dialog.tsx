@@ -0,0 +1,112 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useChecklistStore } from "@/stores";
+import { saveTemplate } from "@/actions/templates";
+import { findPlaceholders } from "@/utils/template-placeholders";
+import { toast } from "sonner";
+
+interface SaveTemplateDialogProps {
+  fileId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SaveTemplateDialog({
+  fileId,
+  open,
+  onOpenChange,
+}: SaveTemplateDialogProps) {
+  const file = useChecklistStore((s) => s.files[fileId]);
+
+  const [name, setName] = useState(file?.name ?? "");
+  const [description, setDescription] = useState(
+    file?.metadata.makeModel ?? "",
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!file) return null;
+
+  const placeholders = findPlaceholders(file);
+
+  async function handleSave() {
+    if (!file || !name.trim()) return;
+    try {
+      setIsSaving(true);
+      await saveTemplate(file, name.trim(), description.trim());
+      toast.success("Template saved", {
+        description: `"${name.trim()}" is now in the New File gallery`,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      toast.error("Failed to save template", {
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-110">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Write {"{{NAME}}"} anywhere in the file, e.g. {"{{VR}}"} or{" "}
+            {"{{TAIL}}"}, to ask for a value when a file is created from the
+            template.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div>
+            <Label className="text-muted-foreground mb-1 block text-[11px]">
+              Template name
+            </Label>
+            <Input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="h-7 text-xs"
+            />
+          </div>
+          <div>
+            <Label className="text-muted-foreground mb-1 block text-[11px]">
+              Description
+            </Label>
+            <Input
+              value={description}
+              placeholder="e.g. aircraft type"
+              onChange={(e) => setDescription(e.target.value)}
+              className="h-7 text-xs"
+            />
+          </div>
+          <p className="text-text-muted text-[11px]">
+            {placeholders.length > 0
+              ? `Fields: ${placeholders.join(", ")}`
+              : "No placeholders found — files made from this template start as an exact copy."}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={isSaving || !name.trim()} onClick={handleSave}>
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
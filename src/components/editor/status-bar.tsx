@@ -2,6 +2,10 @@ import { useEffect, useState } from "react";
 import { Keyboard } from "lucide-react";
 import { useChecklistStore } from "@/stores";
 import { getAppVersion } from "@/actions/app";
+import {
+  reexportWithToast,
+  useExportProfiles,
+} from "@/hooks/use-export-profiles";
 
 interface StatusBarProps {
   onShowShortcuts?: () => void;
@@ -14,6 +18,7 @@ export function StatusBar({ onShowShortcuts }: StatusBarProps) {
   const files = useChecklistStore((s) => s.files);
   const activeChecklistId = useChecklistStore((s) => s.activeChecklistId);
   const activeItemId = useChecklistStore((s) => s.activeItemId);
+  const { profiles, staleProfiles } = useExportProfiles(activeFileId);
 
   // Get version on mount
   useEffect(() => {
@@ -55,6 +60,32 @@ export function StatusBar({ onShowShortcuts }: StatusBarProps) {
               />
               {activeFile.dirty ? "Unsaved" : "Saved"}
             </span>
+            {profiles.length > 0 && (
+              <button
+                type="button"
+                onClick={() =>
+                  reexportWithToast(
+                    activeFile.id,
+                    staleProfiles.map((p) => p.id),
+                  )
+                }
+                disabled={staleProfiles.length === 0}
+                title={
+                  staleProfiles.length > 0
+                    ? "Re-export out-of-date targets"
+                    : undefined
+                }
+                className={
+                  staleProfiles.length > 0
+                    ? "text-efis-yellow hover:text-muted-foreground transition-colors duration-150"
+                    : undefined
+                }
+              >
+                {staleProfiles.length > 0
+                  ? `${staleProfiles.length} of ${profiles.length} ${profiles.length === 1 ? "export" : "exports"} out of date`
+                  : "Exports up to date"}
+              </button>
+            )}
             {activeChecklist && (
               <>
                 <span>
@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { FilePlus, LayoutTemplate, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/utils/tailwind";
+import { useChecklistStore } from "@/stores";
+import {
+  deleteTemplate,
+  getTemplates,
+  loadTemplate,
+} from "@/actions/templates";
+import {
+  instantiateTemplate,
+  placeholderLabel,
+} from "@/utils/template-placeholders";
+import { toast } from "sonner";
+import type { TemplateEntry } from "@/ipc/templates/types";
+
+interface TemplateGalleryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Create an empty file instead of one from a template */
+  onCreateBlank: () => void;
+}
+
+/** Selection id for the empty-file option */
+const BLANK = "blank";
+
+// ---------------------------------------------------------------------------
+// TemplateGalleryDialog
+// ---------------------------------------------------------------------------
+
+export function TemplateGalleryDialog({
+  open,
+  onOpenChange,
+  onCreateBlank,
+}: TemplateGalleryDialogProps) {
+  const addFile = useChecklistStore((s) => s.addFile);
+
+  const [entries, setEntries] = useState<TemplateEntry[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string>(BLANK);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    getTemplates()
+      .then(setEntries)
+      .catch((err) => {
+        setEntries([]);
+        toast.error("Failed to load templates", {
+          description: err instanceof Error ? err.message : "Unknown error",
+        });
+      });
+  }, [open]);
+
+  const selected = entries?.find((e) => e.id === selectedId) ?? null;
+  const bundled = entries?.filter((e) => e.source === "bundled") ?? [];
+  const saved = entries?.filter((e) => e.source === "user") ?? [];
+
+  function handleSelect(id: string) {
+    setSelectedId(id);
+    setValues({});
+  }
+
+  async function handleCreate() {
+    if (!selected) {
+      onCreateBlank();
+      onOpenChange(false);
+      return;
+    }
+
+    try {
+      setIsCreating(true);
+      const template = await loadTemplate(selected.id);
+      const file = instantiateTemplate(template, values);
+      addFile(file);
+      toast.success("File created", {
+        description: `${file.name} from "${selected.name}"`,
+      });
+      onOpenChange(false);
+    } catch (err) {
+      toast.error("Failed to create file", {
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  }
+
+  async function handleDelete(entry: TemplateEntry) {
+    try {
+      await deleteTemplate(entry.id);
+      setEntries((prev) => prev?.filter((e) => e.id !== entry.id) ?? null);
+      if (selectedId === entry.id) handleSelect(BLANK);
+      toast.success(`Deleted template "${entry.name}"`);
+    } catch (err) {
+      toast.error("Failed to delete template", {
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[70vh] flex-col sm:max-w-200">
+        <DialogHeader>
+          <DialogTitle>New File</DialogTitle>
+          <DialogDescription>
+            Start empty or from a template. Save any open file as a template
+            from its context menu.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex min-h-0 flex-1 gap-3">
+          {/* Template list */}
+          <ScrollArea className="border-border w-64 shrink-0 border-r">
+            <div className="flex flex-col gap-0.5 pr-3">
+              <TemplateButton
+                isSelected={selectedId === BLANK}
+                onClick={() => handleSelect(BLANK)}
+                icon={<FilePlus className="size-3.5" />}
+                name="Blank file"
+                detail="One empty checklist"
+              />
+
+              {entries === null && (
+                <span className="text-text-muted px-2 py-4 text-xs">
+                  Loading&hellip;
+                </span>
+              )}
+
+              {bundled.length > 0 && <SectionLabel>Bundled</SectionLabel>}
+              {bundled.map((entry) => (
+                <TemplateButton
+                  key={entry.id}
+                  isSelected={selectedId === entry.id}
+                  onClick={() => handleSelect(entry.id)}
+                  icon={<LayoutTemplate className="size-3.5" />}
+                  name={entry.name}
+                  detail={entry.description}
+                />
+              ))}
+
+              {saved.length > 0 && <SectionLabel>My Templates</SectionLabel>}
+              {saved.map((entry) => (
+                <TemplateButton
+                  key={entry.id}
+                  isSelected={selectedId === entry.id}
+                  onClick={() => handleSelect(entry.id)}
+                  icon={<LayoutTemplate className="size-3.5" />}
+                  name={entry.name}
+                  detail={entry.description}
+                  onDelete={() => handleDelete(entry)}
+                />
+              ))}
+            </div>
+          </ScrollArea>
+
+          {/* Details and placeholder form */}
+          <ScrollArea className="min-w-0 flex-1">
+            {selected ? (
+              <div className="flex flex-col gap-3 pr-3">
+                <div className="flex flex-col gap-0.5">
+                  <span className="text-foreground text-[13px] font-semibold">
+                    {selected.name}
+                  </span>
+                  <span className="text-text-muted text-[11px]">
+                    {selected.groups} groups · {selected.checklists} checklists
+                  </span>
+                </div>
+
+                {selected.placeholders.length > 0 ? (
+                  <div className="grid grid-cols-2 gap-3">
+                    {selected.placeholders.map((name) => (
+                      <div key={name}>
+                        <Label className="text-muted-foreground mb-1 block text-[11px]">
+                          {placeholderLabel(name)}
+                        </Label>
+                        <Input
+                          value={values[name] ?? ""}
+                          placeholder={`{{${name}}}`}
+                          onChange={(e) =>
+                            setValues({ ...values, [name]: e.target.value })
+                          }
+                          className="h-7 text-xs"
+                        />
+                      </div>
+                    ))}
+                    <span className="text-text-muted col-span-2 text-[11px]">
+                      Fields left blank stay as placeholders in the new file,
+                      with empty values in its variables table.
+                    </span>
+                  </div>
+                ) : (
+                  <span className="text-text-muted text-[11px]">
+                    This template has no fields to fill in.
+                  </span>
+                )}
+              </div>
+            ) : (
+              <div className="text-text-muted flex h-full flex-col items-center justify-center gap-2 text-xs">
+                <FilePlus className="size-5" />
+                An empty file with one checklist
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button disabled={isCreating} onClick={handleCreate}>
+            Create
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// List rows
+// ---------------------------------------------------------------------------
+
+function SectionLabel({ children }: { children: React.ReactNode }) {
+  return (
+    <span className="text-text-muted mt-2 px-2 text-[10px] font-semibold tracking-wide uppercase">
+      {children}
+    </span>
+  );
+}
+
+interface TemplateButtonProps {
+  isSelected: boolean;
+  onClick: () => void;
+  icon: React.ReactNode;
+  name: string;
+  detail: string;
+  onDelete?: () => void;
+}
+
+function TemplateButton({
+  isSelected,
+  onClick,
+  icon,
+  name,
+  detail,
+  onDelete,
+}: TemplateButtonProps) {
+  return (
+    <div
+      className={cn(
+        "group flex items-center gap-1 rounded transition-colors duration-150",
+        isSelected ? "bg-bg-active" : "hover:bg-bg-hover",
+      )}
+    >
+      <button
+        type="button"
+        onClick={onClick}
+        className="flex min-w-0 flex-1 items-start gap-2 px-2 py-1.5 text-left"
+      >
+        <span className="text-text-muted mt-0.5">{icon}</span>
+        <span className="flex min-w-0 flex-col">
+          <span className="text-foreground truncate text-[12px]">{name}</span>
+          {detail && (
+            <span className="text-text-muted truncate text-[11px]">
+              {detail}
+            </span>
+          )}
+        </span>
+      </button>
+      {onDelete && (
+        <Button
+          size="icon-xs"
+          variant="ghost"
+          title="Delete template"
+          className="mr-1 opacity-0 group-hover:opacity-100"
+          onClick={onDelete}
+        >
+          <Trash2 />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { DYNON_OPTIONS } from "@/ipc/formats/text/dynon";
+import { GRT_OPTIONS } from "@/ipc/formats/text/grt";
+import { getTextExportDefaults } from "@/ipc/formats/text/options";
+import { ChecklistFormat } from "@/types/checklist";
+import type { ExportOptions } from "@/types/checklist";
+
+/** Text formats whose writer settings can be overridden, with their defaults */
+export const TEXT_EXPORT_DEFAULTS: Partial<
+  Record<ChecklistFormat, ExportOptions>
+> = {
+  [ChecklistFormat.AfsDynon]: getTextExportDefaults(DYNON_OPTIONS),
+  [ChecklistFormat.Grt]: getTextExportDefaults(GRT_OPTIONS),
+};
+
+type ToggleKey =
+  | "allUppercase"
+  | "outputMetadata"
+  | "checklistTopBlankLine"
+  | "skipFirstGroup";
+
+const TOGGLES: { key: ToggleKey; label: string; description: string }[] = [
+  {
+    key: "allUppercase",
+    label: "All uppercase",
+    description: "Convert all text to uppercase",
+  },
+  {
+    key: "outputMetadata",
+    label: "Checklist info",
+    description: "Add a checklist with the file metadata",
+  },
+  {
+    key: "checklistTopBlankLine",
+    label: "Blank first line",
+    description: "Start each checklist with an empty line",
+  },
+  {
+    key: "skipFirstGroup",
+    label: "Omit first group name",
+    description: "Leave the first group's checklists unprefixed",
+  },
+];
+
+interface TextExportOptionsFormProps {
+  value: ExportOptions;
+  onChange: (value: ExportOptions) => void;
+}
+
+export function TextExportOptionsForm({
+  value,
+  onChange,
+}: TextExportOptionsFormProps) {
+  function handleNumberChange(
+    key: "maxLineLength" | "indentWidth",
+    text: string,
+  ) {
+    const parsed = Math.max(0, Number.parseInt(text, 10) || 0);
+    onChange({
+      ...value,
+      [key]: key === "indentWidth" ? Math.min(parsed, 8) : parsed,
+    });
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-muted-foreground mb-1 block text-[11px]">
+            Wrap width
+          </Label>
+          <Input
+            type="number"
+            min={0}
+            value={value.maxLineLength || ""}
+            placeholder="No wrapping"
+            onChange={(e) =>
+              handleNumberChange("maxLineLength", e.target.value)
+            }
+            className="h-7 text-xs"
+          />
+        </div>
+        <div>
+          <Label className="text-muted-foreground mb-1 block text-[11px]">
+            Spaces per indent
+          </Label>
+          <Input
+            type="number"
+            min={0}
+            max={8}
+            value={value.indentWidth ?? 0}
+            onChange={(e) => handleNumberChange("indentWidth", e.target.value)}
+            className="h-7 text-xs"
+          />
+        </div>
+      </div>
+
+      {TOGGLES.map(({ key, label, description }) => (
+        <div key={key} className="flex items-center justify-between gap-3">
+          <div className="flex flex-col">
+            <Label className="text-foreground text-[12px]">{label}</Label>
+            <span className="text-text-muted text-[11px]">{description}</span>
+          </div>
+          <Switch
+            size="sm"
+            checked={value[key] ?? false}
+            onCheckedChange={(checked) =>
+              onChange({ ...value, [key]: checked })
+            }
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
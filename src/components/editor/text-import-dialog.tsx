@@ -0,0 +1,388 @@
+import { useMemo, useRef, useState } from "react";
+import { FileText } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TypeIndicator } from "@/components/editor/type-indicator";
+import { GroupIcon } from "@/components/editor/group-icon";
+import { useChecklistStore } from "@/stores";
+import { cn } from "@/utils/tailwind";
+import {
+  DEFAULT_TEXT_IMPORT_RULES,
+  lineText,
+  parseTextLines,
+  textLinesToChecklists,
+} from "@/utils/text-import";
+import type {
+  TextImportLine,
+  TextImportRules,
+  TextLineRole,
+} from "@/utils/text-import";
+import { ChecklistItemType } from "@/types/checklist";
+import type { ChecklistFile } from "@/types/checklist";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const RULE_TOGGLES: {
+  key: Exclude<keyof TextImportRules, "indentWidth">;
+  label: string;
+}[] = [
+  { key: "headings", label: "Checklist headings" },
+  { key: "dotLeaders", label: "Dot leaders (CHALLENGE....RESPONSE)" },
+  { key: "dashSeparator", label: "Dash separator (CHALLENGE - RESPONSE)" },
+  { key: "numberedSteps", label: "Numbered steps and bullets" },
+  { key: "indentation", label: "Indentation" },
+  { key: "callouts", label: "NOTE / CAUTION / WARNING" },
+];
+
+const ROLE_LABELS: Record<TextLineRole, string> = {
+  heading: "Checklist heading",
+  [ChecklistItemType.ChallengeResponse]: "Challenge / Response",
+  [ChecklistItemType.ChallengeOnly]: "Challenge Only",
+  [ChecklistItemType.Title]: "Title / Section",
+  [ChecklistItemType.Note]: "Note",
+  [ChecklistItemType.Warning]: "Warning",
+  [ChecklistItemType.Caution]: "Caution",
+  [ChecklistItemType.PlainText]: "Plain Text",
+  [ChecklistItemType.Space]: "Space",
+  skip: "Skip",
+};
+
+const INDENT_WIDTHS = [2, 3, 4, 8];
+
+// ---------------------------------------------------------------------------
+// TextImportDialog
+// ---------------------------------------------------------------------------
+
+interface TextImportDialogProps {
+  file: ChecklistFile;
+  /** Group preselected as the import target */
+  groupId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Turn pasted or loaded free-form text (typed-up POH pages, emails) into
+ * checklists, with a live preview whose parse rules and per-line types can
+ * be adjusted before the result is added to a group.
+ */
+export function TextImportDialog({
+  file,
+  groupId,
+  open,
+  onOpenChange,
+}: TextImportDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[80vh] flex-col sm:max-w-240">
+        <DialogHeader>
+          <DialogTitle>Import from Text</DialogTitle>
+          <DialogDescription>
+            Paste or load checklist text. Each heading starts a new checklist;
+            change how any line is read from the preview.
+          </DialogDescription>
+        </DialogHeader>
+        {open && (
+          <TextImportForm
+            file={file}
+            initialGroupId={groupId ?? file.groups[0]?.id ?? ""}
+            onDone={() => onOpenChange(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// TextImportForm
+// ---------------------------------------------------------------------------
+
+interface TextImportFormProps {
+  file: ChecklistFile;
+  initialGroupId: string;
+  onDone: () => void;
+}
+
+function TextImportForm({ file, initialGroupId, onDone }: TextImportFormProps) {
+  const addChecklistsToGroup = useChecklistStore((s) => s.addChecklistsToGroup);
+  const setActiveChecklist = useChecklistStore((s) => s.setActiveChecklist);
+
+  const [text, setText] = useState("");
+  const [rules, setRules] = useState(DEFAULT_TEXT_IMPORT_RULES);
+  /** Roles picked by hand, by source line number */
+  const [overrides, setOverrides] = useState<Record<number, TextLineRole>>({});
+  const [targetGroupId, setTargetGroupId] = useState(initialGroupId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const lines = useMemo(
+    () =>
+      parseTextLines(text, rules).map((line) =>
+        line.lineIndex in overrides
+          ? { ...line, role: overrides[line.lineIndex] }
+          : line,
+      ),
+    [text, rules, overrides],
+  );
+  const checklists = useMemo(() => textLinesToChecklists(lines), [lines]);
+  const itemCount = checklists.reduce((sum, c) => sum + c.items.length, 0);
+
+  function handleTextChange(value: string) {
+    setText(value);
+    // Line numbers no longer match the overrides once the text is edited
+    setOverrides({});
+  }
+
+  async function handleLoadFile(selected: File | undefined) {
+    if (!selected) return;
+    try {
+      handleTextChange(await selected.text());
+    } catch (err) {
+      toast.error("Failed to read file", {
+        description: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }
+
+  function handleImport() {
+    const group = file.groups.find((g) => g.id === targetGroupId);
+    if (!group || checklists.length === 0) return;
+
+    addChecklistsToGroup(file.id, group.id, checklists);
+    toast.success(
+      `Imported ${checklists.length} checklist${checklists.length > 1 ? "s" : ""}`,
+      { description: checklists.map((c) => c.name).join(", ") },
+    );
+
+    // The new checklists were appended to the group; select the first
+    const updatedGroup = useChecklistStore
+      .getState()
+      .files[file.id]?.groups.find((g) => g.id === group.id);
+    const firstImported =
+      updatedGroup?.checklists[
+        updatedGroup.checklists.length - checklists.length
+      ];
+    if (firstImported) setActiveChecklist(firstImported.id);
+    onDone();
+  }
+
+  return (
+    <>
+      <div className="flex min-h-0 flex-1 gap-3">
+        {/* Source text and parse rules */}
+        <div className="flex w-96 shrink-0 flex-col gap-2">
+          <Textarea
+            autoFocus
+            value={text}
+            placeholder={
+              "BEFORE STARTING ENGINE\n1. Preflight Inspection ....... COMPLETE\n2. Fuel Selector ....... BOTH\nCAUTION: ..."
+            }
+            onChange={(e) => handleTextChange(e.target.value)}
+            className="min-h-0 flex-1 resize-none font-mono text-xs"
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,.text,.md,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              handleLoadFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FileText />
+            Load text file&hellip;
+          </Button>
+
+          <div className="flex flex-col gap-1.5">
+            {RULE_TOGGLES.map(({ key, label }) => (
+              <div key={key} className="flex items-center justify-between">
+                <Label className="text-muted-foreground text-[11px]">
+                  {label}
+                </Label>
+                <Switch
+                  size="sm"
+                  checked={rules[key]}
+                  onCheckedChange={(checked) =>
+                    setRules({ ...rules, [key]: checked })
+                  }
+                />
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Label className="text-muted-foreground text-[11px]">
+                Spaces per indent level
+              </Label>
+              <Select
+                value={String(rules.indentWidth)}
+                disabled={!rules.indentation}
+                onValueChange={(value) =>
+                  setRules({ ...rules, indentWidth: Number(value) })
+                }
+              >
+                <SelectTrigger className="w-16" size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INDENT_WIDTHS.map((width) => (
+                    <SelectItem key={width} value={String(width)}>
+                      {width}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        {/* Live preview */}
+        <ScrollArea className="border-border min-w-0 flex-1 rounded border">
+          <div className="flex flex-col p-1">
+            {lines.length === 0 && (
+              <span className="text-text-muted px-2 py-4 text-center text-xs">
+                The parsed checklists appear here
+              </span>
+            )}
+            {lines.map((line) => (
+              <PreviewRow
+                key={line.lineIndex}
+                line={line}
+                isOverridden={line.lineIndex in overrides}
+                onRoleChange={(role) =>
+                  setOverrides({ ...overrides, [line.lineIndex]: role })
+                }
+              />
+            ))}
+          </div>
+        </ScrollArea>
+      </div>
+
+      <DialogFooter className="items-center">
+        <span className="text-text-muted mr-auto text-[11px]">
+          {checklists.length} checklist{checklists.length === 1 ? "" : "s"} ·{" "}
+          {itemCount} item{itemCount === 1 ? "" : "s"}
+        </span>
+        <Label className="text-muted-foreground text-[11px]">Into group</Label>
+        <Select value={targetGroupId} onValueChange={setTargetGroupId}>
+          <SelectTrigger className="w-44" size="sm">
+            <SelectValue placeholder="Choose a group" />
+          </SelectTrigger>
+          <SelectContent>
+            {file.groups.map((group) => (
+              <SelectItem key={group.id} value={group.id}>
+                <GroupIcon category={group.category} className="size-3.5" />
+                {group.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button
+          disabled={checklists.length === 0 || !targetGroupId}
+          onClick={handleImport}
+        >
+          Import
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// PreviewRow
+// ---------------------------------------------------------------------------
+
+interface PreviewRowProps {
+  line: TextImportLine;
+  isOverridden: boolean;
+  onRoleChange: (role: TextLineRole) => void;
+}
+
+function PreviewRow({ line, isOverridden, onRoleChange }: PreviewRowProps) {
+  const isItem = line.role !== "heading" && line.role !== "skip";
+
+  return (
+    <div
+      title={line.source.trim()}
+      className={cn(
+        "flex items-center gap-2 rounded px-1 py-0.5",
+        line.role === "heading" && "bg-efis-accent-dim mt-1",
+      )}
+    >
+      <Select
+        value={line.role}
+        onValueChange={(value) => onRoleChange(value as TextLineRole)}
+      >
+        <SelectTrigger
+          size="sm"
+          className={cn(
+            "h-6 w-36 shrink-0 text-[11px]",
+            isOverridden && "border-efis-accent",
+          )}
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(ROLE_LABELS).map(([role, label]) => (
+            <SelectItem key={role} value={role}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div
+        className="flex min-w-0 flex-1 items-center"
+        style={isItem ? { paddingLeft: line.indent * 16 } : undefined}
+      >
+        {isItem && <TypeIndicator type={line.role as ChecklistItemType} />}
+        <span
+          className={cn(
+            "min-w-0 flex-1 truncate text-xs",
+            line.role === "heading" && "text-efis-accent font-semibold",
+            line.role === "skip" && "text-text-muted line-through",
+            !isItem && "pl-1",
+          )}
+        >
+          {line.role === ChecklistItemType.ChallengeResponse
+            ? line.challengeText
+            : lineText(line)}
+        </span>
+        {line.role === ChecklistItemType.ChallengeResponse &&
+          line.responseText && (
+            <span className="text-muted-foreground shrink-0 pl-3 font-mono text-[11px]">
+              {line.responseText}
+            </span>
+          )}
+      </div>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import {
   Redo2,
   Plus,
   ListPlus,
+  Replace,
   Search,
   SlidersHorizontal,
   Zap,
@@ -19,19 +20,25 @@ import {
 import { useChecklistStore } from "@/stores";
 import { useUiStore } from "@/stores";
 import { importFile } from "@/actions/checklist";
+import { openImportResult } from "@/utils/import-file";
+import {
+  reexportWithToast,
+  useExportProfiles,
+} from "@/hooks/use-export-profiles";
 import { toast } from "sonner";
 import { ChecklistItemType } from "@/types/checklist";
 
 interface ToolbarProps {
   onOpenCommandPalette?: () => void;
   onOpenExportModal?: () => void;
+  onOpenFindReplace?: () => void;
 }
 
 export function Toolbar({
   onOpenCommandPalette,
   onOpenExportModal,
+  onOpenFindReplace,
 }: ToolbarProps) {
-  const addFile = useChecklistStore((s) => s.addFile);
   const activeFileId = useChecklistStore((s) => s.activeFileId);
   const files = useChecklistStore((s) => s.files);
   const addItem = useChecklistStore((s) => s.addItem);
@@ -43,6 +50,8 @@ export function Toolbar({
   const canUndo = pastStates.length > 0;
   const canRedo = futureStates.length > 0;
 
+  const { profiles } = useExportProfiles(activeFileId);
+
   const togglePropertiesPanel = useUiStore((s) => s.togglePropertiesPanel);
 
   const activeFile = activeFileId ? files[activeFileId] : null;
@@ -60,13 +69,7 @@ export function Toolbar({
 
   const handleImport = async () => {
     try {
-      const file = await importFile();
-      if (file) {
-        addFile(file);
-        toast.success("File imported", {
-          description: `Opened ${file.name}`,
-        });
-      }
+      openImportResult(await importFile());
     } catch (err) {
       toast.error("Import failed", {
         description: err instanceof Error ? err.message : "Unknown error",
@@ -115,8 +118,19 @@ export function Toolbar({
     toast.success("Checklist added");
   };
 
-  const handleQuickExport = () => {
-    toast.info("Quick export coming in Phase 13");
+  /** Re-run every remembered export; with none yet, pick a target first */
+  const handleReexportAll = () => {
+    if (!activeFileId) {
+      toast.warning("No file open", {
+        description: "Open or create a file first",
+      });
+      return;
+    }
+    if (profiles.length === 0) {
+      handleExport();
+      return;
+    }
+    void reexportWithToast(activeFileId);
   };
 
   return (
@@ -168,6 +182,15 @@ export function Toolbar({
           onClick={handleAddChecklist}
         />
 
+        <Separator orientation="vertical" className="mx-1 h-5" />
+
+        <ToolbarButton
+          icon={<Replace className="size-3.5" />}
+          label="Replace"
+          tooltip="Find and replace (Ctrl+H)"
+          onClick={onOpenFindReplace}
+        />
+
         <div className="flex-1" />
 
         {/* Search trigger */}
@@ -193,14 +216,19 @@ export function Toolbar({
           onClick={togglePropertiesPanel}
         />
 
-        {/* Quick Export */}
+        {/* Re-export All */}
         <button
           type="button"
-          onClick={handleQuickExport}
+          onClick={handleReexportAll}
+          title={
+            profiles.length > 0
+              ? `Write all ${profiles.length} export targets`
+              : "Choose an export target"
+          }
           className="border-efis-accent/25 bg-efis-accent-dim text-efis-accent hover:bg-efis-accent/20 hover:text-efis-accent-hover flex items-center gap-1.5 rounded-md border px-3 py-1 text-xs font-medium transition-colors duration-150"
         >
           <Zap className="size-3.5" />
-          Quick Export
+          Re-export All
         </button>
       </div>
     </TooltipProvider>
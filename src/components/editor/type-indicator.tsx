@@ -21,9 +21,18 @@ interface TypeIndicatorProps {
   className?: string;
 }
 
+type IndicatorShape = "circle" | "ring" | "bar" | "dash";
+
+const SHAPE_CLASS: Record<IndicatorShape, string> = {
+  circle: "size-1.5 rounded-full",
+  ring: "size-1.5 rounded-full border",
+  bar: "h-0.75 w-3.5 rounded-sm",
+  dash: "h-px w-2",
+};
+
 const TYPE_CONFIG: Record<
   ChecklistItemType,
-  { shape: "circle" | "bar"; colorClass: string }
+  { shape: IndicatorShape; colorClass: string }
 > = {
   [ChecklistItemType.ChallengeResponse]: {
     shape: "circle",
@@ -49,6 +58,14 @@ const TYPE_CONFIG: Record<
     shape: "circle",
     colorClass: "bg-efis-orange",
   },
+  [ChecklistItemType.PlainText]: {
+    shape: "ring",
+    colorClass: "border-text-secondary",
+  },
+  [ChecklistItemType.Space]: {
+    shape: "dash",
+    colorClass: "bg-border-light",
+  },
 };
 
 export function TypeIndicator({
@@ -66,14 +83,7 @@ export function TypeIndicator({
         className,
       )}
     >
-      <span
-        className={cn(
-          config.colorClass,
-          config.shape === "circle"
-            ? "size-1.5 rounded-full"
-            : "h-0.75 w-3.5 rounded-sm",
-        )}
-      />
+      <span className={cn(config.colorClass, SHAPE_CLASS[config.shape])} />
 
       {/* Downward connector for parent items — aligns with child indent guide lines */}
       {showConnector && connectorColorClass && (
@@ -0,0 +1,44 @@
+import { cn } from "@/utils/tailwind";
+import { splitVariables } from "@/ipc/formats/variables";
+
+interface VariableTextProps {
+  text: string;
+  /** Defined variables of the file the text belongs to */
+  variables: Map<string, string>;
+}
+
+/**
+ * Text with `{{NAME}}` tokens shown as their resolved values.
+ * Defined variables are underlined (hover shows the token); unknown
+ * ones keep the raw token, highlighted in red.
+ */
+export function VariableText({ text, variables }: VariableTextProps) {
+  if (!text.includes("{{")) return <>{text}</>;
+
+  return (
+    <>
+      {splitVariables(text, variables).map((segment, i) =>
+        segment.kind === "text" ? (
+          segment.text
+        ) : (
+          <span
+            key={i}
+            title={
+              segment.value === undefined
+                ? `Unknown variable ${segment.token}`
+                : `${segment.token} = ${segment.value}`
+            }
+            className={cn(
+              "rounded-sm",
+              segment.value === undefined
+                ? "bg-efis-red-dim text-efis-red px-0.5"
+                : "decoration-efis-accent underline decoration-dotted underline-offset-2",
+            )}
+          >
+            {segment.value === undefined ? segment.token : segment.value}
+          </span>
+        ),
+      )}
+    </>
+  );
+}
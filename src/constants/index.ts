@@ -15,3 +15,7 @@ export const UPDATE_CHANNELS = {
   PROGRESS: "update:progress",
   ERROR: "update:error",
 } as const;
+
+export const WATCH_CHANNELS = {
+  FILE_CHANGED: "watch:file-changed",
+} as const;
@@ -9,8 +9,12 @@ export function useAutosave() {
   // Subscribe to checklist store changes
   useEffect(() => {
     const unsubscribe = useChecklistStore.subscribe((state, prevState) => {
-      // Only save if files actually changed
-      if (state.files === prevState.files) return;
+      // Only save if files or their export settings actually changed
+      if (
+        state.files === prevState.files &&
+        state.exportSettings === prevState.exportSettings
+      )
+        return;
 
       // Clear previous timer
       if (timerRef.current) {
@@ -19,13 +23,17 @@ export function useAutosave() {
 
       // Debounce 2 seconds
       timerRef.current = setTimeout(() => {
-        const { files, activeFileId, markFileClean } =
+        const { files, exportSettings, activeFileId, markFileClean } =
           useChecklistStore.getState();
 
         // Convert files to plain objects for serialization (strip functions)
         const filesData = JSON.parse(JSON.stringify(files));
 
-        saveWorkspace(filesData, activeFileId)
+        saveWorkspace(
+          filesData,
+          activeFileId,
+          JSON.parse(JSON.stringify(exportSettings)),
+        )
           .then(() => {
             // Mark all dirty files as clean
             for (const fileId of Object.keys(files)) {
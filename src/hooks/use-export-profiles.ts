@@ -0,0 +1,180 @@
+import { useChecklistStore } from "@/stores";
+import { exportFile } from "@/actions/checklist";
+import { toast } from "sonner";
+import type {
+  ChecklistFile,
+  ChecklistFormat,
+  ExportOptions,
+  ExportProfile,
+} from "@/types/checklist";
+
+/** Hashes by file object; every edit gives the file a new object */
+const contentHashes = new WeakMap<ChecklistFile, string>();
+
+/**
+ * A short hash of what an export writes from the file (cyrb53). Timestamps
+ * can't tell whether an export is current, since undo takes the file's
+ * lastModified back but leaves the export record alone.
+ */
+function contentHash(file: ChecklistFile): string {
+  const cached = contentHashes.get(file);
+  if (cached) return cached;
+
+  const { name, metadata, groups, extensions } = file;
+  const text = JSON.stringify({ name, metadata, groups, extensions });
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+
+  contentHashes.set(file, hash);
+  return hash;
+}
+
+/** A profile is stale when the file's content differs from what was written */
+export function isProfileStale(
+  file: ChecklistFile,
+  profile: ExportProfile,
+): boolean {
+  return profile.contentHash !== contentHash(file);
+}
+
+/**
+ * Run a store update without recording it in undo history. Undo only
+ * restores `files`, so these steps would be no-ops Ctrl+Z steps through.
+ */
+function withoutHistory(fn: () => void) {
+  const { pause, resume } = useChecklistStore.temporal.getState();
+  pause();
+  try {
+    fn();
+  } finally {
+    resume();
+  }
+}
+
+/**
+ * Remember an export target for a file (updates it if already known).
+ * `file` is the version that was written.
+ */
+export function recordExport(
+  file: ChecklistFile,
+  profile: Omit<ExportProfile, "id" | "lastExported" | "contentHash">,
+) {
+  withoutHistory(() =>
+    useChecklistStore.getState().saveExportProfile(file.id, {
+      ...profile,
+      lastExported: Date.now(),
+      contentHash: contentHash(file),
+    }),
+  );
+}
+
+/** Remember the overrides last used for a format, to prefill the next export */
+export function rememberExportOptions(
+  fileId: string,
+  format: ChecklistFormat,
+  options: ExportOptions,
+) {
+  withoutHistory(() =>
+    useChecklistStore.getState().setExportOptions(fileId, format, options),
+  );
+}
+
+export function forgetExport(fileId: string, profileId: string) {
+  withoutHistory(() =>
+    useChecklistStore.getState().removeExportProfile(fileId, profileId),
+  );
+}
+
+interface ReexportResult {
+  exported: ExportProfile[];
+  failed: { profile: ExportProfile; error: string }[];
+}
+
+/**
+ * Write the file to each of its export targets (all of them by default).
+ * Targets are written one at a time so a failure doesn't stop the rest.
+ */
+export async function reexportProfiles(
+  fileId: string,
+  profileIds?: string[],
+): Promise<ReexportResult> {
+  const result: ReexportResult = { exported: [], failed: [] };
+
+  const { files, exportSettings } = useChecklistStore.getState();
+  const file = files[fileId];
+  if (!file) return result;
+
+  const profiles = (exportSettings[fileId]?.profiles ?? []).filter(
+    (p) => !profileIds || profileIds.includes(p.id),
+  );
+
+  for (const profile of profiles) {
+    try {
+      await exportFile(file, profile.format, profile.filePath, profile.options);
+      withoutHistory(() =>
+        useChecklistStore
+          .getState()
+          .markProfileExported(
+            fileId,
+            profile.id,
+            Date.now(),
+            contentHash(file),
+          ),
+      );
+      result.exported.push(profile);
+    } catch (err) {
+      result.failed.push({
+        profile,
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+    }
+  }
+
+  return result;
+}
+
+/** Re-export and summarize the outcome in a toast */
+export async function reexportWithToast(fileId: string, profileIds?: string[]) {
+  const { exported, failed } = await reexportProfiles(fileId, profileIds);
+
+  if (failed.length > 0) {
+    toast.error(
+      `${failed.length} of ${exported.length + failed.length} exports failed`,
+      {
+        description: failed
+          .map((f) => `${f.profile.filePath}: ${f.error}`)
+          .join("\n"),
+      },
+    );
+  } else if (exported.length > 0) {
+    toast.success("Export complete", {
+      description:
+        exported.length === 1
+          ? `Saved to ${exported[0].filePath}`
+          : `Wrote ${exported.length} export targets`,
+    });
+  }
+}
+
+/** Export targets of a file and which of them are out of date */
+export function useExportProfiles(fileId: string | null) {
+  const file = useChecklistStore((s) => (fileId ? s.files[fileId] : null));
+  const settings = useChecklistStore((s) =>
+    fileId ? s.exportSettings[fileId] : undefined,
+  );
+  const profiles = settings?.profiles ?? [];
+  const staleProfiles = file
+    ? profiles.filter((p) => isProfileStale(file, p))
+    : [];
+  return { profiles, staleProfiles };
+}
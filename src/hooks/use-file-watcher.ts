@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from "react";
+import { useChecklistStore } from "@/stores";
+import { watchFiles } from "@/actions/watcher";
+import type { ExternalFileChange } from "@/ipc/watcher/types";
+
+/** Sorted, de-duplicated disk paths of all open files */
+function openFilePaths(): string[] {
+  const { files } = useChecklistStore.getState();
+  const paths = Object.values(files)
+    .map((f) => f.filePath)
+    .filter((p): p is string => !!p);
+  return [...new Set(paths)].sort();
+}
+
+/**
+ * Keep the main-process watcher in sync with the open files and queue up
+ * external changes it reports. Returns the change to show next and a
+ * callback to dismiss it once the user has chosen what to do.
+ */
+export function useFileWatcher() {
+  const [queue, setQueue] = useState<ExternalFileChange[]>([]);
+
+  useEffect(() => {
+    let watched = "";
+
+    const sync = () => {
+      const paths = openFilePaths();
+      const key = paths.join("\n");
+      if (key === watched) return;
+      watched = key;
+      watchFiles(paths).catch((err) => {
+        console.error("[Watcher] Failed to update watched files:", err);
+      });
+    };
+
+    sync();
+    const unsubscribe = useChecklistStore.subscribe((state, prevState) => {
+      if (state.files !== prevState.files) sync();
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    return window.watchAPI.onFileChanged((change) => {
+      setQueue((q) => [
+        // A newer event for the same path supersedes a pending one
+        ...q.filter((c) => c.filePath !== change.filePath),
+        change,
+      ]);
+    });
+  }, []);
+
+  const dismiss = useCallback(() => setQueue((q) => q.slice(1)), []);
+
+  return { change: queue[0] ?? null, dismiss };
+}
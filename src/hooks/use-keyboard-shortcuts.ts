@@ -2,12 +2,16 @@ import { useEffect, useRef } from "react";
 import { useChecklistStore } from "@/stores";
 import { useUiStore } from "@/stores";
 import { importFile } from "@/actions/checklist";
+import { openImportResult } from "@/utils/import-file";
+import { saveRevision } from "@/hooks/use-revision-history";
+import { copySelection, pasteClipboard } from "@/utils/clipboard";
 import { toast } from "sonner";
 import { ChecklistItemType } from "@/types/checklist";
 
 interface UseKeyboardShortcutsOptions {
   onOpenCommandPalette: () => void;
   onOpenExportModal: () => void;
+  onOpenFindReplace: () => void;
   onShowShortcuts: () => void;
 }
 
@@ -17,12 +21,7 @@ interface UseKeyboardShortcutsOptions {
 
 function handleImport() {
   importFile()
-    .then((file) => {
-      if (file) {
-        useChecklistStore.getState().addFile(file);
-        toast.success("File imported", { description: `Opened ${file.name}` });
-      }
-    })
+    .then(openImportResult)
     .catch((err) => {
       toast.error("Import failed", {
         description: err instanceof Error ? err.message : "Unknown error",
@@ -157,6 +156,7 @@ function navigateItems(direction: number) {
 export function useKeyboardShortcuts({
   onOpenCommandPalette,
   onOpenExportModal,
+  onOpenFindReplace,
   onShowShortcuts,
 }: UseKeyboardShortcutsOptions) {
   // Store callbacks in refs so the keydown effect can stay stable (empty deps).
@@ -166,6 +166,7 @@ export function useKeyboardShortcuts({
   const callbacksRef = useRef({
     onOpenCommandPalette,
     onOpenExportModal,
+    onOpenFindReplace,
     onShowShortcuts,
   });
 
@@ -174,6 +175,7 @@ export function useKeyboardShortcuts({
     callbacksRef.current = {
       onOpenCommandPalette,
       onOpenExportModal,
+      onOpenFindReplace,
       onShowShortcuts,
     };
   });
@@ -200,6 +202,13 @@ export function useKeyboardShortcuts({
         return;
       }
 
+      // Ctrl+H - Find and replace
+      if (isModKey && e.key === "h") {
+        e.preventDefault();
+        callbacksRef.current.onOpenFindReplace();
+        return;
+      }
+
       // Ctrl+Z - Undo
       if (isModKey && !e.shiftKey && e.key === "z") {
         e.preventDefault();
@@ -222,10 +231,11 @@ export function useKeyboardShortcuts({
         return;
       }
 
-      // Ctrl+S - Save (prevent browser default)
+      // Ctrl+S - Save a revision snapshot (the workspace itself autosaves)
       if (isModKey && e.key === "s") {
         e.preventDefault();
-        toast.info("Autosave is enabled");
+        const { activeFileId } = useChecklistStore.getState();
+        if (activeFileId) saveRevision(activeFileId);
         return;
       }
 
@@ -275,6 +285,20 @@ export function useKeyboardShortcuts({
       // The following shortcuts only work when not editing and not in an input
       if (isEditing || isInputFocused) return;
 
+      // Ctrl+C - Copy selected items, or the active checklist
+      if (isModKey && e.key === "c") {
+        e.preventDefault();
+        copySelection();
+        return;
+      }
+
+      // Ctrl+V - Paste items, checklists or plain text after the active item
+      if (isModKey && e.key === "v") {
+        e.preventDefault();
+        pasteClipboard();
+        return;
+      }
+
       // ArrowUp - Previous item
       if (e.key === "ArrowUp") {
         e.preventDefault();
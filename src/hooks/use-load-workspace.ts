@@ -7,7 +7,7 @@ import {
   ChecklistGroupCategory,
   ChecklistItemType,
 } from "@/types/checklist";
-import type { ChecklistFile } from "@/types/checklist";
+import type { ChecklistFile, FileExportSettings } from "@/types/checklist";
 
 let uidCounter = 0;
 function uid(): string {
@@ -144,6 +144,11 @@ export function useLoadWorkspace() {
               hasFiles = true;
             }
           }
+          if (workspace.exportSettings) {
+            store.loadExportSettings(
+              workspace.exportSettings as Record<string, FileExportSettings>,
+            );
+          }
           // Restore active file
           if (
             workspace.activeFileId &&
@@ -0,0 +1,48 @@
+import { useEffect } from "react";
+import { useChecklistStore } from "@/stores";
+import { saveSnapshot } from "@/actions/persistence";
+import { toast } from "sonner";
+
+/** How often edited files get an automatic revision snapshot */
+const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+/** lastModified of each file when its latest snapshot was taken */
+const snapshotVersions = new Map<string, number>();
+
+/** Explicitly snapshot a file (Ctrl+S) */
+export async function saveRevision(fileId: string) {
+  const file = useChecklistStore.getState().files[fileId];
+  if (!file) return;
+
+  try {
+    const entry = await saveSnapshot(file, "save");
+    snapshotVersions.set(fileId, file.lastModified);
+    toast.success(entry ? "Revision saved" : "No changes since last revision", {
+      description: "Browse revisions from the file's context menu",
+    });
+  } catch (err) {
+    toast.error("Failed to save revision", {
+      description: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+}
+
+/** Periodically snapshot every file edited since its last snapshot */
+export function useRevisionHistory() {
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const { files } = useChecklistStore.getState();
+      for (const file of Object.values(files)) {
+        if (snapshotVersions.get(file.id) === file.lastModified) continue;
+        // The first pass after launch also snapshots; the main process
+        // skips it if nothing changed since the previous session
+        snapshotVersions.set(file.id, file.lastModified);
+        saveSnapshot(file, "auto").catch((err) => {
+          console.error("[History] Failed to save snapshot:", err);
+        });
+      }
+    }, SNAPSHOT_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, []);
+}
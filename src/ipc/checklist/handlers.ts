@@ -6,18 +6,25 @@ import path from "path";
 import { ChecklistFormat, ChecklistItemType } from "@/types/checklist";
 import type { Checklist, ChecklistFile } from "@/types/checklist";
 import { ipcContext } from "@/ipc/context";
+import { noteOwnWrite } from "@/ipc/watcher/watcher";
 import {
   detectFormat,
+  exportOptionsFor,
   getParser,
-  garminPilotParser,
-  pdfParser,
+  parseFileContent,
+  serializeFile,
+  validateFile,
 } from "@/ipc/formats";
-import type { ParsedChecklistFile } from "@/ipc/formats";
-import type { RecentFileEntry } from "./types";
+import { previewCsv } from "@/ipc/formats/csv";
+import type { CsvLayoutColumn } from "@/ipc/formats/csv";
+import { EFIS_EDITOR_ITEM_TYPES } from "@/ipc/formats/efis-editor";
+import type { ImportFileResult, RecentFileEntry } from "./types";
 import {
   readChecklistFileInputSchema,
+  importFileInputSchema,
   writeChecklistFileInputSchema,
   exportFileInputSchema,
+  validateExportInputSchema,
   addRecentFileInputSchema,
 } from "./schemas";
 
@@ -49,65 +56,57 @@ async function writeRecentFilesToDisk(entries: RecentFileEntry[]) {
   await writeFile(getRecentFilesPath(), JSON.stringify(entries, null, 2));
 }
 
-/**
- * Parse file content using the appropriate parser.
- * Handles async parsers (Garmin Pilot) transparently.
- */
-async function parseFileContent(
-  content: Buffer,
-  format: ChecklistFormat,
-  fileName: string,
-): Promise<ParsedChecklistFile> {
-  if (format === ChecklistFormat.Gplt) {
-    return garminPilotParser.parseAsync(content, fileName);
+/** Read `filePath`, or throw if its format is not one we read */
+async function readWithFormat(filePath: string) {
+  // Read as raw Buffer for binary format support
+  const content = await readFile(filePath);
+  const format = detectFormat(filePath, content);
+  if (!format) {
+    throw new Error(`Unsupported file format: ${path.extname(filePath)}`);
   }
-  const parser = getParser(format);
-  return parser.parse(content, fileName);
+  return { content, format };
 }
 
-/**
- * Serialize a file using the appropriate parser.
- * Handles async parsers (Garmin Pilot, PDF) transparently.
- */
-async function serializeFile(
-  file: ChecklistFile,
+/** Parse file content into a new open file, with the reader's warnings */
+async function openFileContent(
+  filePath: string,
+  content: Buffer,
   format: ChecklistFormat,
-): Promise<Buffer | string> {
-  if (format === ChecklistFormat.Gplt) {
-    return garminPilotParser.serializeAsync(file);
-  }
-  if (format === ChecklistFormat.Pdf) {
-    return pdfParser.serializeAsync(file);
-  }
-  const parser = getParser(format);
-  return parser.serialize(file);
+  csvLayout?: CsvLayoutColumn[],
+) {
+  const fileName = path.basename(filePath, path.extname(filePath));
+  const { warnings, ...parsed } = await parseFileContent(
+    content,
+    format,
+    fileName,
+    csvLayout,
+  );
+
+  const file: ChecklistFile = {
+    ...parsed,
+    id: crypto.randomUUID(),
+    filePath,
+    dirty: false,
+    lastModified: Date.now(),
+  };
+  return { file, warnings };
 }
 
 /** Read and parse a checklist file from disk */
 export const readChecklistFile = os
   .input(readChecklistFileInputSchema)
   .handler(async ({ input }) => {
-    const { filePath } = input;
-
-    // Read as raw Buffer for binary format support
-    const content = await readFile(filePath);
-    const format = detectFormat(filePath, content);
-    if (!format) {
-      throw new Error(`Unsupported file format: ${path.extname(filePath)}`);
-    }
-
-    const fileName = path.basename(filePath, path.extname(filePath));
-    const parsed = await parseFileContent(content, format, fileName);
-
-    const file: ChecklistFile = {
-      ...parsed,
-      id: crypto.randomUUID(),
+    const { filePath, csvLayout } = input;
+    const { content, format } = await readWithFormat(filePath);
+    const { file, warnings } = await openFileContent(
       filePath,
-      dirty: false,
-      lastModified: Date.now(),
-    };
+      content,
+      format,
+      csvLayout,
+    );
 
-    return file;
+    // Reader warnings travel with the file for the caller to show once
+    return { ...file, warnings };
   });
 
 /** Write a ChecklistFile as JSON to disk (internal save) */
@@ -125,28 +124,65 @@ export const writeChecklistFile = os
     if (!existsSync(dir)) {
       await mkdir(dir, { recursive: true });
     }
+    noteOwnWrite(filePath, content);
     await writeFile(filePath, content, "utf-8");
 
     return { success: true, filePath };
   });
 
-/** Open native file dialog, read file, detect format, parse to internal model */
+/** Import a picked or dropped file; CSV files stop at their column preview */
+async function importFromPath(filePath: string): Promise<ImportFileResult> {
+  const { content, format } = await readWithFormat(filePath);
+  if (format === ChecklistFormat.Csv) {
+    return {
+      kind: "csv",
+      filePath,
+      preview: previewCsv(content.toString("utf-8")),
+    };
+  }
+  return {
+    kind: "file",
+    ...(await openFileContent(filePath, content, format)),
+  };
+}
+
+/**
+ * Open native file dialog (unless a dropped file is given), read file, detect
+ * format, parse to internal model. CSV files stop at a preview of their
+ * columns, which the user maps before the file is read.
+ */
 export const importFile = os
   .use(ipcContext.mainWindowContext)
-  .handler(async ({ context }) => {
+  .input(importFileInputSchema)
+  .handler(async ({ input, context }): Promise<ImportFileResult | null> => {
+    if (input.filePath) return importFromPath(input.filePath);
+
     const result = await dialog.showOpenDialog(context.window, {
       title: "Import Checklist File",
       filters: [
         {
           name: "Checklist Files",
-          extensions: ["ace", "json", "txt", "afd", "fmd", "gplt"],
+          extensions: [
+            "ace",
+            "json",
+            "txt",
+            "afd",
+            "fmd",
+            "gplt",
+            "csv",
+            "tsv",
+            "md",
+          ],
         },
         { name: "Garmin ACE", extensions: ["ace"] },
         { name: "JSON", extensions: ["json"] },
+        { name: "efis-editor JSON", extensions: ["json"] },
         { name: "Dynon / AFS", extensions: ["txt", "afd"] },
         { name: "ForeFlight", extensions: ["fmd"] },
         { name: "Garmin Pilot", extensions: ["gplt"] },
         { name: "GRT", extensions: ["txt"] },
+        { name: "CSV / TSV Spreadsheet", extensions: ["csv", "tsv"] },
+        { name: "Markdown", extensions: ["md", "markdown"] },
         { name: "All Files", extensions: ["*"] },
       ],
       properties: ["openFile"],
@@ -156,39 +192,20 @@ export const importFile = os
       return null;
     }
 
-    const filePath = result.filePaths[0];
-
-    // Read as raw Buffer for binary format support
-    const content = await readFile(filePath);
-    const format = detectFormat(filePath, content);
-    if (!format) {
-      throw new Error(`Unsupported file format: ${path.extname(filePath)}`);
-    }
-
-    const fileName = path.basename(filePath, path.extname(filePath));
-    const parsed = await parseFileContent(content, format, fileName);
-
-    const file: ChecklistFile = {
-      ...parsed,
-      id: crypto.randomUUID(),
-      filePath,
-      dirty: false,
-      lastModified: Date.now(),
-    };
-
-    return file;
+    return importFromPath(result.filePaths[0]);
   });
 
 /** Serialize active file to target format and save to disk */
 export const exportFile = os
   .input(exportFileInputSchema)
   .handler(async ({ input }) => {
-    const { file, format, filePath } = input;
+    const { file, format, filePath, options } = input;
     const checklistFormat = format as ChecklistFormat;
 
     const content = await serializeFile(
       file as unknown as ChecklistFile,
       checklistFormat,
+      exportOptionsFor(checklistFormat, filePath, options),
     );
 
     const dir = path.dirname(filePath);
@@ -196,6 +213,8 @@ export const exportFile = os
       await mkdir(dir, { recursive: true });
     }
 
+    noteOwnWrite(filePath, content);
+
     // Write binary formats as Buffer, text as utf-8
     if (Buffer.isBuffer(content)) {
       await writeFile(filePath, content);
@@ -206,6 +225,18 @@ export const exportFile = os
     return { success: true, filePath, format };
   });
 
+/** Check what exporting to the target format would drop or alter */
+export const validateExport = os
+  .input(validateExportInputSchema)
+  .handler(async ({ input }) => {
+    const { file, format, options } = input;
+    return validateFile(
+      file as unknown as ChecklistFile,
+      format as ChecklistFormat,
+      options,
+    );
+  });
+
 /** Get list of recently opened files */
 export const getRecentFiles = os.handler(async () => {
   return readRecentFilesFromDisk();
@@ -237,18 +268,6 @@ export const addRecentFile = os
     return trimmed;
   });
 
-/** Map rdamazio item type strings used in standalone checklist objects */
-const RDAMAZIO_TYPE_MAP: Record<string, ChecklistItemType> = {
-  ITEM_CHALLENGE_RESPONSE: ChecklistItemType.ChallengeResponse,
-  ITEM_CHALLENGE: ChecklistItemType.ChallengeOnly,
-  ITEM_TITLE: ChecklistItemType.Title,
-  ITEM_PLAINTEXT: ChecklistItemType.Note,
-  ITEM_NOTE: ChecklistItemType.Note,
-  ITEM_WARNING: ChecklistItemType.Warning,
-  ITEM_CAUTION: ChecklistItemType.Caution,
-  ITEM_SPACE: ChecklistItemType.Note,
-};
-
 /** Parse a single item object into a Checklist item with a fresh ID */
 function parseItem(item: Record<string, unknown>): Checklist["items"][number] {
   // Detect rdamazio item format (uses prompt/expectation and ITEM_ prefixed types)
@@ -258,7 +277,7 @@ function parseItem(item: Record<string, unknown>): Checklist["items"][number] {
   return {
     id: crypto.randomUUID(),
     type: isRdamazio
-      ? (RDAMAZIO_TYPE_MAP[item.type as string] ??
+      ? (EFIS_EDITOR_ITEM_TYPES[item.type as string] ??
         ChecklistItemType.ChallengeResponse)
       : ((item.type as ChecklistItemType) ??
         ChecklistItemType.ChallengeResponse),
@@ -3,6 +3,7 @@ import {
   writeChecklistFile,
   importFile,
   exportFile,
+  validateExport,
   getRecentFiles,
   addRecentFile,
   importChecklistsFromFile,
@@ -13,6 +14,7 @@ export const checklist = {
   writeChecklistFile,
   importFile,
   exportFile,
+  validateExport,
   getRecentFiles,
   addRecentFile,
   importChecklistsFromFile,
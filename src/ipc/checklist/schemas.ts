@@ -1,7 +1,20 @@
 import z from "zod";
+import { CSV_COLUMNS } from "@/ipc/formats/csv";
+import { minLineLength } from "@/ipc/formats/text/options";
+
+/** Which header holds which field, for CSV columns mapped by hand */
+const csvLayoutSchema = z.array(
+  z.object({ column: z.enum(CSV_COLUMNS), header: z.string() }),
+);
 
 export const readChecklistFileInputSchema = z.object({
   filePath: z.string(),
+  csvLayout: csvLayoutSchema.optional(),
+});
+
+/** A dropped file to import; without one the open dialog picks it */
+export const importFileInputSchema = z.object({
+  filePath: z.string().optional(),
 });
 
 export const writeChecklistFileInputSchema = z.object({
@@ -9,10 +22,54 @@ export const writeChecklistFileInputSchema = z.object({
   filePath: z.string(),
 });
 
+/** Writer overrides from the export modal (see `ExportOptions`) */
+export const exportOptionsSchema = z.object({
+  maxLineLength: z.number().int().min(0).optional(),
+  indentWidth: z.number().int().min(0).max(8).optional(),
+  allUppercase: z.boolean().optional(),
+  outputMetadata: z.boolean().optional(),
+  checklistTopBlankLine: z.boolean().optional(),
+  skipFirstGroup: z.boolean().optional(),
+  pageSize: z.enum(["letter", "a4", "a5", "kneeboard"]).optional(),
+  orientation: z.enum(["portrait", "landscape"]).optional(),
+  columns: z.number().int().min(1).max(3).optional(),
+  dotLeaders: z.boolean().optional(),
+  fontSize: z.number().min(6).max(16).optional(),
+  categoryColors: z.boolean().optional(),
+  keepChecklistsTogether: z.boolean().optional(),
+  groupsOnNewPage: z.boolean().optional(),
+  tableOfContents: z.boolean().optional(),
+  headerFooter: z.boolean().optional(),
+  revision: z.string().optional(),
+  delimiter: z.string().optional(),
+});
+
+/**
+ * Export options the text writer can honor. Validation accepts any width
+ * so the modal can show why a narrow one is refused.
+ */
+const writableExportOptionsSchema = exportOptionsSchema.refine(
+  ({ maxLineLength, indentWidth }) =>
+    !maxLineLength ||
+    indentWidth === undefined ||
+    maxLineLength >= minLineLength(indentWidth),
+  {
+    message: "Wrap width is too narrow for the indent width",
+    path: ["maxLineLength"],
+  },
+);
+
 export const exportFileInputSchema = z.object({
   file: z.record(z.string(), z.unknown()),
   format: z.string(),
   filePath: z.string(),
+  options: writableExportOptionsSchema.optional(),
+});
+
+export const validateExportInputSchema = z.object({
+  file: z.record(z.string(), z.unknown()),
+  format: z.string(),
+  options: exportOptionsSchema.optional(),
 });
 
 export const addRecentFileInputSchema = z.object({
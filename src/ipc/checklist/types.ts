@@ -1,4 +1,5 @@
-import type { ChecklistFormat } from "@/types/checklist";
+import type { ChecklistFile, ChecklistFormat } from "@/types/checklist";
+import type { CsvPreview } from "@/ipc/formats/csv";
 
 /** An entry in the recent files list persisted to disk */
 export interface RecentFileEntry {
@@ -7,3 +8,11 @@ export interface RecentFileEntry {
   format: ChecklistFormat;
   lastOpened: number;
 }
+
+/**
+ * What importing a file gives: the parsed file with its reader warnings, or
+ * for a CSV file the preview its columns are mapped from before it is read
+ */
+export type ImportFileResult =
+  | { kind: "file"; file: ChecklistFile; warnings?: string[] }
+  | { kind: "csv"; filePath: string; preview: CsvPreview };
@@ -0,0 +1,42 @@
+import { os } from "@orpc/server";
+import { clipboard } from "electron";
+import { writeClipboardInputSchema } from "./schemas";
+
+/**
+ * Editor data rides in the HTML flavor, base64-encoded in an attribute, so
+ * a single clipboard write carries it alongside the plain text.
+ */
+const DATA_ATTRIBUTE = "data-efis-checklist";
+const DATA_PATTERN = new RegExp(`${DATA_ATTRIBUTE}="([A-Za-z0-9+/=]*)"`);
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;");
+}
+
+/** Put plain text, and optionally editor data, on the system clipboard */
+export const writeClipboard = os
+  .input(writeClipboardInputSchema)
+  .handler(async ({ input }) => {
+    const { text, data } = input;
+    if (data === undefined) {
+      clipboard.writeText(text);
+      return;
+    }
+    const encoded = Buffer.from(data, "utf-8").toString("base64");
+    clipboard.write({
+      text,
+      html: `<pre ${DATA_ATTRIBUTE}="${encoded}">${escapeHtml(text)}</pre>`,
+    });
+  });
+
+/** Read the clipboard's plain text and any editor data copied by this app */
+export const readClipboard = os.handler(async () => {
+  const match = clipboard.readHTML().match(DATA_PATTERN);
+  return {
+    text: clipboard.readText(),
+    data: match ? Buffer.from(match[1], "base64").toString("utf-8") : undefined,
+  };
+});
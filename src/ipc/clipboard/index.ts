@@ -0,0 +1,6 @@
+import { readClipboard, writeClipboard } from "./handlers";
+
+export const clipboard = {
+  readClipboard,
+  writeClipboard,
+};
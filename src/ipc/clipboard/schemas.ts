@@ -0,0 +1,7 @@
+import z from "zod";
+
+export const writeClipboardInputSchema = z.object({
+  text: z.string(),
+  /** Editor data for pasting back into this app; other apps only see `text` */
+  data: z.string().optional(),
+});
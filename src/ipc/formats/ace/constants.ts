@@ -17,8 +17,8 @@ export function itemTypeForCode(code: number): ChecklistItemType {
       return ChecklistItemType.Caution;
     case 0x6e: // 'n'
       return ChecklistItemType.Note;
-    case 0x70: // 'p' - plaintext maps to Note in our model
-      return ChecklistItemType.Note;
+    case 0x70: // 'p'
+      return ChecklistItemType.PlainText;
     case 0x63: // 'c'
       return ChecklistItemType.ChallengeOnly;
     case 0x72: // 'r'
@@ -39,6 +39,8 @@ export function codeForItemType(type: ChecklistItemType): number {
       return 0x61; // 'a'
     case ChecklistItemType.Note:
       return 0x6e; // 'n'
+    case ChecklistItemType.PlainText:
+      return 0x70; // 'p'
     case ChecklistItemType.ChallengeOnly:
       return 0x63; // 'c'
     case ChecklistItemType.ChallengeResponse:
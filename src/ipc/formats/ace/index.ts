@@ -1,9 +1,11 @@
 import type { FormatParser } from "../types";
 import { readAce } from "./reader";
+import { validateAce } from "./validator";
 import { writeAce } from "./writer";
 
 /** Garmin ACE binary format parser (.ace) */
 export const aceParser: FormatParser = {
   parse: readAce,
   serialize: writeAce,
+  validate: validateAce,
 };
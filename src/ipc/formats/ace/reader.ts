@@ -81,10 +81,18 @@ export function readAce(buf: Buffer, fileName: string): ParsedChecklistFile {
 
   // --- item reader ---
 
-  function readItem(): ChecklistItem | null {
-    // Empty line = space item, skip it
+  function readItem(): ChecklistItem {
+    // Empty line = space item
     if (consumeLine("")) {
-      return null;
+      return {
+        id: crypto.randomUUID(),
+        type: ChecklistItemType.Space,
+        challengeText: "",
+        responseText: "",
+        indent: 0,
+        centered: false,
+        collapsible: false,
+      };
     }
 
     const typeCode = readBytes(1)[0];
@@ -131,8 +139,7 @@ export function readAce(buf: Buffer, fileName: string): ParsedChecklistFile {
     const items: ChecklistItem[] = [];
 
     while (!consumeLine(C.CHECKLIST_END)) {
-      const item = readItem();
-      if (item) items.push(item);
+      items.push(readItem());
     }
 
     return { id: crypto.randomUUID(), name: title, items };
@@ -170,9 +177,9 @@ export function readAce(buf: Buffer, fileName: string): ParsedChecklistFile {
     throw new Error(`ACE: unexpected file header in ${fileName}`);
   }
 
-  // Default group/checklist indices (skip)
-  readBytes(1); // defaultGroup
-  readBytes(1); // defaultChecklist
+  // Default group/checklist indices
+  const defaultGroupIndex = readBytes(1)[0];
+  const defaultChecklistIndex = readBytes(1)[0];
   if (!consumeLine("")) {
     throw new Error("ACE: unexpected header ending");
   }
@@ -193,6 +200,10 @@ export function readAce(buf: Buffer, fileName: string): ParsedChecklistFile {
     groups.push(readGroup());
   }
 
+  const defaultChecklist =
+    groups[defaultGroupIndex]?.checklists[defaultChecklistIndex];
+  if (defaultChecklist) defaultChecklist.isDefault = true;
+
   // Verify CRC
   const crcBytes = buf.subarray(offset, offset + 4);
   if (crcBytes.length === 4) {
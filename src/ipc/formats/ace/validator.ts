@@ -0,0 +1,91 @@
+import { ChecklistItemType } from "@/types/checklist";
+import type { ChecklistFile } from "@/types/checklist";
+import type { FormatDiagnostic } from "../types";
+import {
+  createDiagnostics,
+  forEachItem,
+  reportLiveDataTokens,
+  reportUnsupportedCategories,
+} from "../validation";
+
+/** ACE files are latin1 encoded — anything above U+00FF is lost */
+function hasNonLatin1(text: string): boolean {
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) > 0xff) return true;
+  }
+  return false;
+}
+
+/**
+ * Report what `writeAce` drops or alters for a file.
+ */
+export function validateAce(file: ChecklistFile): FormatDiagnostic[] {
+  const report = createDiagnostics();
+
+  for (const group of file.groups) {
+    if (
+      group.checklists.length === 0 ||
+      group.checklists.every((cl) => cl.items.length === 0)
+    ) {
+      report.atGroup(
+        group,
+        "warning",
+        group.checklists.some((cl) => cl.isDefault)
+          ? `Group "${group.name}" has no items and will be skipped; the G3X will open on the first checklist instead`
+          : `Group "${group.name}" has no items and will be skipped`,
+      );
+      continue;
+    }
+
+    for (const checklist of group.checklists) {
+      if (checklist.items.length === 0) {
+        report.atChecklist(
+          group,
+          checklist,
+          "warning",
+          checklist.isDefault
+            ? `Checklist "${checklist.name}" is empty and will be skipped; the G3X will open on the first checklist instead`
+            : `Checklist "${checklist.name}" is empty and will be skipped`,
+        );
+      }
+    }
+  }
+
+  reportUnsupportedCategories(file, report, "Garmin ACE");
+  reportLiveDataTokens(file, report, "Garmin ACE");
+
+  forEachItem(file, (group, checklist, item) => {
+    if (
+      item.type === ChecklistItemType.ChallengeResponse &&
+      item.challengeText.includes("~")
+    ) {
+      report.atItem(
+        group,
+        checklist,
+        item,
+        "warning",
+        'Challenge text contains "~", which ACE uses as the response separator',
+      );
+    }
+    if (hasNonLatin1(item.challengeText) || hasNonLatin1(item.responseText)) {
+      report.atItem(
+        group,
+        checklist,
+        item,
+        "warning",
+        "Text contains characters that cannot be encoded in latin1",
+      );
+    }
+    if (item.centered && item.indent > 0) {
+      report.atItem(
+        group,
+        checklist,
+        item,
+        "info",
+        "Centered items cannot be indented; indent will be dropped",
+      );
+    }
+  });
+
+  return report.diagnostics;
+}
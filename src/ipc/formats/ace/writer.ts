@@ -25,7 +25,7 @@ export function writeAce(file: ChecklistFile): Buffer {
 
   // Header
   addBuf(C.HEADER);
-  addBytes(0, 0); // defaultGroupIndex, defaultChecklistIndex
+  addBytes(...defaultIndices(file)); // defaultGroupIndex, defaultChecklistIndex
   addLine();
 
   // Metadata (5 lines) — Garmin's editor considers file corrupt if any are empty
@@ -56,6 +56,12 @@ export function writeAce(file: ChecklistFile): Buffer {
       addLine(checklist.name);
 
       for (const item of checklist.items) {
+        // A space item is an empty line
+        if (item.type === ChecklistItemType.Space) {
+          addLine();
+          continue;
+        }
+
         const typeCode = C.codeForItemType(item.type);
         let indentCode = item.indent + 0x30;
         if (item.centered) {
@@ -86,3 +92,18 @@ export function writeAce(file: ChecklistFile): Buffer {
 
   return Buffer.concat([content, crcBuf]);
 }
+
+/**
+ * Position of the default checklist among the groups and checklists that are
+ * written, or the first checklist when none is set or it is skipped as empty.
+ */
+function defaultIndices(file: ChecklistFile): [number, number] {
+  const writtenGroups = file.groups
+    .map((group) => group.checklists.filter((cl) => cl.items.length > 0))
+    .filter((checklists) => checklists.length > 0);
+  for (const [groupIndex, checklists] of writtenGroups.entries()) {
+    const checklistIndex = checklists.findIndex((cl) => cl.isDefault);
+    if (checklistIndex !== -1) return [groupIndex, checklistIndex];
+  }
+  return [0, 0];
+}
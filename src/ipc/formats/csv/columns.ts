@@ -0,0 +1,135 @@
+import { ChecklistFormat } from "@/types/checklist";
+import type { ChecklistFile, FormatExtensions } from "@/types/checklist";
+
+/** Checklist fields a spreadsheet column can map to, in default column order */
+export const CSV_COLUMNS = [
+  "group",
+  "category",
+  "checklist",
+  "type",
+  "challenge",
+  "response",
+  "indent",
+  "centered",
+  "collapsible",
+] as const;
+
+export type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+/** Header names (lower case, letters and digits only) read as each column */
+const COLUMN_ALIASES: Record<CsvColumn, string[]> = {
+  group: ["group", "groupname", "section"],
+  category: ["category", "groupcategory", "groupkind"],
+  checklist: ["checklist", "checklistname", "list", "procedure"],
+  type: ["type", "itemtype", "kind"],
+  challenge: ["challenge", "challengetext", "prompt", "item", "step", "action"],
+  response: [
+    "response",
+    "responsetext",
+    "expectation",
+    "expected",
+    "result",
+    "value",
+  ],
+  indent: ["indent", "level", "depth"],
+  centered: ["centered", "centred", "center", "centre"],
+  collapsible: ["collapsible", "collapse"],
+};
+
+/** A column of the file and the header it was read with */
+export interface CsvLayoutColumn {
+  column: CsvColumn;
+  header: string;
+}
+
+/** How a CSV file lays out its columns, kept so export writes the same layout */
+export interface CsvFileExtension {
+  delimiter: string;
+  columns: CsvLayoutColumn[];
+}
+
+export const DEFAULT_CSV_LAYOUT: CsvFileExtension = {
+  delimiter: ",",
+  columns: CSV_COLUMNS.map((column) => ({ column, header: column })),
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Map a header row to checklist fields. Each field takes the first header
+ * that names it, in `layout` when given (a mapping the user picked, or the
+ * one a file was read with) and by its aliases otherwise; headers that name
+ * nothing, or a field already taken, are returned as unmapped.
+ */
+export function mapColumns(
+  headers: string[],
+  layout?: CsvLayoutColumn[],
+): {
+  /** The field read from each column, or null for an ignored column */
+  mapping: (CsvColumn | null)[];
+  unmapped: string[];
+} {
+  const taken = new Set<CsvColumn>();
+  const unmapped: string[] = [];
+  const mapping = headers.map((header) => {
+    const key = normalizeHeader(header);
+    const column = layout
+      ? layout.find((c) => !taken.has(c.column) && c.header === header)?.column
+      : CSV_COLUMNS.find(
+          (c) => !taken.has(c) && COLUMN_ALIASES[c].includes(key),
+        );
+    if (!column) {
+      if (header.trim()) unmapped.push(header.trim());
+      return null;
+    }
+    taken.add(column);
+    return column;
+  });
+  return { mapping, unmapped };
+}
+
+function isDefaultLayout(layout: CsvFileExtension): boolean {
+  return (
+    layout.delimiter === DEFAULT_CSV_LAYOUT.delimiter &&
+    layout.columns.length === DEFAULT_CSV_LAYOUT.columns.length &&
+    layout.columns.every(
+      ({ column, header }, i) =>
+        column === CSV_COLUMNS[i] && header === CSV_COLUMNS[i],
+    )
+  );
+}
+
+/** An extension bag holding `layout`, or nothing for the default layout */
+export function csvExtensions(layout: CsvFileExtension): {
+  extensions?: FormatExtensions;
+} {
+  return isDefaultLayout(layout)
+    ? {}
+    : { extensions: { [ChecklistFormat.Csv]: { ...layout } } };
+}
+
+/** The delimiter a file written to `filePath` uses: tab for .tsv, else comma */
+export function csvDelimiterFor(filePath: string): string {
+  return /\.tsv$/i.test(filePath) ? "\t" : DEFAULT_CSV_LAYOUT.delimiter;
+}
+
+/** The layout a file was read with, or the default one */
+export function getCsvLayout(
+  extensions: FormatExtensions | undefined,
+): CsvFileExtension {
+  return (
+    (extensions?.[ChecklistFormat.Csv] as CsvFileExtension | undefined) ??
+    DEFAULT_CSV_LAYOUT
+  );
+}
+
+/** The columns a CSV file was read with, to read it back from disk the same way */
+export function csvLayoutOf(
+  file: Pick<ChecklistFile, "format" | "extensions">,
+): CsvLayoutColumn[] | undefined {
+  return file.format === ChecklistFormat.Csv
+    ? getCsvLayout(file.extensions).columns
+    : undefined;
+}
@@ -0,0 +1,73 @@
+/** Delimiters recognized when reading, in order of preference on a tie */
+const DELIMITERS = [",", "\t", ";"];
+
+/**
+ * Split delimited text into rows of cells (RFC 4180): fields may be quoted,
+ * quotes inside them are doubled, and quoted fields may span lines.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') {
+        cell += ch;
+      } else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) throw new Error("Unterminated quoted field at end of file");
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** The delimiter used most often on the first line, outside quotes */
+export function detectDelimiter(text: string): string {
+  const counts = new Map(DELIMITERS.map((d) => [d, 0]));
+  let quoted = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && (ch === "\n" || ch === "\r")) break;
+    else if (!quoted && counts.has(ch)) counts.set(ch, counts.get(ch)! + 1);
+  }
+  let best = DELIMITERS[0];
+  for (const d of DELIMITERS) {
+    if (counts.get(d)! > counts.get(best)!) best = d;
+  }
+  return best;
+}
+
+/** One row of delimited text, quoting only the cells that need it */
+export function formatDelimitedRow(cells: string[], delimiter: string): string {
+  return cells
+    .map((cell) =>
+      cell.includes(delimiter) || /["\r\n]/.test(cell) || cell !== cell.trim()
+        ? `"${cell.replace(/"/g, '""')}"`
+        : cell,
+    )
+    .join(delimiter);
+}
@@ -0,0 +1,23 @@
+import type { FormatParser } from "../types";
+import { readCsv } from "./reader";
+import { validateCsv } from "./validator";
+import { writeCsv } from "./writer";
+
+export {
+  CSV_COLUMNS,
+  csvDelimiterFor,
+  csvLayoutOf,
+  getCsvLayout,
+} from "./columns";
+export type { CsvColumn, CsvLayoutColumn } from "./columns";
+export { previewCsv, readCsv } from "./reader";
+export type { CsvPreview } from "./reader";
+
+/** CSV / TSV spreadsheet format parser (.csv, .tsv) */
+export const csvParser: FormatParser = {
+  parse(content, fileName) {
+    return readCsv(content.toString("utf-8"), fileName);
+  },
+  serialize: writeCsv,
+  validate: validateCsv,
+};
@@ -0,0 +1,235 @@
+import {
+  ChecklistFormat,
+  ChecklistGroupCategory,
+  ChecklistItemType,
+} from "@/types/checklist";
+import type { Checklist, ChecklistGroup } from "@/types/checklist";
+import type { ParsedChecklistFile } from "../types";
+import { csvExtensions, mapColumns } from "./columns";
+import type { CsvColumn, CsvLayoutColumn } from "./columns";
+import { detectDelimiter, parseDelimited } from "./delimited";
+
+/** Group name used when the file has no group column */
+export const DEFAULT_CSV_GROUP = "Checklists";
+
+/** Type cells (lower case, letters only) and the item type each reads as */
+const TYPE_NAMES: Record<string, ChecklistItemType> = {
+  challengeresponse: ChecklistItemType.ChallengeResponse,
+  cr: ChecklistItemType.ChallengeResponse,
+  challengeonly: ChecklistItemType.ChallengeOnly,
+  challenge: ChecklistItemType.ChallengeOnly,
+  co: ChecklistItemType.ChallengeOnly,
+  title: ChecklistItemType.Title,
+  titlesection: ChecklistItemType.Title,
+  section: ChecklistItemType.Title,
+  note: ChecklistItemType.Note,
+  warning: ChecklistItemType.Warning,
+  caution: ChecklistItemType.Caution,
+  space: ChecklistItemType.Space,
+  blank: ChecklistItemType.Space,
+  plaintext: ChecklistItemType.PlainText,
+  text: ChecklistItemType.PlainText,
+};
+
+const TRUE_CELLS = ["true", "yes", "y", "1", "x"];
+
+/** Rows shown under the headers when previewing a file's columns */
+const PREVIEW_ROWS = 5;
+
+/** A CSV file's header row and first rows, to map its columns before reading */
+export interface CsvPreview {
+  headers: string[];
+  rows: string[][];
+  /** The field each column maps to by its header name, or null */
+  mapping: (CsvColumn | null)[];
+}
+
+/** The delimiter, header row and data rows of a file, skipping blank rows */
+function readTable(content: string) {
+  const text = content.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(text);
+  const [headers, ...rows] = parseDelimited(text, delimiter).filter((row) =>
+    row.some((cell) => cell.trim()),
+  );
+  if (!headers) throw new Error("CSV file is empty");
+  return { delimiter, headers, rows };
+}
+
+/** The header row and first rows of `content`, with the columns mapped by name */
+export function previewCsv(content: string): CsvPreview {
+  const { headers, rows } = readTable(content);
+  return {
+    headers,
+    rows: rows.slice(0, PREVIEW_ROWS),
+    mapping: mapColumns(headers).mapping,
+  };
+}
+
+/**
+ * Read a CSV or TSV spreadsheet export: one row per item under a header row
+ * naming the columns. A row whose item cells are all empty only declares its
+ * group or checklist, which keeps empty ones. Consecutive rows with the same
+ * group (and category) and checklist belong together.
+ *
+ * Columns are matched to fields by header name unless `layout` says which
+ * header holds which field.
+ */
+export function readCsv(
+  content: string,
+  fileName: string,
+  layout?: CsvLayoutColumn[],
+): ParsedChecklistFile {
+  const { delimiter, headers, rows } = readTable(content);
+
+  const warnings: string[] = [];
+  const { mapping, unmapped } = mapColumns(headers, layout);
+  if (!mapping.includes("challenge")) {
+    throw new Error(
+      layout
+        ? 'No column is mapped to "challenge"; pick the column holding the item text'
+        : 'No "challenge" column found in the header row; name the item text column "Challenge"',
+    );
+  }
+  // Columns left out of a given layout were ignored on purpose
+  if (!layout) {
+    for (const header of unmapped) {
+      warnings.push(
+        `Column "${header}" does not match a checklist field and was ignored`,
+      );
+    }
+  }
+
+  const warnOnce = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+  const cellOf = (row: string[], column: CsvColumn) => {
+    const index = mapping.indexOf(column);
+    return index === -1 ? "" : (row[index] ?? "");
+  };
+
+  const groups: ChecklistGroup[] = [];
+  let group: ChecklistGroup | undefined;
+  let checklist: Checklist | undefined;
+
+  rows.forEach((row, i) => {
+    const rowNumber = i + 2;
+    const groupName = mapping.includes("group")
+      ? cellOf(row, "group")
+      : DEFAULT_CSV_GROUP;
+    const category = readCategory(cellOf(row, "category"), warnOnce);
+    if (!group || group.name !== groupName || group.category !== category) {
+      group = {
+        id: crypto.randomUUID(),
+        name: groupName,
+        category,
+        checklists: [],
+      };
+      groups.push(group);
+      checklist = undefined;
+    }
+
+    const checklistName = mapping.includes("checklist")
+      ? cellOf(row, "checklist")
+      : fileName;
+    if (!checklist || checklist.name !== checklistName) {
+      // A group-only row leaves the group empty
+      if (!mapping.includes("checklist") || checklistName || hasItem(row)) {
+        checklist = { id: crypto.randomUUID(), name: checklistName, items: [] };
+        group.checklists.push(checklist);
+      }
+    }
+    if (!checklist || !hasItem(row)) return;
+
+    const challengeText = cellOf(row, "challenge");
+    const responseText = cellOf(row, "response");
+    const type = readType(
+      cellOf(row, "type"),
+      responseText,
+      rowNumber,
+      warnOnce,
+    );
+    checklist.items.push({
+      id: crypto.randomUUID(),
+      type,
+      challengeText,
+      responseText,
+      indent: readIndent(cellOf(row, "indent"), rowNumber, warnOnce),
+      centered: readBoolean(cellOf(row, "centered")),
+      collapsible: readBoolean(cellOf(row, "collapsible")),
+    });
+  });
+
+  function hasItem(row: string[]): boolean {
+    return (["type", "challenge", "response"] as const).some((column) =>
+      cellOf(row, column).trim(),
+    );
+  }
+
+  return {
+    name: fileName,
+    format: ChecklistFormat.Csv,
+    filePath: undefined,
+    groups,
+    metadata: { aircraftRegistration: "", makeModel: "", copyright: "" },
+    ...csvExtensions({
+      delimiter,
+      columns: mapping.flatMap((column, i) =>
+        column ? [{ column, header: headers[i] }] : [],
+      ),
+    }),
+    ...(warnings.length ? { warnings } : {}),
+  };
+}
+
+function readType(
+  cell: string,
+  responseText: string,
+  rowNumber: number,
+  warn: (message: string) => void,
+): ChecklistItemType {
+  const fallback = responseText
+    ? ChecklistItemType.ChallengeResponse
+    : ChecklistItemType.ChallengeOnly;
+  const key = cell.toLowerCase().replace(/[^a-z]/g, "");
+  if (!key) return fallback;
+  const type = TYPE_NAMES[key];
+  if (!type) {
+    warn(
+      `Unknown item type "${cell.trim()}" (row ${rowNumber}) was read as ${fallback === ChecklistItemType.ChallengeResponse ? "challenge/response" : "challenge only"}`,
+    );
+  }
+  return type ?? fallback;
+}
+
+function readCategory(
+  cell: string,
+  warn: (message: string) => void,
+): ChecklistGroupCategory {
+  const key = cell.trim().toLowerCase();
+  if (!key) return ChecklistGroupCategory.Normal;
+  const category = Object.values(ChecklistGroupCategory).find((c) => c === key);
+  if (!category)
+    warn(`Unknown group category "${cell.trim()}" was read as normal`);
+  return category ?? ChecklistGroupCategory.Normal;
+}
+
+function readIndent(
+  cell: string,
+  rowNumber: number,
+  warn: (message: string) => void,
+): 0 | 1 | 2 | 3 {
+  if (!cell.trim()) return 0;
+  const indent = Number(cell.trim());
+  if (Number.isInteger(indent) && indent >= 0 && indent <= 3) {
+    return indent as 0 | 1 | 2 | 3;
+  }
+  const clamped = Number.isFinite(indent)
+    ? (Math.min(Math.max(Math.round(indent), 0), 3) as 0 | 1 | 2 | 3)
+    : 0;
+  warn(`Indent "${cell.trim()}" (row ${rowNumber}) was read as ${clamped}`);
+  return clamped;
+}
+
+function readBoolean(cell: string): boolean {
+  return TRUE_CELLS.includes(cell.trim().toLowerCase());
+}
@@ -0,0 +1,46 @@
+import type { ChecklistFile } from "@/types/checklist";
+import type { FormatDiagnostic } from "../types";
+import { createDiagnostics } from "../validation";
+
+/**
+ * Report what `writeCsv` drops or alters for a file. Rows are grouped by
+ * their group and checklist cells when read back, so neighbours with the
+ * same name merge.
+ */
+export function validateCsv(file: ChecklistFile): FormatDiagnostic[] {
+  const report = createDiagnostics();
+
+  const { aircraftRegistration, makeModel, copyright, description } =
+    file.metadata;
+  if (aircraftRegistration || makeModel || copyright || description) {
+    report.file("info", "File metadata is not stored in CSV");
+  }
+
+  file.groups.forEach((group, i) => {
+    const previous = file.groups[i - 1];
+    if (
+      previous &&
+      previous.name === group.name &&
+      previous.category === group.category
+    ) {
+      report.atGroup(
+        group,
+        "warning",
+        `Group "${group.name}" follows a group with the same name and category and will merge with it when read back`,
+      );
+    }
+
+    group.checklists.forEach((checklist, j) => {
+      if (j > 0 && group.checklists[j - 1].name === checklist.name) {
+        report.atChecklist(
+          group,
+          checklist,
+          "warning",
+          `Checklist "${checklist.name}" follows a checklist with the same name and will merge with it when read back`,
+        );
+      }
+    });
+  });
+
+  return report.diagnostics;
+}
@@ -0,0 +1,93 @@
+import { ChecklistGroupCategory, ChecklistItemType } from "@/types/checklist";
+import type { ChecklistFile, ExportOptions } from "@/types/checklist";
+import { DEFAULT_CSV_LAYOUT, getCsvLayout } from "./columns";
+import type { CsvColumn } from "./columns";
+import { formatDelimitedRow } from "./delimited";
+import { DEFAULT_CSV_GROUP } from "./reader";
+
+type CsvRow = Partial<Record<CsvColumn, string>>;
+
+/** Whether `readCsv` gets `row`'s value back for a column the file lacks */
+function readsBackWithout(
+  column: CsvColumn,
+  row: CsvRow,
+  fileName: string,
+): boolean {
+  switch (column) {
+    case "group":
+      return row.group === DEFAULT_CSV_GROUP;
+    case "category":
+      return row.category === ChecklistGroupCategory.Normal;
+    case "checklist":
+      return row.checklist === fileName;
+    case "type":
+      return (
+        !row.type ||
+        row.type ===
+          (row.response
+            ? ChecklistItemType.ChallengeResponse
+            : ChecklistItemType.ChallengeOnly)
+      );
+    case "response":
+      return !row.response;
+    case "indent":
+      return !row.indent || row.indent === "0";
+    case "centered":
+    case "collapsible":
+      return row[column] !== "TRUE";
+    case "challenge":
+      return false;
+  }
+}
+
+/**
+ * Write one row per item under a header row, in the column layout the file
+ * was read with; a column the layout lacks is added only when the file has
+ * values that would otherwise be lost. Empty checklists and groups get a
+ * row of their own so they survive a round trip. Rows are separated by
+ * `options.delimiter`, or by the one the file was read with. Starts with a
+ * byte order mark so spreadsheet tools read the text as UTF-8.
+ */
+export function writeCsv(file: ChecklistFile, options?: ExportOptions): string {
+  const layout = getCsvLayout(file.extensions);
+  const delimiter = options?.delimiter ?? layout.delimiter;
+  const rows: CsvRow[] = [];
+
+  for (const group of file.groups) {
+    const groupCells = { group: group.name, category: group.category };
+    if (group.checklists.length === 0) rows.push(groupCells);
+
+    for (const checklist of group.checklists) {
+      const checklistCells = { ...groupCells, checklist: checklist.name };
+      if (checklist.items.length === 0) rows.push(checklistCells);
+
+      for (const item of checklist.items) {
+        rows.push({
+          ...checklistCells,
+          type: item.type,
+          challenge: item.challengeText,
+          response: item.responseText,
+          indent: String(item.indent),
+          centered: item.centered ? "TRUE" : "FALSE",
+          collapsible: item.collapsible ? "TRUE" : "FALSE",
+        });
+      }
+    }
+  }
+
+  const present = new Set(layout.columns.map((c) => c.column));
+  const columns = [
+    ...layout.columns,
+    ...DEFAULT_CSV_LAYOUT.columns.filter(
+      (c) =>
+        !present.has(c.column) &&
+        rows.some((row) => !readsBackWithout(c.column, row, file.name)),
+    ),
+  ];
+
+  const lines = [
+    columns.map((c) => c.header),
+    ...rows.map((row) => columns.map((c) => row[c.column] ?? "")),
+  ].map((cells) => formatDelimitedRow(cells, delimiter));
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
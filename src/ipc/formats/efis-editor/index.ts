@@ -0,0 +1,16 @@
+import type { FormatParser } from "../types";
+import { isEfisEditorJson, readEfisEditor } from "./reader";
+import { validateEfisEditor } from "./validator";
+import { writeEfisEditor } from "./writer";
+
+export { isEfisEditorJson, readEfisEditor };
+export { EFIS_EDITOR_ITEM_TYPES } from "./schema";
+
+/** rdamazio/efis-editor web editor JSON format parser (.json) */
+export const efisEditorParser: FormatParser = {
+  parse(content, fileName) {
+    return readEfisEditor(JSON.parse(content.toString("utf-8")), fileName);
+  },
+  serialize: writeEfisEditor,
+  validate: validateEfisEditor,
+};
@@ -0,0 +1,114 @@
+import {
+  ChecklistFormat,
+  ChecklistGroupCategory,
+  ChecklistItemType,
+} from "@/types/checklist";
+import type { ChecklistItem } from "@/types/checklist";
+import type { ParsedChecklistFile } from "../types";
+import { EFIS_EDITOR_ITEM_TYPES } from "./schema";
+
+const CATEGORIES = Object.values(ChecklistGroupCategory) as string[];
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function index(value: unknown): number {
+  return typeof value === "number" && Number.isInteger(value) ? value : 0;
+}
+
+function list(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Detect whether parsed JSON uses the rdamazio/efis-editor schema.
+ *
+ * Key indicators: groups have `title` instead of `name`, items use
+ * `prompt`/`expectation` with SCREAMING_CASE type values like
+ * `ITEM_CHALLENGE_RESPONSE`, and the metadata block has `makeAndModel`
+ * or `aircraftInfo` (the only hint in a file without groups).
+ */
+export function isEfisEditorJson(raw: Record<string, unknown>): boolean {
+  const metadata = raw.metadata as Record<string, unknown> | undefined;
+  if (
+    metadata &&
+    typeof metadata === "object" &&
+    ("makeAndModel" in metadata || "aircraftInfo" in metadata)
+  )
+    return true;
+  if (!Array.isArray(raw.groups) || raw.groups.length === 0) return false;
+  const firstGroup = raw.groups[0] as Record<string, unknown>;
+  // rdamazio groups use "title" not "name"
+  if (typeof firstGroup.title === "string" && !("name" in firstGroup))
+    return true;
+  // Also check items for ITEM_ prefix types
+  const firstItem = list(list(firstGroup.checklists)[0]?.items)[0];
+  return (
+    typeof firstItem?.type === "string" && firstItem.type.startsWith("ITEM_")
+  );
+}
+
+/**
+ * Read rdamazio/efis-editor JSON into our internal model. Fields proto3
+ * leaves out at their default (empty text, indent 0, index 0) read as that
+ * default; the default group and checklist indices mark the startup
+ * checklist when they point at one.
+ */
+export function readEfisEditor(
+  raw: Record<string, unknown>,
+  fileName: string,
+): ParsedChecklistFile {
+  const metadata = (raw.metadata ?? {}) as Record<string, unknown>;
+  const defaultGroup = index(metadata.defaultGroupIndex);
+  const defaultChecklist = index(metadata.defaultChecklistIndex);
+  const manufacturerInfo = text(metadata.manufacturerInfo);
+  const description = text(metadata.description);
+
+  return {
+    name: text(metadata.name) || fileName,
+    format: ChecklistFormat.EfisEditor,
+    filePath: undefined,
+    groups: list(raw.groups).map((group, i) => ({
+      id: crypto.randomUUID(),
+      name: text(group.title),
+      category: CATEGORIES.includes(group.category as string)
+        ? (group.category as ChecklistGroupCategory)
+        : ChecklistGroupCategory.Normal,
+      checklists: list(group.checklists).map((checklist, j) => ({
+        id: crypto.randomUUID(),
+        name: text(checklist.title),
+        ...(i === defaultGroup && j === defaultChecklist
+          ? { isDefault: true }
+          : {}),
+        items: list(checklist.items).map((item) => ({
+          id: crypto.randomUUID(),
+          type:
+            EFIS_EDITOR_ITEM_TYPES[item.type as string] ??
+            ChecklistItemType.ChallengeResponse,
+          challengeText: text(item.prompt),
+          responseText: text(item.expectation),
+          indent: Math.min(
+            Math.max(index(item.indent), 0),
+            3,
+          ) as ChecklistItem["indent"],
+          centered: item.centered === true,
+          collapsible: false,
+        })),
+      })),
+    })),
+    metadata: {
+      aircraftRegistration: text(metadata.aircraftInfo),
+      makeModel: text(metadata.makeAndModel),
+      copyright: text(metadata.copyrightInfo),
+      ...(description ? { description } : {}),
+    },
+    ...(manufacturerInfo
+      ? {
+          extensions: {
+            [ChecklistFormat.EfisEditor]: { manufacturerInfo },
+          },
+        }
+      : {}),
+  };
+}
@@ -0,0 +1,23 @@
+import { ChecklistItemType } from "@/types/checklist";
+
+/** rdamazio/efis-editor item type strings and the item type each reads as */
+export const EFIS_EDITOR_ITEM_TYPES: Record<string, ChecklistItemType> = {
+  ITEM_CHALLENGE_RESPONSE: ChecklistItemType.ChallengeResponse,
+  ITEM_CHALLENGE: ChecklistItemType.ChallengeOnly,
+  ITEM_TITLE: ChecklistItemType.Title,
+  ITEM_PLAINTEXT: ChecklistItemType.PlainText,
+  ITEM_NOTE: ChecklistItemType.Note,
+  ITEM_WARNING: ChecklistItemType.Warning,
+  ITEM_CAUTION: ChecklistItemType.Caution,
+  ITEM_SPACE: ChecklistItemType.Space,
+};
+
+/** The type string written for each item type */
+export const EFIS_EDITOR_TYPE_NAMES = Object.fromEntries(
+  Object.entries(EFIS_EDITOR_ITEM_TYPES).map(([name, type]) => [type, name]),
+) as Record<ChecklistItemType, string>;
+
+/** Metadata fields the efis-editor keeps that have no field in our model */
+export interface EfisEditorFileExtension {
+  manufacturerInfo?: string;
+}
@@ -0,0 +1,31 @@
+import type { ChecklistFile } from "@/types/checklist";
+import type { FormatDiagnostic } from "../types";
+import {
+  createDiagnostics,
+  forEachItem,
+  reportLiveDataTokens,
+} from "../validation";
+
+/**
+ * Report what `writeEfisEditor` drops or alters for a file. The schema has
+ * every item type and group category, so little is lost.
+ */
+export function validateEfisEditor(file: ChecklistFile): FormatDiagnostic[] {
+  const report = createDiagnostics();
+
+  reportLiveDataTokens(file, report, "efis-editor");
+
+  forEachItem(file, (group, checklist, item) => {
+    if (item.collapsible) {
+      report.atItem(
+        group,
+        checklist,
+        item,
+        "info",
+        "efis-editor has no collapsible items; this item will always be expanded",
+      );
+    }
+  });
+
+  return report.diagnostics;
+}
@@ -0,0 +1,58 @@
+import { ChecklistFormat } from "@/types/checklist";
+import type { ChecklistFile, ChecklistItem } from "@/types/checklist";
+import { EFIS_EDITOR_TYPE_NAMES } from "./schema";
+import type { EfisEditorFileExtension } from "./schema";
+
+/** Group and checklist index of the startup checklist; the first when none is set */
+function defaultIndices(file: ChecklistFile): [number, number] {
+  for (const [i, group] of file.groups.entries()) {
+    const j = group.checklists.findIndex((checklist) => checklist.isDefault);
+    if (j !== -1) return [i, j];
+  }
+  return [0, 0];
+}
+
+/** An item the way the efis-editor writes it: fields at their default are left out */
+function writeItem(item: ChecklistItem): Record<string, unknown> {
+  return {
+    type: EFIS_EDITOR_TYPE_NAMES[item.type],
+    ...(item.challengeText ? { prompt: item.challengeText } : {}),
+    ...(item.responseText ? { expectation: item.responseText } : {}),
+    ...(item.indent ? { indent: item.indent } : {}),
+    ...(item.centered ? { centered: true } : {}),
+  };
+}
+
+/**
+ * Write the rdamazio/efis-editor JSON schema. Titles and the metadata block
+ * are always written, even when empty, so the file is recognized on import.
+ */
+export function writeEfisEditor(file: ChecklistFile): string {
+  const extension = file.extensions?.[ChecklistFormat.EfisEditor] as
+    | EfisEditorFileExtension
+    | undefined;
+  const [defaultGroupIndex, defaultChecklistIndex] = defaultIndices(file);
+
+  const data = {
+    groups: file.groups.map((group) => ({
+      title: group.name,
+      category: group.category,
+      checklists: group.checklists.map((checklist) => ({
+        title: checklist.name,
+        items: checklist.items.map(writeItem),
+      })),
+    })),
+    metadata: {
+      name: file.name,
+      description: file.metadata.description ?? "",
+      makeAndModel: file.metadata.makeModel,
+      aircraftInfo: file.metadata.aircraftRegistration,
+      manufacturerInfo: extension?.manufacturerInfo ?? "",
+      copyrightInfo: file.metadata.copyright,
+      defaultGroupIndex,
+      defaultChecklistIndex,
+    },
+  };
+
+  return JSON.stringify(data, null, 2);
+}
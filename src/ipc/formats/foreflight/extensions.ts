@@ -0,0 +1,102 @@
+import { ChecklistFormat } from "@/types/checklist";
+import type { FormatExtensions } from "@/types/checklist";
+import { getItemTypePrefix, multilineNoteToItems } from "../format-utils";
+
+/**
+ * What the ForeFlight reader keeps for its writer. `fields` holds the keys
+ * of an object the reader does not map (objectId, anything newer apps add);
+ * the raw texts are the originals of fields the reader rewrites.
+ */
+export interface ForeFlightFileExtension {
+  container?: Record<string, unknown>;
+  payload?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+  /** Unmapped fields of each top-level group, by our category */
+  categories?: Record<string, Record<string, unknown> | undefined>;
+  tailNumber?: string;
+}
+
+export interface ForeFlightObjectExtension {
+  fields?: Record<string, unknown>;
+}
+
+export interface ForeFlightItemExtension extends ForeFlightObjectExtension {
+  detail?: string;
+  note?: string;
+}
+
+/** The keys of `raw` not in `known`, or undefined when there are none */
+export function unknownFields(
+  raw: object,
+  known: readonly string[],
+): Record<string, unknown> | undefined {
+  const entries = Object.entries(raw).filter(([key]) => !known.includes(key));
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/** An extension bag holding `data` for ForeFlight, or nothing when it is empty */
+export function foreflightExtensions(data: object): {
+  extensions?: FormatExtensions;
+} {
+  const defined = Object.entries(data).filter(([, v]) => v !== undefined);
+  return defined.length > 0
+    ? {
+        extensions: {
+          [ChecklistFormat.ForeFlight]: Object.fromEntries(defined),
+        },
+      }
+    : {};
+}
+
+/** The ForeFlight data of an extension bag */
+export function getForeFlightExtension<T>(
+  extensions: FormatExtensions | undefined,
+): T | undefined {
+  return extensions?.[ChecklistFormat.ForeFlight] as T | undefined;
+}
+
+function withoutObjectId(
+  fields: Record<string, unknown> | undefined,
+): Record<string, unknown> | undefined {
+  if (fields?.objectId === undefined) return fields;
+  const rest = { ...fields };
+  delete rest.objectId;
+  return rest;
+}
+
+/**
+ * An extension bag of a file or of any object in it without the ForeFlight
+ * objectIds, for a copy that must not share them with its source
+ */
+export function withoutObjectIds<T extends FormatExtensions>(
+  extensions: T | undefined,
+): T | undefined {
+  const data = getForeFlightExtension<
+    ForeFlightFileExtension & ForeFlightObjectExtension
+  >(extensions);
+  if (!extensions || !data) return extensions;
+  const categories =
+    data.categories &&
+    Object.fromEntries(
+      Object.entries(data.categories).map(([category, fields]) => [
+        category,
+        withoutObjectId(fields),
+      ]),
+    );
+  return {
+    ...extensions,
+    [ChecklistFormat.ForeFlight]: {
+      ...data,
+      payload: withoutObjectId(data.payload),
+      categories,
+      fields: withoutObjectId(data.fields),
+    },
+  };
+}
+
+/** Note or detail text as the writer rebuilds it from the items it was read into */
+export function normalizeNoteText(text: string): string {
+  return multilineNoteToItems(text, false)
+    .map((n) => getItemTypePrefix(n.type) + n.challengeText)
+    .join("\n");
+}
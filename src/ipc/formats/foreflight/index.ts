@@ -1,9 +1,11 @@
 import type { FormatParser } from "../types";
 import { readForeFlight } from "./reader";
+import { validateForeFlight } from "./validator";
 import { writeForeFlight } from "./writer";
 
 /** ForeFlight encrypted format parser (.fmd) */
 export const foreflightParser: FormatParser = {
   parse: readForeFlight,
   serialize: writeForeFlight,
+  validate: validateForeFlight,
 };
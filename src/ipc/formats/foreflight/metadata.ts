@@ -0,0 +1,41 @@
+import type { ChecklistFileMetadata } from "@/types/checklist";
+
+/** A detail line that already reads as a copyright notice */
+const COPYRIGHT_LINE = /^(©|\(c\)|copyright\b)/i;
+
+type DetailFields = Pick<
+  ChecklistFileMetadata,
+  "makeModel" | "description" | "copyright"
+>;
+
+/** The copyright notice as written, marked with "©" unless it already reads as one */
+export function copyrightLine(copyright: string): string {
+  return COPYRIGHT_LINE.test(copyright) ? copyright : `© ${copyright}`;
+}
+
+/**
+ * ForeFlight metadata has a single free-text `detail`. It carries the make
+ * and model on its first line, then the description, then the copyright
+ * notice as a last line starting with "©".
+ */
+export function metadataToDetail(metadata: DetailFields): string {
+  const lines = [metadata.makeModel];
+  if (metadata.description) lines.push(metadata.description);
+  if (metadata.copyright) lines.push(copyrightLine(metadata.copyright));
+  return lines.join("\n");
+}
+
+/** Split a ForeFlight `detail` back into the fields `metadataToDetail` joins */
+export function detailToMetadata(detail: string): DetailFields {
+  const [makeModel, ...rest] = detail.split(/\r?\n/);
+  const copyright =
+    rest.length > 0 && COPYRIGHT_LINE.test(rest[rest.length - 1])
+      ? rest.pop()!
+      : "";
+  const description = rest.join("\n");
+  return {
+    makeModel,
+    copyright,
+    ...(description ? { description } : {}),
+  };
+}
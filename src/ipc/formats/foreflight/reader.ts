@@ -11,6 +11,16 @@ import type {
 import { multilineNoteToItems } from "../format-utils";
 import type { ParsedChecklistFile } from "../types";
 import { decrypt } from "./crypto";
+import { detailToMetadata } from "./metadata";
+import {
+  foreflightExtensions,
+  normalizeNoteText,
+  unknownFields,
+} from "./extensions";
+import type {
+  ForeFlightFileExtension,
+  ForeFlightItemExtension,
+} from "./extensions";
 
 /** ForeFlight container constants */
 const CONTAINER_TYPE = "checklist";
@@ -61,8 +71,17 @@ function mapCategory(groupType: string): ChecklistGroupCategory {
   }
 }
 
+/** Whether `version` ("major.minor") is later than the one this reader knows */
+function isNewerSchema(version: string): boolean {
+  const [major, minor] = version.split(".").map(Number);
+  const [knownMajor, knownMinor] = SCHEMA_VERSION.split(".").map(Number);
+  return major > knownMajor || (major === knownMajor && minor > knownMinor);
+}
+
 /**
  * Parse a ForeFlight .fmd file buffer into internal model.
+ *
+ * Newer schema versions are read as far as they match 1.0, with a warning.
  */
 export function readForeFlight(
   content: Buffer,
@@ -77,9 +96,14 @@ export function readForeFlight(
   if (!container.payload) {
     throw new Error("ForeFlight: missing payload");
   }
-  if (container.payload.schemaVersion !== SCHEMA_VERSION) {
-    throw new Error(
-      `ForeFlight: unknown schema version '${container.payload.schemaVersion}'`,
+  const warnings: string[] = [];
+  const { schemaVersion } = container.payload;
+  if (schemaVersion !== SCHEMA_VERSION) {
+    if (!isNewerSchema(String(schemaVersion))) {
+      throw new Error(`ForeFlight: unknown schema version '${schemaVersion}'`);
+    }
+    warnings.push(
+      `ForeFlight schema version ${schemaVersion} is newer than ${SCHEMA_VERSION}; fields this editor does not know are kept but not shown, and export writes version ${SCHEMA_VERSION}`,
     );
   }
 
@@ -87,9 +111,11 @@ export function readForeFlight(
   const name = metadata?.name || fileName.replace(/\.fmd$/i, "") || fileName;
 
   const groups: ChecklistGroup[] = [];
+  const categories: Record<string, Record<string, unknown> | undefined> = {};
 
   for (const ffGroup of container.payload.groups) {
     const category = mapCategory(ffGroup.groupType);
+    categories[category] ??= unknownFields(ffGroup, ["items"]);
     for (const subgroup of ffGroup.items) {
       const checklists: Checklist[] = subgroup.items.map((ffChecklist) =>
         convertChecklist(ffChecklist),
@@ -100,11 +126,31 @@ export function readForeFlight(
           name: subgroup.title,
           category,
           checklists,
+          ...foreflightExtensions({
+            fields: unknownFields(subgroup, ["title", "items"]),
+          }),
         });
       }
     }
   }
 
+  const tailNumber = metadata?.tailNumber;
+  const fileExtension: ForeFlightFileExtension = {
+    container: unknownFields(container, ["type", "payload"]),
+    payload: unknownFields(container.payload, [
+      "schemaVersion",
+      "metadata",
+      "groups",
+    ]),
+    metadata:
+      metadata && unknownFields(metadata, ["name", "detail", "tailNumber"]),
+    categories,
+    tailNumber:
+      tailNumber && tailNumber !== tailNumber.toUpperCase()
+        ? tailNumber
+        : undefined,
+  };
+
   return {
     name,
     format: ChecklistFormat.ForeFlight,
@@ -112,9 +158,10 @@ export function readForeFlight(
     groups,
     metadata: {
       aircraftRegistration: metadata?.tailNumber ?? "",
-      makeModel: metadata?.detail ?? "",
-      copyright: "",
+      ...detailToMetadata(metadata?.detail ?? ""),
     },
+    ...foreflightExtensions(fileExtension),
+    ...(warnings.length > 0 ? { warnings } : {}),
   };
 }
 
@@ -127,6 +174,9 @@ function convertChecklist(ffChecklist: FFChecklist): Checklist {
     id: crypto.randomUUID(),
     name: ffChecklist.title,
     items,
+    ...foreflightExtensions({
+      fields: unknownFields(ffChecklist, ["title", "items"]),
+    }),
   };
 }
 
@@ -144,7 +194,7 @@ function convertItem(ffItem: FFItem): ChecklistItem[] {
         ),
       );
     } else {
-      // Empty space — skip
+      result.push(makeItem(ChecklistItemType.Space, ""));
     }
   } else {
     // Check item
@@ -164,22 +214,44 @@ function convertItem(ffItem: FFItem): ChecklistItem[] {
   }
 
   // Handle notes attached to the item
-  const noteText = ffItem.type === ITEM_HEADER ? ffItem.detail : ffItem.note;
-  if (
-    (ffItem.type === ITEM_HEADER && ffItem.title && ffItem.detail) ||
-    ffItem.note
-  ) {
-    const text = noteText ?? "";
+  // A titled header's detail is its note; a header's `note` field stays unmapped
+  const noteText =
+    ffItem.type === ITEM_HEADER ? ffItem.title && ffItem.detail : ffItem.note;
+  if (noteText) {
     result.push(
-      ...multilineNoteToItems(text, false).map((n) =>
+      ...multilineNoteToItems(noteText, false).map((n) =>
         makeItem(n.type, n.challengeText, "", n.indent),
       ),
     );
   }
 
+  // The first item carries what the writer needs to rebuild this one as read
+  if (result.length > 0) {
+    Object.assign(result[0], foreflightExtensions(itemExtension(ffItem)));
+  }
+
   return result;
 }
 
+/** Unmapped fields of an item, plus the texts reading it alters */
+function itemExtension(ffItem: FFItem): ForeFlightItemExtension {
+  const isHeader = ffItem.type === ITEM_HEADER;
+  const { detail, note } = ffItem;
+  return {
+    fields: unknownFields(
+      ffItem,
+      isHeader ? ["type", "title", "detail"] : ["title", "detail", "note"],
+    ),
+    detail:
+      detail &&
+      detail !== (isHeader ? normalizeNoteText(detail) : detail.toUpperCase())
+        ? detail
+        : undefined,
+    note:
+      !isHeader && note && note !== normalizeNoteText(note) ? note : undefined,
+  };
+}
+
 function makeItem(
   type: ChecklistItemType,
   challengeText: string,
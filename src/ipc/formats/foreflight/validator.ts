@@ -0,0 +1,130 @@
+import { ChecklistGroupCategory, ChecklistItemType } from "@/types/checklist";
+import type { ChecklistFile, ChecklistItem } from "@/types/checklist";
+import { shouldMergeNotes } from "../format-utils";
+import type { FormatDiagnostic } from "../types";
+import {
+  createDiagnostics,
+  reportLiveDataTokens,
+  reportPlainTextFallback,
+} from "../validation";
+import { copyrightLine } from "./metadata";
+
+const NOTE_TYPES = [
+  ChecklistItemType.Note,
+  ChecklistItemType.PlainText,
+  ChecklistItemType.Caution,
+  ChecklistItemType.Warning,
+];
+
+/** Order in which `writeForeFlight` emits group categories */
+const CATEGORY_ORDER = [
+  ChecklistGroupCategory.Normal,
+  ChecklistGroupCategory.Abnormal,
+  ChecklistGroupCategory.Emergency,
+];
+
+/**
+ * Report what `writeForeFlight` drops or alters for a file.
+ */
+export function validateForeFlight(file: ChecklistFile): FormatDiagnostic[] {
+  const report = createDiagnostics();
+
+  const { aircraftRegistration, copyright } = file.metadata;
+  if (aircraftRegistration !== aircraftRegistration.toUpperCase()) {
+    report.file("info", "Tail number will be converted to uppercase");
+  }
+  if (copyright && copyrightLine(copyright) !== copyright) {
+    report.file(
+      "info",
+      `Copyright is stored in the ForeFlight detail as "${copyrightLine(copyright)}"`,
+    );
+  }
+
+  const categoryIndices = file.groups.map((g) =>
+    CATEGORY_ORDER.indexOf(g.category),
+  );
+  if (categoryIndices.some((idx, i) => i > 0 && idx < categoryIndices[i - 1])) {
+    report.file(
+      "info",
+      "ForeFlight orders groups by category (normal, abnormal, emergency); group order will change",
+    );
+  }
+
+  for (const group of file.groups) {
+    for (const checklist of group.checklists) {
+      // Last item that produced its own ForeFlight entry (notes may merge into it)
+      let lastKept: ChecklistItem | undefined;
+
+      for (const item of checklist.items) {
+        if (NOTE_TYPES.includes(item.type)) {
+          if (lastKept && shouldMergeNotes(item, lastKept)) {
+            report.atItem(
+              group,
+              checklist,
+              item,
+              "info",
+              "Will be attached as a note to the preceding item",
+            );
+          } else {
+            lastKept = item;
+            if (item.indent > 0) {
+              report.atItem(
+                group,
+                checklist,
+                item,
+                "info",
+                "ForeFlight has no indentation; item will be flattened",
+              );
+            }
+          }
+        } else {
+          lastKept = item;
+          if (item.indent > 0) {
+            report.atItem(
+              group,
+              checklist,
+              item,
+              "info",
+              "ForeFlight has no indentation; item will be flattened",
+            );
+          }
+        }
+
+        if (item.centered) {
+          report.atItem(
+            group,
+            checklist,
+            item,
+            "info",
+            "ForeFlight does not support centered items",
+          );
+        }
+
+        if (item.type === ChecklistItemType.ChallengeResponse) {
+          if (item.responseText !== item.responseText.toUpperCase()) {
+            report.atItem(
+              group,
+              checklist,
+              item,
+              "info",
+              "Response text will be converted to uppercase",
+            );
+          }
+        } else if (item.responseText) {
+          report.atItem(
+            group,
+            checklist,
+            item,
+            "warning",
+            "Response text is only exported for challenge/response items and will be dropped",
+          );
+        }
+      }
+    }
+  }
+
+  reportLiveDataTokens(file, report, "ForeFlight");
+  reportPlainTextFallback(file, report, "ForeFlight", "a note");
+
+  return report.diagnostics;
+}
@@ -1,11 +1,19 @@
 import { ChecklistGroupCategory, ChecklistItemType } from "@/types/checklist";
 import type {
+  Checklist,
   ChecklistFile,
   ChecklistGroup,
   ChecklistItem,
 } from "@/types/checklist";
 import { getItemTypePrefix, shouldMergeNotes } from "../format-utils";
 import { encrypt } from "./crypto";
+import { metadataToDetail } from "./metadata";
+import { getForeFlightExtension, normalizeNoteText } from "./extensions";
+import type {
+  ForeFlightFileExtension,
+  ForeFlightItemExtension,
+  ForeFlightObjectExtension,
+} from "./extensions";
 
 const CONTAINER_TYPE = "checklist";
 const SCHEMA_VERSION = "1.0";
@@ -19,21 +27,38 @@ interface FFItem {
   note?: string;
 }
 
+/** Returns the objectId to write for an object, given the one it was read with */
+type ObjectIds = (restored: unknown) => string;
+
 /**
  * Serialize a ChecklistFile to an encrypted ForeFlight .fmd buffer.
+ *
+ * Fields the reader kept in the extension data are written back, so a file
+ * imported from ForeFlight exports with its objectIds and any fields this
+ * editor does not know about.
  */
 export function writeForeFlight(file: ChecklistFile): Buffer {
+  const ext = getForeFlightExtension<ForeFlightFileExtension>(file.extensions);
+  const objectIds = createObjectIds();
+  const tailNumber = file.metadata.aircraftRegistration?.toUpperCase();
+
   const container = {
+    ...ext?.container,
     type: CONTAINER_TYPE,
     payload: {
-      objectId: newObjectId(),
+      ...ext?.payload,
+      objectId: objectIds(ext?.payload?.objectId),
       schemaVersion: SCHEMA_VERSION,
       metadata: {
+        ...ext?.metadata,
         name: file.name,
-        detail: file.metadata.makeModel,
-        tailNumber: file.metadata.aircraftRegistration?.toUpperCase(),
+        detail: metadataToDetail(file.metadata),
+        tailNumber:
+          ext?.tailNumber?.toUpperCase() === tailNumber
+            ? ext?.tailNumber
+            : tailNumber,
       },
-      groups: buildGroups(file.groups),
+      groups: buildGroups(file.groups, ext?.categories, objectIds),
     },
   };
 
@@ -41,7 +66,11 @@ export function writeForeFlight(file: ChecklistFile): Buffer {
   return encrypt(json);
 }
 
-function buildGroups(groups: ChecklistGroup[]): Array<{
+function buildGroups(
+  groups: ChecklistGroup[],
+  restored: ForeFlightFileExtension["categories"],
+  objectIds: ObjectIds,
+): Array<{
   objectId: string;
   groupType: string;
   items: Array<{
@@ -60,29 +89,38 @@ function buildGroups(groups: ChecklistGroup[]): Array<{
     ChecklistGroupCategory.Emergency,
   ];
 
-  return categories.map((category) => ({
-    objectId: newObjectId(),
-    groupType: categoryToString(category),
-    items: groups
-      .filter((g) => g.category === category)
-      .map((group) => ({
-        objectId: newObjectId(),
-        title: group.name,
-        items: group.checklists.map((checklist) => ({
-          objectId: newObjectId(),
-          title: checklist.name,
-          items: convertItems(checklist.items),
+  return categories.map((category) => {
+    const fields = restored?.[category];
+    return {
+      ...fields,
+      objectId: objectIds(fields?.objectId),
+      groupType:
+        typeof fields?.groupType === "string"
+          ? fields.groupType
+          : categoryToString(category),
+      items: groups
+        .filter((g) => g.category === category)
+        .map((group) => ({
+          ...restoredFields(group),
+          objectId: objectIds(restoredFields(group)?.objectId),
+          title: group.name,
+          items: group.checklists.map((checklist) => ({
+            ...restoredFields(checklist),
+            objectId: objectIds(restoredFields(checklist)?.objectId),
+            title: checklist.name,
+            items: convertItems(checklist.items, objectIds),
+          })),
         })),
-      })),
-  }));
+    };
+  });
 }
 
-function convertItems(items: ChecklistItem[]): FFItem[] {
+function convertItems(items: ChecklistItem[], objectIds: ObjectIds): FFItem[] {
   const acc: [FFItem, ChecklistItem][] = [];
 
   for (const item of items) {
     const ffItem: FFItem = {
-      objectId: newObjectId(),
+      objectId: objectIds(itemExtension(item)?.fields?.objectId),
       title: item.challengeText,
       detail: item.responseText.toUpperCase(),
     };
@@ -101,6 +139,15 @@ function convertItems(items: ChecklistItem[]): FFItem[] {
         ffItem.detail = undefined;
         break;
 
+      case ChecklistItemType.Space:
+        // Empty detail item
+        ffItem.type = ITEM_HEADER;
+        ffItem.title = undefined;
+        ffItem.detail = undefined;
+        break;
+
+      // No plain text in ForeFlight; written as a note without a prefix
+      case ChecklistItemType.PlainText:
       case ChecklistItemType.Note:
       case ChecklistItemType.Caution:
       case ChecklistItemType.Warning: {
@@ -129,7 +176,54 @@ function convertItems(items: ChecklistItem[]): FFItem[] {
     }
   }
 
-  return acc.map(([ffItem]) => ffItem);
+  return acc.map(([ffItem, item]) => restoreItem(ffItem, itemExtension(item)));
+}
+
+/**
+ * Put back what the reader kept for the item `ffItem` was built from. The
+ * original detail and note texts are used only while the items still
+ * produce the same text, so edits always win.
+ */
+function restoreItem(ffItem: FFItem, ext?: ForeFlightItemExtension): FFItem {
+  if (
+    ext?.detail !== undefined &&
+    ffItem.detail ===
+      (ffItem.type === ITEM_HEADER
+        ? normalizeNoteText(ext.detail)
+        : ext.detail.toUpperCase())
+  ) {
+    ffItem.detail = ext.detail;
+  }
+  if (ext?.note !== undefined && ffItem.note === normalizeNoteText(ext.note)) {
+    ffItem.note = ext.note;
+  }
+  return { ...ext?.fields, ...ffItem };
+}
+
+function itemExtension(item: ChecklistItem) {
+  return getForeFlightExtension<ForeFlightItemExtension>(item.extensions);
+}
+
+/** Unmapped fields the reader kept for a group or checklist */
+function restoredFields(object: ChecklistGroup | Checklist) {
+  return getForeFlightExtension<ForeFlightObjectExtension>(object.extensions)
+    ?.fields;
+}
+
+/**
+ * Each restored objectId is reused once; copies of an imported object and
+ * new objects get fresh ids.
+ */
+function createObjectIds(): ObjectIds {
+  const used = new Set<string>();
+  return (restored) => {
+    const id =
+      typeof restored === "string" && !used.has(restored)
+        ? restored
+        : newObjectId();
+    used.add(id);
+    return id;
+  };
 }
 
 function categoryToString(category: ChecklistGroupCategory): string {
@@ -59,11 +59,12 @@ export function multilineNoteToItems(
 
 /**
  * Check whether a note item should be merged into the previous item
- * (for formats like ForeFlight/Garmin Pilot that combine notes).
+ * (for formats like ForeFlight/Garmin Pilot that combine notes). Plain text
+ * is written as a note there, so it merges like one.
  */
 export function shouldMergeNotes(
-  item: ChecklistItem,
-  lastItem: ChecklistItem,
+  item: Pick<ChecklistItem, "type" | "indent">,
+  lastItem: Pick<ChecklistItem, "type" | "indent">,
   titleLikeTypes: ChecklistItemType[] = [
     ChecklistItemType.Title,
     ChecklistItemType.ChallengeResponse,
@@ -71,8 +72,60 @@ export function shouldMergeNotes(
 ): boolean {
   return (
     (titleLikeTypes.includes(lastItem.type) && lastItem.indent < item.indent) ||
-    ([...ITEM_TYPE_PREFIXES.keys()].includes(lastItem.type) &&
+    ([...ITEM_TYPE_PREFIXES.keys(), ChecklistItemType.PlainText].includes(
+      lastItem.type,
+    ) &&
       lastItem.indent <= item.indent &&
       lastItem.indent >= 1)
   );
 }
+
+/** Separator between challenge and response in plain-text items */
+export const CHALLENGE_RESPONSE_SEPARATOR = " - ";
+
+/** One item as a line of plain text: "CHALLENGE - RESPONSE", "NOTE: ..." */
+export function itemToPlainText(
+  item: Pick<ChecklistItem, "type" | "challengeText" | "responseText">,
+): string {
+  if (item.type === ChecklistItemType.Space) return "";
+  if (item.type === ChecklistItemType.ChallengeResponse && item.responseText) {
+    return (
+      item.challengeText + CHALLENGE_RESPONSE_SEPARATOR + item.responseText
+    );
+  }
+  return getItemTypePrefix(item.type) + item.challengeText;
+}
+
+/**
+ * Parse one line of plain text with the conventions of `itemToPlainText`.
+ * Lines with neither a type prefix nor a separator are challenge-only.
+ */
+export function plainTextToPartialItem(
+  text: string,
+): Pick<ChecklistItem, "type" | "challengeText" | "responseText"> {
+  const parsed = promptToPartialItem(text);
+  if (parsed.prompt !== text) {
+    return {
+      type: parsed.type,
+      challengeText: parsed.prompt,
+      responseText: "",
+    };
+  }
+
+  const sepIdx = text.indexOf(CHALLENGE_RESPONSE_SEPARATOR);
+  if (sepIdx > 0) {
+    return {
+      type: ChecklistItemType.ChallengeResponse,
+      challengeText: text.slice(0, sepIdx).trimEnd(),
+      responseText: text
+        .slice(sepIdx + CHALLENGE_RESPONSE_SEPARATOR.length)
+        .trimStart(),
+    };
+  }
+
+  return {
+    type: ChecklistItemType.ChallengeOnly,
+    challengeText: text,
+    responseText: "",
+  };
+}
@@ -1,6 +1,7 @@
 import type { ChecklistFile } from "@/types/checklist";
 import type { FormatParser, ParsedChecklistFile } from "../types";
 import { readGarminPilot } from "./reader";
+import { validateGarminPilot } from "./validator";
 import { writeGarminPilot } from "./writer";
 
 /**
@@ -26,4 +27,5 @@ export const garminPilotParser: FormatParser & {
   },
   parseAsync: readGarminPilot,
   serializeAsync: writeGarminPilot,
+  validate: validateGarminPilot,
 };
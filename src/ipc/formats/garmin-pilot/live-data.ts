@@ -11,38 +11,60 @@ import {
   GP_ITEM_CENTER_FREQUENCY,
 } from "./utils";
 
-/** Map from Garmin Pilot item type number to [efisSlug, exampleString] */
-const LIVE_DATA_TO_EFIS = new Map<number, [string, string]>([
-  [GP_ITEM_LOCAL_ALTIMETER, ["%LOCAL_ALTIMETER%", "1025.0HPA ETNG (14NM)"]],
-  [GP_ITEM_OPEN_NEAREST, ["%OPEN_NEAREST%", "<Open NRST>"]],
+/** Map from Garmin Pilot item type number to [efisSlug, exampleString, label] */
+const LIVE_DATA_TO_EFIS = new Map<number, [string, string, string]>([
+  [
+    GP_ITEM_LOCAL_ALTIMETER,
+    ["%LOCAL_ALTIMETER%", "1025.0HPA ETNG (14NM)", "Local altimeter"],
+  ],
+  [GP_ITEM_OPEN_NEAREST, ["%OPEN_NEAREST%", "<Open NRST>", "Open nearest"]],
   [
     GP_ITEM_OPEN_ATIS_SCRATCHPAD,
-    ["%OPEN_ATIS_SCRATCHPAD%", "<ATIS ScratchPad>"],
+    ["%OPEN_ATIS_SCRATCHPAD%", "<ATIS ScratchPad>", "ATIS scratchpad"],
   ],
   [
     GP_ITEM_OPEN_CRAFT_SCRATCHPAD,
-    ["%OPEN_CRAFT_SCRATCHPAD%", "<CRAFT ScratchPad>"],
+    ["%OPEN_CRAFT_SCRATCHPAD%", "<CRAFT ScratchPad>", "CRAFT scratchpad"],
+  ],
+  [
+    GP_ITEM_WEATHER_FREQUENCY,
+    ["%WEATHER_FREQUENCY%", "123.45 ETNG (14NM)", "Weather frequency"],
   ],
-  [GP_ITEM_WEATHER_FREQUENCY, ["%WEATHER_FREQUENCY%", "123.45 ETNG (14NM)"]],
   [
     GP_ITEM_CLEARANCE_FREQUENCY,
-    ["%CLEARANCE_FREQUENCY%", "121.83 EHBK (24NM)"],
+    ["%CLEARANCE_FREQUENCY%", "121.83 EHBK (24NM)", "Clearance frequency"],
   ],
   [
     GP_ITEM_GROUND_CTAF_FREQUENCY,
-    ["%GROUND_CTAF_FREQUENCY%", "123.525/129.875 EDKA (10NM)"],
+    [
+      "%GROUND_CTAF_FREQUENCY%",
+      "123.525/129.875 EDKA (10NM)",
+      "Ground / CTAF frequency",
+    ],
   ],
   [
     GP_ITEM_TOWER_CTAF_FREQUENCY,
-    ["%TOWER_CTAF_FREQUENCY%", "129.875/123.525 EDKA (10NM)"],
+    [
+      "%TOWER_CTAF_FREQUENCY%",
+      "129.875/123.525 EDKA (10NM)",
+      "Tower / CTAF frequency",
+    ],
   ],
   [
     GP_ITEM_APPROACH_FREQUENCY,
-    ["%APPROACH_FREQUENCY%", "120.205/123.875 EHBK (24NM)"],
+    [
+      "%APPROACH_FREQUENCY%",
+      "120.205/123.875 EHBK (24NM)",
+      "Approach frequency",
+    ],
   ],
   [
     GP_ITEM_CENTER_FREQUENCY,
-    ["%CENTER_FREQUENCY%", "122.835/125.98/126.115 BRUSSELS (24NM)"],
+    [
+      "%CENTER_FREQUENCY%",
+      "122.835/125.98/126.115 BRUSSELS (24NM)",
+      "Center frequency",
+    ],
   ],
 ]);
 
@@ -64,9 +86,38 @@ export function getLiveDataSlug(itemType: number): string {
 
 /** Check if an expectation string is a live data token and get its Garmin type */
 export function getGarminLiveDataType(expectation: string): number | undefined {
-  const entry = LIVE_DATA_TO_GARMIN.get(expectation);
+  const entry = LIVE_DATA_TO_GARMIN.get(expectation.trim());
   return entry?.[0];
 }
 
 /** All live data item types (for matching during read) */
 export const LIVE_DATA_TYPES = new Set(LIVE_DATA_TO_EFIS.keys());
+
+/** A live data token as offered in the editor's picker */
+export interface LiveDataToken {
+  /** `%LOCAL_ALTIMETER%`-style slug stored in the response text */
+  token: string;
+  label: string;
+  /** What Garmin Pilot shows in place of the token, for previews */
+  example: string;
+}
+
+/** Every live data token, in Garmin Pilot item type order */
+export const LIVE_DATA_TOKENS: LiveDataToken[] = [
+  ...LIVE_DATA_TO_EFIS.values(),
+].map(([token, example, label]) => ({ token, label, example }));
+
+/**
+ * The live data token a response consists of, if any. Garmin Pilot only
+ * maps a response that is exactly one token back to a live data item.
+ */
+export function getLiveDataToken(text: string): LiveDataToken | undefined {
+  const trimmed = text.trim();
+  return LIVE_DATA_TOKENS.find((t) => t.token === trimmed);
+}
+
+/** Live data tokens appearing anywhere in `text` */
+export function findLiveDataTokens(text: string): LiveDataToken[] {
+  if (!text.includes("%")) return [];
+  return LIVE_DATA_TOKENS.filter((t) => text.includes(t.token));
+}
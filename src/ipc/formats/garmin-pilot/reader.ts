@@ -103,6 +103,11 @@ function convertGroups(objects: GPObjects): ChecklistGroup[] {
           id: crypto.randomUUID(),
           name: gpChecklist.name,
           items,
+          extensions: {
+            [ChecklistFormat.Gplt]: {
+              completionItem: gpChecklist.completionItem,
+            },
+          },
         },
       ];
     })
@@ -153,7 +158,7 @@ function convertChecklistItem(gpItem: GPChecklistItem): ChecklistItem[] {
   } else if (gpItem.itemType === GP_ITEM_NOTE) {
     // Note item
     if (!gpItem.title && !gpItem.action) {
-      // Empty space — skip
+      result.push(makeItem(ChecklistItemType.Space, ""));
     } else if (gpItem.title) {
       result.push(makeItem(ChecklistItemType.Title, gpItem.title));
     }
@@ -1,4 +1,5 @@
 import { ChecklistGroupCategory } from "@/types/checklist";
+import type { GarminPilotChecklistExtension } from "@/types/checklist";
 
 /** Garmin Pilot container constants */
 export const CONTAINER_TYPE = "checklistBinder";
@@ -40,6 +41,24 @@ export const GP_ACTION_CLOSE_FLIGHT_PLAN = 3;
 export const GP_ACTION_OPEN_SAFETAXI = 4;
 export const GP_ACTION_OPEN_MAP = 5;
 
+/** Completion actions as offered in the editor, default first */
+export const GP_COMPLETION_ACTIONS: [number, string][] = [
+  [GP_ACTION_NEXT_CHECKLIST, "Go to next checklist"],
+  [GP_ACTION_DO_NOTHING, "Do nothing"],
+  [GP_ACTION_OPEN_FLIGHT_PLAN, "Open flight plan"],
+  [GP_ACTION_CLOSE_FLIGHT_PLAN, "Close flight plan"],
+  [GP_ACTION_OPEN_SAFETAXI, "Open SafeTaxi"],
+  [GP_ACTION_OPEN_MAP, "Open map"],
+];
+
+/** Phase-of-flight subtypes a normal checklist can have */
+export const GP_NORMAL_SUBTYPES: [number, string][] = [
+  [GP_SUBTYPE_PREFLIGHT, "Preflight"],
+  [GP_SUBTYPE_TAKEOFF_CRUISE, "Takeoff/Cruise"],
+  [GP_SUBTYPE_LANDING, "Landing"],
+  [GP_SUBTYPE_OTHER, "Other"],
+];
+
 /** Garmin group key: [type, subtype] */
 export type GarminGroupKey = [number, number];
 /** EFIS group key: [category, title] */
@@ -126,3 +145,31 @@ export function isSupportedContainer(container: {
     container.objects.length === 1
   );
 }
+
+/** Whether Garmin Pilot has a group of its own for our [category, title] */
+export function isGarminGroup(key: EfisGroupKey): boolean {
+  return EFIS_TO_GARMIN.has(JSON.stringify(key));
+}
+
+/**
+ * The [type, subtype] a checklist is written with: its group's key. Only a
+ * normal group Garmin Pilot has no equivalent for takes the phase of flight
+ * from the checklist's Garmin Pilot extension, so moving a checklist to
+ * another phase group always moves it in Garmin Pilot too.
+ */
+export function checklistGroupKey(
+  groupKey: EfisGroupKey,
+  extension?: GarminPilotChecklistExtension,
+): GarminGroupKey {
+  const [type, subtype] = efisGroupKeyToGarmin(groupKey);
+  const override = extension?.subtype;
+  if (
+    type === GP_TYPE_NORMAL &&
+    !isGarminGroup(groupKey) &&
+    override !== undefined &&
+    GP_NORMAL_SUBTYPES.some(([value]) => value === override)
+  ) {
+    return [type, override];
+  }
+  return [type, subtype];
+}
@@ -0,0 +1,154 @@
+import { ChecklistFormat, ChecklistItemType } from "@/types/checklist";
+import type { ChecklistFile, ChecklistItem } from "@/types/checklist";
+import { getItemTypePrefix, shouldMergeNotes } from "../format-utils";
+import type { FormatDiagnostic } from "../types";
+import { createDiagnostics, reportPlainTextFallback } from "../validation";
+import { findLiveDataTokens, getLiveDataToken } from "./live-data";
+import {
+  checklistGroupKey,
+  efisGroupKeyToGarmin,
+  garminGroupKeyToEfis,
+} from "./utils";
+
+const NOTE_TYPES = [
+  ChecklistItemType.Note,
+  ChecklistItemType.PlainText,
+  ChecklistItemType.Caution,
+  ChecklistItemType.Warning,
+];
+
+/**
+ * Report what `writeGarminPilot` drops or alters for a file.
+ */
+export function validateGarminPilot(file: ChecklistFile): FormatDiagnostic[] {
+  const report = createDiagnostics();
+
+  const { aircraftRegistration, makeModel, copyright } = file.metadata;
+  if (aircraftRegistration || makeModel || copyright) {
+    report.file("info", "Garmin Pilot does not store file metadata");
+  }
+
+  for (const group of file.groups) {
+    // Garmin Pilot groups are a fixed [type, subtype] set — anything else
+    // is remapped to the category's default group on import
+    const groupKey = efisGroupKeyToGarmin([group.category, group.name]);
+    const [, efisName] = garminGroupKeyToEfis(groupKey);
+    if (efisName !== group.name) {
+      report.atGroup(
+        group,
+        "warning",
+        `Garmin Pilot has no "${group.name}" group; checklists will be imported back under "${efisName}"`,
+      );
+    }
+
+    for (const checklist of group.checklists) {
+      // A phase of flight other than the group's moves the checklist on import
+      const [, phaseGroup] = garminGroupKeyToEfis(
+        checklistGroupKey(
+          [group.category, group.name],
+          checklist.extensions?.[ChecklistFormat.Gplt],
+        ),
+      );
+      if (phaseGroup !== efisName) {
+        report.atChecklist(
+          group,
+          checklist,
+          "info",
+          `Garmin Pilot phase of flight is "${phaseGroup}"; checklist will be imported back under that group`,
+        );
+      }
+
+      // Last item that produced its own Garmin Pilot entry (notes may merge into it)
+      let lastKept: ChecklistItem | undefined;
+
+      for (const item of checklist.items) {
+        if (NOTE_TYPES.includes(item.type)) {
+          if (
+            lastKept &&
+            shouldMergeNotes(item, lastKept, [ChecklistItemType.Title])
+          ) {
+            report.atItem(
+              group,
+              checklist,
+              item,
+              "info",
+              "Will be folded into the preceding Garmin Pilot note item",
+            );
+          } else {
+            lastKept = item;
+          }
+
+          if (
+            item.type === ChecklistItemType.Caution ||
+            item.type === ChecklistItemType.Warning
+          ) {
+            report.atItem(
+              group,
+              checklist,
+              item,
+              "info",
+              `Garmin Pilot has no ${item.type} items; exported as a note prefixed with "${getItemTypePrefix(item.type).trim()}"`,
+            );
+          }
+        } else {
+          lastKept = item;
+        }
+
+        if (item.indent > 0 && !NOTE_TYPES.includes(item.type)) {
+          report.atItem(
+            group,
+            checklist,
+            item,
+            "info",
+            "Garmin Pilot has no indentation; item will be flattened",
+          );
+        }
+
+        if (item.centered) {
+          report.atItem(
+            group,
+            checklist,
+            item,
+            "info",
+            "Garmin Pilot does not support centered items",
+          );
+        }
+
+        // Only a response that is exactly one token becomes a live data item
+        const strayTokens = findLiveDataTokens(
+          `${item.challengeText}\n${item.responseText}`,
+        ).filter(
+          (t) =>
+            item.type !== ChecklistItemType.ChallengeResponse ||
+            getLiveDataToken(item.responseText) !== t,
+        );
+        for (const { token } of strayTokens) {
+          report.atItem(
+            group,
+            checklist,
+            item,
+            "warning",
+            `${token} is only live data when it is the whole response of a challenge/response item; it will be exported as plain text`,
+          );
+        }
+
+        if (
+          item.type !== ChecklistItemType.ChallengeResponse &&
+          item.responseText
+        ) {
+          report.atItem(
+            group,
+            checklist,
+            item,
+            "warning",
+            "Response text is only exported for challenge/response items and will be dropped",
+          );
+        }
+      }
+    }
+  }
+
+  reportPlainTextFallback(file, report, "Garmin Pilot", "a note");
+
+  return report.diagnostics;
+}
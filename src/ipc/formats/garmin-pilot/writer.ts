@@ -1,5 +1,5 @@
 import { createTarGzip } from "nanotar";
-import { ChecklistItemType } from "@/types/checklist";
+import { ChecklistFormat, ChecklistItemType } from "@/types/checklist";
 import type { ChecklistFile, ChecklistItem } from "@/types/checklist";
 import { getItemTypePrefix, shouldMergeNotes } from "../format-utils";
 import { getGarminLiveDataType } from "./live-data";
@@ -11,6 +11,7 @@ import {
   GP_ITEM_PLAIN_TEXT,
   GP_ITEM_NOTE,
   GP_ACTION_NEXT_CHECKLIST,
+  checklistGroupKey,
   efisGroupKeyToGarmin,
 } from "./utils";
 
@@ -31,17 +32,22 @@ export async function writeGarminPilot(file: ChecklistFile): Promise<Buffer> {
   const allItems: GPItemOut[] = [];
 
   for (const group of file.groups) {
-    const garminKey = efisGroupKeyToGarmin([group.category, group.name]);
-    const keyStr = JSON.stringify(garminKey);
+    const keyStr = JSON.stringify(
+      efisGroupKeyToGarmin([group.category, group.name]),
+    );
     const existing = checklistsMap.get(keyStr) ?? [];
 
     for (const checklist of group.checklists) {
       const items = convertItems(checklist.items);
       allItems.push(...items);
 
-      const [type, subtype] = garminKey;
+      const extension = checklist.extensions?.[ChecklistFormat.Gplt];
+      const [type, subtype] = checklistGroupKey(
+        [group.category, group.name],
+        extension,
+      );
       existing.push({
-        completionItem: GP_ACTION_NEXT_CHECKLIST,
+        completionItem: extension?.completionItem ?? GP_ACTION_NEXT_CHECKLIST,
         uuid: crypto.randomUUID(),
         checklistItems: items.map((i) => i.uuid),
         name: checklist.name,
@@ -133,6 +139,15 @@ function convertItems(items: ChecklistItem[]): GPItemOut[] {
         gpItem.action = "";
         break;
 
+      case ChecklistItemType.Space:
+        // Empty note
+        gpItem.itemType = GP_ITEM_NOTE;
+        gpItem.title = "";
+        gpItem.action = "";
+        break;
+
+      // No plain text in Garmin Pilot; written as a note without a prefix
+      case ChecklistItemType.PlainText:
       case ChecklistItemType.Note:
       case ChecklistItemType.Caution:
       case ChecklistItemType.Warning: {
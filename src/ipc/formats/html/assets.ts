@@ -0,0 +1,193 @@
+/** Stylesheet embedded in the page; the colors are the editor's dark theme */
+export const STYLE = `
+:root {
+  --bg-base: #0d1117;
+  --bg-surface: #161b22;
+  --bg-overlay: #21283b;
+  --border: #30363d;
+  --text-primary: #e6edf3;
+  --text-secondary: #8b949e;
+  --text-muted: #5a6370;
+  --accent: #58a6ff;
+  --green: #3fb950;
+  --green-dim: #1a3a2a;
+  --yellow: #d29922;
+  --yellow-dim: #3d2e00;
+  --red: #f85149;
+  --red-dim: #3d1418;
+}
+* { box-sizing: border-box; }
+html { scroll-padding-top: 4.5rem; }
+body {
+  margin: 0;
+  background: var(--bg-base);
+  color: var(--text-primary);
+  font: 17px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  -webkit-tap-highlight-color: transparent;
+}
+header { padding: 1rem 1rem 0; }
+header h1 { margin: 0; font-size: 1.5rem; }
+.meta { margin: 0.25rem 0 0; color: var(--text-secondary); font-size: 0.9rem; white-space: pre-wrap; }
+nav {
+  position: sticky; top: 0; z-index: 1;
+  display: flex; gap: 0.5rem; align-items: center; overflow-x: auto;
+  padding: 0.75rem 1rem;
+  background: var(--bg-base); border-bottom: 1px solid var(--border);
+}
+nav a {
+  display: inline-flex; gap: 0.4rem; align-items: center; flex-shrink: 0;
+  padding: 0.4rem 0.75rem; border-radius: 999px;
+  background: var(--bg-surface); color: var(--text-primary); text-decoration: none;
+}
+nav button {
+  margin-left: auto; flex-shrink: 0; padding: 0.4rem 0.75rem;
+  border: 1px solid var(--border); border-radius: 999px;
+  background: none; color: var(--text-secondary); font: inherit;
+}
+main { max-width: 48rem; margin: 0 auto; padding: 0 1rem 4rem; }
+.group > h2 { display: flex; gap: 0.5rem; align-items: center; margin: 1.75rem 0 0.75rem; font-size: 1.3rem; }
+.icon {
+  display: inline-flex; width: 1.4em; height: 1.4em; flex-shrink: 0;
+  align-items: center; justify-content: center;
+  border-radius: 0.3em; font-size: 0.75em; font-weight: 700;
+}
+.normal .icon { background: var(--green-dim); color: var(--green); }
+.emergency .icon { background: var(--red-dim); color: var(--red); }
+.abnormal .icon { background: var(--yellow-dim); color: var(--yellow); }
+.group.emergency > h2 { color: var(--red); }
+.group.abnormal > h2 { color: var(--yellow); }
+.checklist { margin-bottom: 0.75rem; border: 1px solid var(--border); border-radius: 0.5rem; background: var(--bg-surface); }
+.emergency .checklist { border-left: 4px solid var(--red); }
+.abnormal .checklist { border-left: 4px solid var(--yellow); }
+.checklist > summary {
+  display: flex; gap: 0.75rem; align-items: baseline;
+  padding: 0.75rem 1rem; cursor: pointer; font-weight: 600; list-style: none;
+}
+.checklist > summary::-webkit-details-marker { display: none; }
+.checklist > summary::before { content: "\\25B8"; color: var(--text-muted); }
+.checklist[open] > summary::before { content: "\\25BE"; }
+.progress { margin-left: auto; color: var(--text-muted); font-size: 0.85rem; font-weight: 400; }
+.checklist.complete > summary { color: var(--green); }
+.checklist.complete .progress { color: var(--green); }
+.items { margin: 0; padding: 0 0.5rem 0.5rem; list-style: none; }
+.item {
+  display: flex; gap: 0.6rem; align-items: baseline;
+  min-height: 2.75rem; padding: 0.55rem 0.5rem; border-radius: 0.35rem;
+  padding-left: calc(0.5rem + var(--indent, 0) * 1.5rem);
+  white-space: pre-wrap;
+}
+.item[hidden] { display: none; }
+.item.checkable { cursor: pointer; user-select: none; }
+.item.checkable:active { background: var(--bg-overlay); }
+.box {
+  width: 1.15rem; height: 1.15rem; flex-shrink: 0; align-self: center;
+  border: 2px solid var(--text-muted); border-radius: 0.25rem;
+}
+.checked .box { border-color: var(--green); background: var(--green); }
+.checked .box::after { content: "\\2713"; display: block; color: var(--bg-base); font-size: 0.8rem; line-height: 0.85rem; text-align: center; font-weight: 700; }
+.checked .challenge, .checked .response { color: var(--text-muted); text-decoration: line-through; }
+.leader { flex: 1; min-width: 1rem; border-bottom: 2px dotted var(--text-muted); }
+.response { font-weight: 600; text-align: right; }
+.title { margin-top: 0.5rem; font-weight: 700; text-transform: uppercase; color: var(--text-secondary); }
+.plain_text { color: var(--text-secondary); }
+.space { min-height: 1rem; padding: 0; }
+.note, .caution, .warning { border-left: 3px solid var(--text-muted); background: var(--bg-overlay); }
+.caution { border-left-color: var(--yellow); }
+.warning { border-left-color: var(--red); }
+.label { flex-shrink: 0; font-size: 0.8rem; font-weight: 700; color: var(--text-secondary); }
+.caution .label { color: var(--yellow); }
+.warning .label { color: var(--red); }
+.centered { justify-content: center; text-align: center; }
+.toggle {
+  flex-shrink: 0; width: 1.5rem; padding: 0;
+  border: none; background: none; color: var(--text-muted); font: inherit; cursor: pointer;
+}
+.toggle::before { content: "\\25BE"; }
+.collapsed > .toggle::before { content: "\\25B8"; }
+footer { margin-top: 2rem; color: var(--text-muted); font-size: 0.8rem; text-align: center; }
+@media print {
+  nav { display: none; }
+  body { background: #fff; color: #000; }
+}
+`;
+
+/**
+ * Script embedded in the page: ticking items with progress per checklist,
+ * collapsing the children of collapsible items the way the editor does, and
+ * opening on the startup checklist.
+ */
+export const SCRIPT = `
+(function () {
+  function refreshProgress(checklist) {
+    var total = checklist.querySelectorAll(".item.checkable").length;
+    var done = checklist.querySelectorAll(".item.checkable.checked").length;
+    checklist.querySelector(".progress").textContent = done + "/" + total;
+    checklist.classList.toggle("complete", total > 0 && done === total);
+  }
+
+  // A collapsed title hides everything up to the next title at the same or
+  // lower indent; any other collapsed item hides the deeper items after it
+  function refreshVisibility(list) {
+    var skipIndent = null;
+    var skipTitle = false;
+    Array.prototype.forEach.call(list.children, function (item) {
+      var indent = Number(item.dataset.indent);
+      var isTitle = item.classList.contains("title");
+      if (skipIndent !== null) {
+        var ends = skipTitle ? isTitle && indent <= skipIndent : indent <= skipIndent;
+        if (!ends) {
+          item.hidden = true;
+          return;
+        }
+        skipIndent = null;
+      }
+      item.hidden = false;
+      if (item.classList.contains("collapsed")) {
+        skipIndent = indent;
+        skipTitle = isTitle;
+      }
+    });
+  }
+
+  function tick(item) {
+    var checked = item.classList.toggle("checked");
+    item.setAttribute("aria-checked", String(checked));
+    refreshProgress(item.closest(".checklist"));
+  }
+
+  document.addEventListener("click", function (event) {
+    var toggle = event.target.closest(".toggle");
+    if (toggle) {
+      var parent = toggle.closest(".item");
+      var collapsed = parent.classList.toggle("collapsed");
+      toggle.setAttribute("aria-expanded", String(!collapsed));
+      refreshVisibility(parent.parentNode);
+      return;
+    }
+    var item = event.target.closest(".item.checkable");
+    if (item) tick(item);
+    if (event.target.closest("[data-reset]")) {
+      document.querySelectorAll(".item.checked").forEach(function (checked) {
+        checked.classList.remove("checked");
+        checked.setAttribute("aria-checked", "false");
+      });
+      document.querySelectorAll(".checklist").forEach(refreshProgress);
+    }
+  });
+
+  document.addEventListener("keydown", function (event) {
+    if (event.key !== " " && event.key !== "Enter") return;
+    if (event.target.closest(".toggle")) return;
+    var item = event.target.closest(".item.checkable");
+    if (item) {
+      event.preventDefault();
+      tick(item);
+    }
+  });
+
+  document.querySelectorAll(".checklist").forEach(refreshProgress);
+
+  var startup = document.querySelector(".checklist[data-startup]");
+  if (startup && !location.hash) startup.scrollIntoView();
+})();
+`;
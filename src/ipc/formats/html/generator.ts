@@ -0,0 +1,156 @@
+import { ChecklistGroupCategory, ChecklistItemType } from "@/types/checklist";
+import type {
+  Checklist,
+  ChecklistFile,
+  ChecklistGroup,
+  ChecklistItem,
+} from "@/types/checklist";
+import { SCRIPT, STYLE } from "./assets";
+
+/** Same symbols as the editor's `GroupIcon` */
+const CATEGORY_SYMBOL: Record<ChecklistGroupCategory, string> = {
+  [ChecklistGroupCategory.Normal]: "\u2713",
+  [ChecklistGroupCategory.Emergency]: "!",
+  [ChecklistGroupCategory.Abnormal]: "\u26A0",
+};
+
+const CALLOUT_LABELS: Partial<Record<ChecklistItemType, string>> = {
+  [ChecklistItemType.Note]: "NOTE",
+  [ChecklistItemType.Caution]: "CAUTION",
+  [ChecklistItemType.Warning]: "WARNING",
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function isCheckable(item: ChecklistItem): boolean {
+  return (
+    item.type === ChecklistItemType.ChallengeResponse ||
+    item.type === ChecklistItemType.ChallengeOnly
+  );
+}
+
+/** Whether a collapsible item has anything to hide, as the editor counts it */
+function hasChildren(items: ChecklistItem[], index: number): boolean {
+  const item = items[index];
+  const next = items[index + 1];
+  if (!next) return false;
+  return item.type === ChecklistItemType.Title
+    ? !(next.type === ChecklistItemType.Title && next.indent <= item.indent)
+    : next.indent > item.indent;
+}
+
+function itemContent(item: ChecklistItem): string {
+  const challenge = `<span class="challenge">${escapeHtml(item.challengeText)}</span>`;
+  switch (item.type) {
+    case ChecklistItemType.ChallengeResponse:
+      return item.responseText
+        ? `<span class="box"></span>${challenge}<span class="leader"></span><span class="response">${escapeHtml(item.responseText)}</span>`
+        : `<span class="box"></span>${challenge}`;
+    case ChecklistItemType.ChallengeOnly:
+      return `<span class="box"></span>${challenge}`;
+    case ChecklistItemType.Note:
+    case ChecklistItemType.Caution:
+    case ChecklistItemType.Warning:
+      return `<span class="label">${CALLOUT_LABELS[item.type]}</span>${challenge}`;
+    case ChecklistItemType.Space:
+      return "";
+    default:
+      return challenge;
+  }
+}
+
+function renderItem(items: ChecklistItem[], index: number): string {
+  const item = items[index];
+  const classes = ["item", item.type];
+  if (isCheckable(item)) classes.push("checkable");
+  if (item.centered) classes.push("centered");
+
+  const attributes = [
+    `class="${classes.join(" ")}"`,
+    `data-indent="${item.indent}"`,
+    `style="--indent: ${item.indent}"`,
+    ...(isCheckable(item)
+      ? ['role="checkbox"', 'aria-checked="false"', 'tabindex="0"']
+      : []),
+  ];
+  const toggle =
+    item.collapsible && hasChildren(items, index)
+      ? '<button type="button" class="toggle" aria-expanded="true" aria-label="Collapse"></button>'
+      : "";
+  return `<li ${attributes.join(" ")}>${toggle}${itemContent(item)}</li>`;
+}
+
+function renderChecklist(checklist: Checklist, id: string): string {
+  const items = checklist.items.map((_, i) => renderItem(checklist.items, i));
+  return [
+    `<details class="checklist" id="${id}" open${checklist.isDefault ? " data-startup" : ""}>`,
+    `<summary><span>${escapeHtml(checklist.name)}</span><span class="progress"></span></summary>`,
+    `<ol class="items">`,
+    ...items,
+    `</ol>`,
+    `</details>`,
+  ].join("\n");
+}
+
+function groupHeading(group: ChecklistGroup): string {
+  return `<span class="icon">${CATEGORY_SYMBOL[group.category]}</span>${escapeHtml(group.name)}`;
+}
+
+/**
+ * Render a single self-contained HTML page with its CSS and JS inlined, for
+ * any tablet browser: items can be ticked, collapsible items fold their
+ * children, and a sticky bar jumps between groups. Emergency and abnormal
+ * groups are colored as in the editor.
+ */
+export function generateHtml(file: ChecklistFile): string {
+  const { makeModel, aircraftRegistration, copyright, description } =
+    file.metadata;
+  const meta = [makeModel, aircraftRegistration].filter(Boolean).join(" · ");
+
+  const nav = file.groups.map(
+    (group, i) =>
+      `<a class="${group.category}" href="#group-${i}">${groupHeading(group)}</a>`,
+  );
+  const groups = file.groups.map((group, i) =>
+    [
+      `<section class="group ${group.category}" id="group-${i}">`,
+      `<h2>${groupHeading(group)}</h2>`,
+      ...group.checklists.map((checklist, j) =>
+        renderChecklist(checklist, `group-${i}-checklist-${j}`),
+      ),
+      `</section>`,
+    ].join("\n"),
+  );
+
+  return [
+    "<!doctype html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(file.name)}</title>`,
+    `<style>${STYLE}</style>`,
+    "</head>",
+    "<body>",
+    "<header>",
+    `<h1>${escapeHtml(file.name)}</h1>`,
+    ...(meta ? [`<p class="meta">${escapeHtml(meta)}</p>`] : []),
+    ...(description ? [`<p class="meta">${escapeHtml(description)}</p>`] : []),
+    "</header>",
+    `<nav>${nav.join("")}<button type="button" data-reset>Reset</button></nav>`,
+    "<main>",
+    ...groups,
+    ...(copyright ? [`<footer>${escapeHtml(copyright)}</footer>`] : []),
+    "</main>",
+    `<script>${SCRIPT}</script>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,17 @@
+import type { ChecklistFile } from "@/types/checklist";
+import type { FormatDiagnostic, FormatParser } from "../types";
+import { createDiagnostics, reportLiveDataTokens } from "../validation";
+import { generateHtml } from "./generator";
+
+/** Standalone interactive HTML page — export only */
+export const htmlParser: FormatParser = {
+  parse(): never {
+    throw new Error("HTML import is not supported");
+  },
+  serialize: generateHtml,
+  validate(file: ChecklistFile): FormatDiagnostic[] {
+    const report = createDiagnostics();
+    reportLiveDataTokens(file, report, "HTML");
+    return report.diagnostics;
+  },
+};
@@ -1,13 +1,33 @@
 import { ChecklistFormat } from "@/types/checklist";
+import type { ChecklistFile, ExportOptions } from "@/types/checklist";
 import { aceParser } from "./ace";
+import { csvDelimiterFor, csvParser, readCsv } from "./csv";
+import type { CsvLayoutColumn } from "./csv";
+import { efisEditorParser, isEfisEditorJson } from "./efis-editor";
 import { foreflightParser } from "./foreflight";
 import { garminPilotParser } from "./garmin-pilot";
+import { htmlParser } from "./html";
 import { jsonParser } from "./json";
+import { markdownParser } from "./markdown";
 import { pdfParser } from "./pdf";
 import { dynonParser, grtParser } from "./text";
-import type { FormatParser } from "./types";
+import {
+  assertVariablesDefined,
+  expandVariables,
+  validateVariables,
+} from "./variables";
+import type {
+  FormatDiagnostic,
+  FormatParser,
+  ParsedChecklistFile,
+} from "./types";
 
-export type { FormatParser, ParsedChecklistFile } from "./types";
+export type {
+  DiagnosticSeverity,
+  FormatDiagnostic,
+  FormatParser,
+  ParsedChecklistFile,
+} from "./types";
 
 const parserRegistry: Record<ChecklistFormat, FormatParser> = {
   [ChecklistFormat.Json]: jsonParser,
@@ -17,6 +37,25 @@ const parserRegistry: Record<ChecklistFormat, FormatParser> = {
   [ChecklistFormat.ForeFlight]: foreflightParser,
   [ChecklistFormat.Gplt]: garminPilotParser,
   [ChecklistFormat.Pdf]: pdfParser,
+  [ChecklistFormat.Html]: htmlParser,
+  [ChecklistFormat.Csv]: csvParser,
+  [ChecklistFormat.EfisEditor]: efisEditorParser,
+  [ChecklistFormat.Markdown]: markdownParser,
+};
+
+/** Default file extension (without the dot) written for each format */
+export const FORMAT_EXTENSIONS: Record<ChecklistFormat, string> = {
+  [ChecklistFormat.Json]: "json",
+  [ChecklistFormat.Ace]: "ace",
+  [ChecklistFormat.AfsDynon]: "txt",
+  [ChecklistFormat.Grt]: "txt",
+  [ChecklistFormat.ForeFlight]: "fmd",
+  [ChecklistFormat.Gplt]: "gplt",
+  [ChecklistFormat.Pdf]: "pdf",
+  [ChecklistFormat.Html]: "html",
+  [ChecklistFormat.Csv]: "csv",
+  [ChecklistFormat.EfisEditor]: "json",
+  [ChecklistFormat.Markdown]: "md",
 };
 
 /** Get the parser for a given format */
@@ -24,10 +63,103 @@ export function getParser(format: ChecklistFormat): FormatParser {
   return parserRegistry[format];
 }
 
+/**
+ * Parse file content using the appropriate parser.
+ * Handles async parsers (Garmin Pilot) transparently.
+ *
+ * CSV columns are matched by header name unless `csvLayout` maps them.
+ */
+export async function parseFileContent(
+  content: Buffer,
+  format: ChecklistFormat,
+  fileName: string,
+  csvLayout?: CsvLayoutColumn[],
+): Promise<ParsedChecklistFile> {
+  if (format === ChecklistFormat.Csv && csvLayout) {
+    return readCsv(content.toString("utf-8"), fileName, csvLayout);
+  }
+  if (format === ChecklistFormat.Gplt) {
+    return garminPilotParser.parseAsync(content, fileName);
+  }
+  const parser = getParser(format);
+  return parser.parse(content, fileName);
+}
+
+/** Formats that write variable tokens and the variable table as they are */
+const TOKEN_FORMATS: ChecklistFormat[] = [
+  ChecklistFormat.Json,
+  ChecklistFormat.Markdown,
+];
+
+/** Whether `format` keeps `{{NAME}}` tokens instead of writing their values */
+export function keepsVariableTokens(format: ChecklistFormat): boolean {
+  return TOKEN_FORMATS.includes(format);
+}
+
+/** `options` plus what the destination path decides: a CSV file's delimiter */
+export function exportOptionsFor(
+  format: ChecklistFormat,
+  filePath: string,
+  options?: ExportOptions,
+): ExportOptions | undefined {
+  return format === ChecklistFormat.Csv
+    ? { ...options, delimiter: csvDelimiterFor(filePath) }
+    : options;
+}
+
+/**
+ * Serialize a file using the appropriate parser.
+ * Handles async parsers (Garmin Pilot, PDF) transparently.
+ *
+ * Variable tokens are expanded for every format except JSON and Markdown,
+ * which keep the tokens and the variable table; an undefined variable throws.
+ */
+export async function serializeFile(
+  source: ChecklistFile,
+  format: ChecklistFormat,
+  options?: ExportOptions,
+): Promise<Buffer | string> {
+  if (keepsVariableTokens(format)) {
+    return getParser(format).serialize(source, options);
+  }
+  assertVariablesDefined(source);
+  const file = expandVariables(source);
+
+  if (format === ChecklistFormat.Gplt) {
+    return garminPilotParser.serializeAsync(file);
+  }
+  if (format === ChecklistFormat.Pdf) {
+    return pdfParser.serializeAsync(file, options);
+  }
+  const parser = getParser(format);
+  return parser.serialize(file, options);
+}
+
+/**
+ * Report everything that exporting `file` to `format` would drop or alter,
+ * starting with variables that cannot be expanded.
+ * Lossless formats return an empty list.
+ */
+export function validateFile(
+  file: ChecklistFile,
+  format: ChecklistFormat,
+  options?: ExportOptions,
+): FormatDiagnostic[] {
+  const parser = getParser(format);
+  if (keepsVariableTokens(format)) {
+    return parser.validate?.(file, options) ?? [];
+  }
+  return [
+    ...validateVariables(file),
+    ...(parser.validate?.(expandVariables(file), options) ?? []),
+  ];
+}
+
 /**
  * Detect format from file extension.
  *
- * For `.txt` files, attempts to disambiguate between Dynon and GRT
+ * For `.txt` files, attempts to disambiguate between Dynon and GRT,
+ * and for `.json` files between our schema and the efis-editor's,
  * by peeking at the file content.
  */
 export function detectFormat(
@@ -40,7 +172,7 @@ export function detectFormat(
     case "ace":
       return ChecklistFormat.Ace;
     case "json":
-      return ChecklistFormat.Json;
+      return detectJsonFormat(content);
     case "afd":
       return ChecklistFormat.AfsDynon;
     case "fmd":
@@ -51,6 +183,15 @@ export function detectFormat(
       return detectTextFormat(content);
     case "pdf":
       return ChecklistFormat.Pdf;
+    case "html":
+    case "htm":
+      return ChecklistFormat.Html;
+    case "csv":
+    case "tsv":
+      return ChecklistFormat.Csv;
+    case "md":
+    case "markdown":
+      return ChecklistFormat.Markdown;
     default:
       return null;
   }
@@ -86,6 +227,23 @@ function detectTextFormat(content?: Buffer): ChecklistFormat {
   return ChecklistFormat.AfsDynon;
 }
 
+/**
+ * Disambiguate `.json` files between our schema and the rdamazio/efis-editor
+ * schema. Falls back to our own if content is not available or not JSON.
+ */
+function detectJsonFormat(content?: Buffer): ChecklistFormat {
+  if (!content) return ChecklistFormat.Json;
+  try {
+    const raw = JSON.parse(content.toString("utf-8"));
+    if (raw && typeof raw === "object" && isEfisEditorJson(raw)) {
+      return ChecklistFormat.EfisEditor;
+    }
+  } catch {
+    // Let the JSON parser report the syntax error
+  }
+  return ChecklistFormat.Json;
+}
+
 // Re-export async parsers for handlers that need them
 export { garminPilotParser } from "./garmin-pilot";
 export { pdfParser } from "./pdf";
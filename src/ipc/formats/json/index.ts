@@ -3,100 +3,32 @@ import {
   ChecklistGroupCategory,
   ChecklistItemType,
 } from "@/types/checklist";
-import type { ChecklistFile } from "@/types/checklist";
+import type {
+  ChecklistExtensions,
+  ChecklistFile,
+  ChecklistVariable,
+  FormatExtensions,
+} from "@/types/checklist";
+import { isEfisEditorJson, readEfisEditor } from "../efis-editor";
 import type { FormatParser, ParsedChecklistFile } from "../types";
 
-/** Map rdamazio/efis-editor item type strings to our internal enum */
-const RDAMAZIO_TYPE_MAP: Record<string, ChecklistItemType> = {
-  ITEM_CHALLENGE_RESPONSE: ChecklistItemType.ChallengeResponse,
-  ITEM_CHALLENGE: ChecklistItemType.ChallengeOnly,
-  ITEM_TITLE: ChecklistItemType.Title,
-  ITEM_PLAINTEXT: ChecklistItemType.Note,
-  ITEM_NOTE: ChecklistItemType.Note,
-  ITEM_WARNING: ChecklistItemType.Warning,
-  ITEM_CAUTION: ChecklistItemType.Caution,
-  ITEM_SPACE: ChecklistItemType.Note,
-};
-
-/**
- * Detect whether the parsed JSON uses the rdamazio/efis-editor schema.
- *
- * Key indicator: groups have `title` instead of `name`, and items use
- * `prompt`/`expectation` with SCREAMING_CASE type values like `ITEM_CHALLENGE_RESPONSE`.
- */
-function isRdamazioFormat(raw: Record<string, unknown>): boolean {
-  if (!Array.isArray(raw.groups) || raw.groups.length === 0) return false;
-  const firstGroup = raw.groups[0] as Record<string, unknown>;
-  // rdamazio groups use "title" not "name"
-  if (typeof firstGroup.title === "string" && !("name" in firstGroup))
-    return true;
-  // Also check items for ITEM_ prefix types
-  if (Array.isArray(firstGroup.checklists)) {
-    const firstChecklist = (
-      firstGroup.checklists as Record<string, unknown>[]
-    )[0];
-    if (firstChecklist && Array.isArray(firstChecklist.items)) {
-      const firstItem = (firstChecklist.items as Record<string, unknown>[])[0];
-      if (
-        firstItem &&
-        typeof firstItem.type === "string" &&
-        firstItem.type.startsWith("ITEM_")
-      )
-        return true;
-    }
-  }
-  return false;
+/** Format-specific data is kept as-is for that format's writer; omitted when absent */
+function parseExtensions<T>(raw: unknown): { extensions?: T } {
+  return raw && typeof raw === "object" && !Array.isArray(raw)
+    ? { extensions: raw as T }
+    : {};
 }
 
-/** Parse rdamazio/efis-editor JSON format into our internal model */
-function parseRdamazioFormat(
-  raw: Record<string, unknown>,
-  fileName: string,
-): ParsedChecklistFile {
-  const metadata = raw.metadata as Record<string, unknown> | undefined;
-
-  return {
-    name: (metadata?.name as string) ?? fileName,
-    format: ChecklistFormat.Json,
-    filePath: undefined,
-    groups: Array.isArray(raw.groups)
-      ? raw.groups.map((group: Record<string, unknown>) => ({
-          id: crypto.randomUUID(),
-          name: (group.title as string) ?? "",
-          category:
-            (group.category as ChecklistGroupCategory) ??
-            ChecklistGroupCategory.Normal,
-          checklists: Array.isArray(group.checklists)
-            ? group.checklists.map((checklist: Record<string, unknown>) => ({
-                id: crypto.randomUUID(),
-                name: (checklist.title as string) ?? "",
-                items: Array.isArray(checklist.items)
-                  ? checklist.items.map((item: Record<string, unknown>) => ({
-                      id: crypto.randomUUID(),
-                      type:
-                        RDAMAZIO_TYPE_MAP[item.type as string] ??
-                        ChecklistItemType.ChallengeResponse,
-                      challengeText: (item.prompt as string) ?? "",
-                      responseText: (item.expectation as string) ?? "",
-                      indent: Math.min((item.indent as number) ?? 0, 3) as
-                        | 0
-                        | 1
-                        | 2
-                        | 3,
-                      centered: (item.centered as boolean) ?? false,
-                      collapsible: false,
-                    }))
-                  : [],
-              }))
-            : [],
-        }))
-      : [],
-    metadata: {
-      aircraftRegistration: "",
-      makeModel: "",
-      copyright: "",
-    },
-  };
+/** Read the variable table, skipping malformed rows; omitted when empty */
+function parseVariables(raw: unknown): { variables?: ChecklistVariable[] } {
+  if (!Array.isArray(raw)) return {};
+  const variables = raw
+    .filter(
+      (row): row is ChecklistVariable =>
+        typeof row?.name === "string" && typeof row?.value === "string",
+    )
+    .map(({ name, value }) => ({ name, value }));
+  return variables.length > 0 ? { variables } : {};
 }
 
 /**
@@ -113,8 +45,8 @@ export const jsonParser: FormatParser = {
   parse(content: Buffer, fileName: string): ParsedChecklistFile {
     const raw = JSON.parse(content.toString("utf-8"));
 
-    if (isRdamazioFormat(raw)) {
-      return parseRdamazioFormat(raw, fileName);
+    if (isEfisEditorJson(raw)) {
+      return readEfisEditor(raw, fileName);
     }
 
     return {
@@ -128,10 +60,13 @@ export const jsonParser: FormatParser = {
             category:
               (group.category as ChecklistGroupCategory) ??
               ChecklistGroupCategory.Normal,
+            ...parseExtensions<FormatExtensions>(group.extensions),
             checklists: Array.isArray(group.checklists)
               ? group.checklists.map((checklist: Record<string, unknown>) => ({
                   id: crypto.randomUUID(),
                   name: (checklist.name as string) ?? "",
+                  ...(checklist.isDefault === true ? { isDefault: true } : {}),
+                  ...parseExtensions<ChecklistExtensions>(checklist.extensions),
                   items: Array.isArray(checklist.items)
                     ? checklist.items.map((item: Record<string, unknown>) => ({
                         id: crypto.randomUUID(),
@@ -143,6 +78,7 @@ export const jsonParser: FormatParser = {
                         indent: (item.indent as number) ?? 0,
                         centered: (item.centered as boolean) ?? false,
                         collapsible: (item.collapsible as boolean) ?? false,
+                        ...parseExtensions<FormatExtensions>(item.extensions),
                       }))
                     : [],
                 }))
@@ -154,7 +90,12 @@ export const jsonParser: FormatParser = {
           (raw.metadata?.aircraftRegistration as string) ?? "",
         makeModel: (raw.metadata?.makeModel as string) ?? "",
         copyright: (raw.metadata?.copyright as string) ?? "",
+        ...(typeof raw.metadata?.description === "string"
+          ? { description: raw.metadata.description as string }
+          : {}),
+        ...parseVariables(raw.metadata?.variables),
       },
+      ...parseExtensions<FormatExtensions>(raw.extensions),
     };
   },
 
@@ -165,8 +106,11 @@ export const jsonParser: FormatParser = {
       groups: file.groups.map((group) => ({
         name: group.name,
         category: group.category,
+        ...(group.extensions ? { extensions: group.extensions } : {}),
         checklists: group.checklists.map((checklist) => ({
           name: checklist.name,
+          ...(checklist.isDefault ? { isDefault: true } : {}),
+          ...(checklist.extensions ? { extensions: checklist.extensions } : {}),
           items: checklist.items.map((item) => ({
             type: item.type,
             challengeText: item.challengeText,
@@ -174,6 +118,7 @@ export const jsonParser: FormatParser = {
             indent: item.indent,
             centered: item.centered,
             collapsible: item.collapsible,
+            ...(item.extensions ? { extensions: item.extensions } : {}),
           })),
         })),
       })),
@@ -181,7 +126,19 @@ export const jsonParser: FormatParser = {
         aircraftRegistration: file.metadata.aircraftRegistration,
         makeModel: file.metadata.makeModel,
         copyright: file.metadata.copyright,
+        ...(file.metadata.description
+          ? { description: file.metadata.description }
+          : {}),
+        ...(file.metadata.variables?.length
+          ? {
+              variables: file.metadata.variables.map(({ name, value }) => ({
+                name,
+                value,
+              })),
+            }
+          : {}),
       },
+      ...(file.extensions ? { extensions: file.extensions } : {}),
     };
 
     return JSON.stringify(data, null, 2);
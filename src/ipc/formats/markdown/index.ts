@@ -0,0 +1,11 @@
+import type { FormatParser } from "../types";
+import { readMarkdown } from "./reader";
+import { writeMarkdown } from "./writer";
+
+/** Markdown format parser (.md), lossless and meant for review in diffs */
+export const markdownParser: FormatParser = {
+  parse(content, fileName) {
+    return readMarkdown(content.toString("utf-8"), fileName);
+  },
+  serialize: writeMarkdown,
+};
@@ -0,0 +1,307 @@
+import {
+  ChecklistFormat,
+  ChecklistGroupCategory,
+  ChecklistItemType,
+} from "@/types/checklist";
+import type {
+  Checklist,
+  ChecklistFileMetadata,
+  ChecklistGroup,
+  ChecklistItem,
+  ChecklistVariable,
+  FormatExtensions,
+} from "@/types/checklist";
+import type { ParsedChecklistFile } from "../types";
+import {
+  CALLOUT_LABELS,
+  CENTERED_TAG,
+  COLLAPSIBLE_TAG,
+  EMPTY_PLAIN_TEXT,
+  EXTENSIONS_KEY,
+  LIST_INDENT,
+  METADATA_KEYS,
+  STARTUP_TAG,
+  VARIABLES_KEY,
+  splitExtensions,
+  splitTags,
+  unescapeText,
+} from "./syntax";
+
+/** Group name used for checklists that come before any group heading */
+export const DEFAULT_MARKDOWN_GROUP = "Checklists";
+
+const CATEGORIES = Object.values(ChecklistGroupCategory) as string[];
+
+const CALLOUT = /^>\s*\*\*(\w+):\*\*\s?(.*)$/;
+
+/**
+ * `RESPONSE_SEPARATOR`, which may lose its trailing space when the response
+ * is empty. Dot runs in text are escaped, so the first match is the one.
+ */
+const SEPARATOR = / \.{4}(?: |$)/;
+
+/**
+ * Read Markdown written by `writeMarkdown`, or edited by hand in the same
+ * shape. Lines that are not front matter, a heading or a list item are
+ * skipped with a warning; so are tags and callout labels it does not know.
+ */
+export function readMarkdown(
+  content: string,
+  fileName: string,
+): ParsedChecklistFile {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const warnings: string[] = [];
+  const warnOnce = (message: string) => {
+    if (!warnings.includes(message)) warnings.push(message);
+  };
+
+  const metadata: ChecklistFileMetadata = {
+    aircraftRegistration: "",
+    makeModel: "",
+    copyright: "",
+  };
+  let fileExtensions: FormatExtensions | undefined;
+  let start = 0;
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === "---");
+    if (end !== -1) {
+      lines.slice(1, end).forEach((line, i) => {
+        const extensions = readFrontMatter(line, i + 2, metadata, warnOnce);
+        if (extensions) fileExtensions = extensions;
+      });
+      start = end + 1;
+    }
+  }
+
+  const groups: ChecklistGroup[] = [];
+  let group: ChecklistGroup | undefined;
+  let checklist: Checklist | undefined;
+
+  lines.slice(start).forEach((line, i) => {
+    const lineNumber = start + i + 1;
+    if (!line.trim()) return;
+
+    const { text: content, json } = splitExtensions(line);
+    const extensions = readExtensions(json, lineNumber, warnOnce);
+
+    const heading = content.match(/^(#{1,6})(?:\s+(.*))?$/);
+    if (heading) {
+      const { text, tags } = splitTags(heading[2] ?? "");
+      const name = unescapeText(text);
+      if (heading[1] === "#") {
+        const category = tags.find((tag) => CATEGORIES.includes(tag));
+        warnUnknownTags(tags, [...CATEGORIES], lineNumber, warnOnce);
+        group = {
+          id: crypto.randomUUID(),
+          name,
+          category:
+            (category as ChecklistGroupCategory | undefined) ??
+            ChecklistGroupCategory.Normal,
+          checklists: [],
+          ...extensions,
+        };
+        groups.push(group);
+        checklist = undefined;
+      } else if (heading[1] === "##") {
+        warnUnknownTags(tags, [STARTUP_TAG], lineNumber, warnOnce);
+        checklist = {
+          id: crypto.randomUUID(),
+          name,
+          ...(tags.includes(STARTUP_TAG) ? { isDefault: true } : {}),
+          items: [],
+          ...extensions,
+        };
+        currentGroup().checklists.push(checklist);
+      } else {
+        warnOnce(
+          `Heading on line ${lineNumber} is deeper than a checklist and was skipped`,
+        );
+      }
+      return;
+    }
+
+    const listItem = content.match(/^(\s*)[-*+](?:\s(.*))?$/);
+    if (!listItem) {
+      warnOnce(`Line ${lineNumber} is not a checklist item and was skipped`);
+      return;
+    }
+    if (!checklist) {
+      checklist = { id: crypto.randomUUID(), name: fileName, items: [] };
+      currentGroup().checklists.push(checklist);
+    }
+    const depth = Math.floor(
+      listItem[1].replace(/\t/g, LIST_INDENT).length / LIST_INDENT.length,
+    );
+    const { text, tags } = splitTags(listItem[2] ?? "");
+    warnUnknownTags(
+      tags,
+      [CENTERED_TAG, COLLAPSIBLE_TAG],
+      lineNumber,
+      warnOnce,
+    );
+    checklist.items.push({
+      id: crypto.randomUUID(),
+      ...readItemBody(text, lineNumber, warnOnce),
+      indent: Math.min(depth, 3) as ChecklistItem["indent"],
+      centered: tags.includes(CENTERED_TAG),
+      collapsible: tags.includes(COLLAPSIBLE_TAG),
+      ...extensions,
+    });
+  });
+
+  function currentGroup(): ChecklistGroup {
+    if (!group) {
+      group = {
+        id: crypto.randomUUID(),
+        name: DEFAULT_MARKDOWN_GROUP,
+        category: ChecklistGroupCategory.Normal,
+        checklists: [],
+      };
+      groups.push(group);
+    }
+    return group;
+  }
+
+  return {
+    name: fileName,
+    format: ChecklistFormat.Markdown,
+    filePath: undefined,
+    groups,
+    metadata,
+    ...(fileExtensions ? { extensions: fileExtensions } : {}),
+    ...(warnings.length ? { warnings } : {}),
+  };
+}
+
+/**
+ * Read one `key: value` front matter line into `metadata`; values may be
+ * JSON strings. Returns the file's format extensions if the line has them.
+ */
+function readFrontMatter(
+  line: string,
+  lineNumber: number,
+  metadata: ChecklistFileMetadata,
+  warn: (message: string) => void,
+): FormatExtensions | undefined {
+  const match = line.match(/^\s*(\w+)\s*:\s*(.*)$/);
+  if (!match) return;
+  const value = match[2].trim();
+
+  if (match[1] === VARIABLES_KEY) {
+    const variables = readVariables(parseJson(value));
+    if (!variables) {
+      warn(`Variables on line ${lineNumber} are not valid and were skipped`);
+    } else if (variables.length > 0) {
+      metadata.variables = variables;
+    }
+    return;
+  }
+  if (match[1] === EXTENSIONS_KEY) {
+    return readExtensions(value, lineNumber, warn)?.extensions;
+  }
+
+  const key = METADATA_KEYS.find((k) => k === match[1]);
+  if (!key) return;
+  const text = value.startsWith('"') ? parseJson(value) : undefined;
+  metadata[key] = typeof text === "string" ? text : value;
+}
+
+/** Parsed JSON, or undefined where it does not parse */
+function parseJson(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
+
+/** The variable table from its JSON; malformed rows are left out */
+function readVariables(raw: unknown): ChecklistVariable[] | undefined {
+  if (!Array.isArray(raw)) return;
+  return raw
+    .filter(
+      (row): row is ChecklistVariable =>
+        typeof row?.name === "string" && typeof row?.value === "string",
+    )
+    .map(({ name, value }) => ({ name, value }));
+}
+
+/** Format extensions from a comment's JSON, spread into the object it tags */
+function readExtensions(
+  json: string | undefined,
+  lineNumber: number,
+  warn: (message: string) => void,
+): { extensions: FormatExtensions } | undefined {
+  if (json === undefined) return;
+  const raw = parseJson(json);
+  if (raw && typeof raw === "object" && !Array.isArray(raw)) {
+    return { extensions: raw as FormatExtensions };
+  }
+  warn(`Extensions on line ${lineNumber} are not valid JSON and were skipped`);
+}
+
+function readItemBody(
+  body: string,
+  lineNumber: number,
+  warn: (message: string) => void,
+): Pick<ChecklistItem, "type" | "challengeText" | "responseText"> {
+  const item = (
+    type: ChecklistItemType,
+    challengeText = "",
+    responseText = "",
+  ) => ({
+    type,
+    challengeText: unescapeText(challengeText),
+    responseText: unescapeText(responseText),
+  });
+
+  if (!body) return item(ChecklistItemType.Space);
+  if (body === EMPTY_PLAIN_TEXT) return item(ChecklistItemType.PlainText);
+
+  const checkbox = body.match(/^\[[ xX]\](?: |$)/);
+  if (checkbox) {
+    const text = body.slice(checkbox[0].length);
+    const separator = text.match(SEPARATOR);
+    return separator
+      ? item(
+          ChecklistItemType.ChallengeResponse,
+          text.slice(0, separator.index),
+          text.slice(separator.index! + separator[0].length),
+        )
+      : item(ChecklistItemType.ChallengeOnly, text);
+  }
+
+  const title = body.match(/^\*\*(.*)\*\*$/);
+  if (title) return item(ChecklistItemType.Title, title[1]);
+
+  const callout = body.match(CALLOUT);
+  if (callout) {
+    const type = [...CALLOUT_LABELS].find(
+      ([, label]) => label.toLowerCase() === callout[1].toLowerCase(),
+    )?.[0];
+    if (!type) {
+      warn(
+        `Callout "${callout[1]}" on line ${lineNumber} is not a note, caution or warning and was read as a note`,
+      );
+    }
+    return item(type ?? ChecklistItemType.Note, callout[2]);
+  }
+  if (body.startsWith(">")) {
+    return item(ChecklistItemType.Note, body.replace(/^>\s?/, ""));
+  }
+
+  return item(ChecklistItemType.PlainText, body);
+}
+
+function warnUnknownTags(
+  tags: string[],
+  known: string[],
+  lineNumber: number,
+  warn: (message: string) => void,
+) {
+  for (const tag of tags) {
+    if (!known.includes(tag)) {
+      warn(`Unknown tag \`${tag}\` on line ${lineNumber} was ignored`);
+    }
+  }
+}
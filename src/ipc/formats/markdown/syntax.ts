@@ -0,0 +1,113 @@
+import { ChecklistItemType } from "@/types/checklist";
+import type { FormatExtensions } from "@/types/checklist";
+
+/** Between the challenge and response of a challenge/response item */
+export const RESPONSE_SEPARATOR = " .... ";
+
+/** Checkbox that starts a challenge item's text */
+export const CHECKBOX = "[ ] ";
+
+/** Tag on a checklist heading marking the startup checklist */
+export const STARTUP_TAG = "startup";
+
+/** Tags after an item's text for its flags */
+export const CENTERED_TAG = "centered";
+export const COLLAPSIBLE_TAG = "collapsible";
+
+/** Written for a plain text item with no text, which would read back as a space */
+export const EMPTY_PLAIN_TEXT = "<!---->";
+
+/** Bold label opening the blockquote of each callout type */
+export const CALLOUT_LABELS = new Map<ChecklistItemType, string>([
+  [ChecklistItemType.Note, "Note"],
+  [ChecklistItemType.Caution, "Caution"],
+  [ChecklistItemType.Warning, "Warning"],
+]);
+
+/** File metadata keys in the front matter, in the order they are written */
+export const METADATA_KEYS = [
+  "aircraftRegistration",
+  "makeModel",
+  "copyright",
+  "description",
+] as const;
+
+/** Front matter keys whose values are JSON rather than text */
+export const VARIABLES_KEY = "variables";
+export const EXTENSIONS_KEY = "extensions";
+
+/**
+ * Trailing HTML comment carrying the format extensions of a heading or
+ * item; it renders as nothing. JSON has no `>` outside strings, so writing
+ * those as `\u003e` keeps the comment from closing early.
+ */
+const EXTENSIONS_COMMENT = /\s*<!-- extensions: (.*) -->$/;
+
+/** `line` followed by the comment holding `extensions`, if there are any */
+export function withExtensions(
+  line: string,
+  extensions?: FormatExtensions,
+): string {
+  if (!extensions || Object.keys(extensions).length === 0) return line;
+  const json = JSON.stringify(extensions).replace(/>/g, "\\u003e");
+  return `${line} <!-- extensions: ${json} -->`;
+}
+
+/** Split a trailing extensions comment off `text`, returning its raw JSON */
+export function splitExtensions(text: string): {
+  text: string;
+  json?: string;
+} {
+  const match = text.match(EXTENSIONS_COMMENT);
+  if (!match) return { text };
+  return { text: text.slice(0, match.index), json: match[1] };
+}
+
+/** Spaces per indent level of nested lists */
+export const LIST_INDENT = "  ";
+
+/** Characters with a meaning somewhere in Markdown; text escapes them all */
+const SPECIAL_CHARACTERS = /[\\`*_[\]<>#~&|]/g;
+
+/**
+ * Escape `text` so it reads back verbatim: Markdown characters get a
+ * backslash, as do list markers at the start and dot runs that could be
+ * taken for the response separator. Line breaks and the spaces at either
+ * end (which Markdown drops) are written as `<br>` and `&#32;`.
+ */
+export function escapeText(text: string): string {
+  return text
+    .replace(SPECIAL_CHARACTERS, "\\$&")
+    .replace(/^([-+])(?= |$)/, "\\$1")
+    .replace(/^(\d+)([.)])(?= |$)/, "$1\\$2")
+    .replace(/\.(?=\.{3})/g, "\\.")
+    .replace(/\r?\n/g, "<br>")
+    .replace(/^ +| +$/g, (spaces) => "&#32;".repeat(spaces.length));
+}
+
+/** Undo `escapeText`; any backslash-escaped punctuation is accepted */
+export function unescapeText(text: string): string {
+  return text.replace(
+    /\\([!-/:-@[-`{-~])|<br\s*\/?>|&#32;/g,
+    (match, escaped: string | undefined) =>
+      escaped ?? (match === "&#32;" ? " " : "\n"),
+  );
+}
+
+/** A heading or item's text followed by its tags */
+export function withTags(text: string, tags: string[]): string {
+  return [text, ...tags.map((tag) => `\`${tag}\``)].join(" ").trim();
+}
+
+/** Split trailing `` `tag` `` code spans off `text` */
+export function splitTags(text: string): { text: string; tags: string[] } {
+  const tags: string[] = [];
+  let rest = text.trimEnd();
+  for (;;) {
+    const match = rest.match(/(?:^|\s+)`([a-z-]+)`$/);
+    if (!match) break;
+    tags.unshift(match[1]);
+    rest = rest.slice(0, match.index).trimEnd();
+  }
+  return { text: rest, tags };
+}
@@ -0,0 +1,108 @@
+import { ChecklistItemType } from "@/types/checklist";
+import type { ChecklistFile, ChecklistItem } from "@/types/checklist";
+import {
+  CALLOUT_LABELS,
+  CENTERED_TAG,
+  CHECKBOX,
+  COLLAPSIBLE_TAG,
+  EMPTY_PLAIN_TEXT,
+  EXTENSIONS_KEY,
+  LIST_INDENT,
+  METADATA_KEYS,
+  RESPONSE_SEPARATOR,
+  STARTUP_TAG,
+  VARIABLES_KEY,
+  escapeText,
+  withExtensions,
+  withTags,
+} from "./syntax";
+
+/** What follows the list marker for `item`, before its tags */
+function itemBody(item: ChecklistItem): string {
+  const challenge = escapeText(item.challengeText);
+  switch (item.type) {
+    case ChecklistItemType.ChallengeResponse:
+      return (
+        CHECKBOX +
+        challenge +
+        RESPONSE_SEPARATOR +
+        escapeText(item.responseText)
+      ).trimEnd();
+    case ChecklistItemType.ChallengeOnly:
+      return CHECKBOX + challenge;
+    case ChecklistItemType.Title:
+      return `**${challenge}**`;
+    case ChecklistItemType.Note:
+    case ChecklistItemType.Caution:
+    case ChecklistItemType.Warning:
+      return `> **${CALLOUT_LABELS.get(item.type)}:** ${challenge}`.trimEnd();
+    case ChecklistItemType.PlainText:
+      return challenge || EMPTY_PLAIN_TEXT;
+    case ChecklistItemType.Space:
+      return "";
+  }
+}
+
+function writeItem(item: ChecklistItem): string {
+  const tags = [
+    ...(item.centered ? [CENTERED_TAG] : []),
+    ...(item.collapsible ? [COLLAPSIBLE_TAG] : []),
+  ];
+  const text = withTags(itemBody(item), tags);
+  return withExtensions(
+    `${LIST_INDENT.repeat(item.indent)}-${text ? ` ${text}` : ""}`,
+    item.extensions,
+  );
+}
+
+/**
+ * Write Markdown meant to be read and diffed: file metadata as front matter,
+ * groups as H1 headings tagged with their category, checklists as H2
+ * headings and items as list items nested to their indent. Checkable items
+ * get a task box; callouts are blockquotes. Variable tokens are written as
+ * they are, with the variable table in the front matter, and format
+ * extensions follow their heading or item as an HTML comment.
+ */
+export function writeMarkdown(file: ChecklistFile): string {
+  const blocks: string[] = [];
+
+  const frontMatter = [
+    ...METADATA_KEYS.flatMap((key) =>
+      file.metadata[key]
+        ? [`${key}: ${JSON.stringify(file.metadata[key])}`]
+        : [],
+    ),
+    ...(file.metadata.variables?.length
+      ? [`${VARIABLES_KEY}: ${JSON.stringify(file.metadata.variables)}`]
+      : []),
+    ...(file.extensions && Object.keys(file.extensions).length > 0
+      ? [`${EXTENSIONS_KEY}: ${JSON.stringify(file.extensions)}`]
+      : []),
+  ];
+  if (frontMatter.length > 0) {
+    blocks.push(["---", ...frontMatter, "---"].join("\n"));
+  }
+
+  for (const group of file.groups) {
+    blocks.push(
+      withExtensions(
+        `# ${withTags(escapeText(group.name), [group.category])}`,
+        group.extensions,
+      ),
+    );
+    for (const checklist of group.checklists) {
+      const tags = checklist.isDefault ? [STARTUP_TAG] : [];
+      blocks.push(
+        withExtensions(
+          `## ${withTags(escapeText(checklist.name), tags)}`.trimEnd(),
+          checklist.extensions,
+        ),
+      );
+      if (checklist.items.length > 0) {
+        blocks.push(checklist.items.map(writeItem).join("\n"));
+      }
+    }
+  }
+
+  return blocks.join("\n\n") + "\n";
+}
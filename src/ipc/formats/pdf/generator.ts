@@ -1,22 +1,674 @@
 import PDFDocument from "pdfkit";
-import { ChecklistItemType } from "@/types/checklist";
-import type { ChecklistFile } from "@/types/checklist";
+import { ChecklistGroupCategory, ChecklistItemType } from "@/types/checklist";
+import type {
+  Checklist,
+  ChecklistFile,
+  ChecklistGroup,
+  ChecklistItem,
+  ExportOptions,
+} from "@/types/checklist";
+import { PDF_PAGE_SIZES, resolvePdfOptions } from "./options";
+import type { PdfLayoutOptions } from "./options";
+
+const FONT = {
+  regular: "Helvetica",
+  bold: "Helvetica-Bold",
+  oblique: "Helvetica-Oblique",
+};
+
+const COLOR = {
+  text: "#000000",
+  muted: "#666666",
+  faint: "#999999",
+  rule: "#cccccc",
+  note: "#555555",
+  warning: "#cc0000",
+  caution: "#cc6600",
+  onBand: "#ffffff",
+};
+
+/** Heading color per group category when category colors are enabled */
+const CATEGORY_COLOR: Record<ChecklistGroupCategory, string | null> = {
+  [ChecklistGroupCategory.Normal]: null,
+  [ChecklistGroupCategory.Emergency]: COLOR.warning,
+  [ChecklistGroupCategory.Abnormal]: COLOR.caution,
+};
+
+/** Heading sizes scale from the body size */
+function fontSizes(body: number) {
+  return {
+    title: body * 2,
+    group: body + 5,
+    checklist: body + 3,
+    body,
+    note: body - 1,
+    small: Math.max(6, body - 2),
+  };
+}
+
+/** Page geometry plus the flow cursor */
+interface Layout {
+  doc: PDFKit.PDFDocument;
+  options: PdfLayoutOptions;
+  sizes: ReturnType<typeof fontSizes>;
+  pageWidth: number;
+  pageHeight: number;
+  margin: number;
+  /** Content frame, inside the margins and any header/footer */
+  left: number;
+  top: number;
+  bottom: number;
+  contentWidth: number;
+  columnWidth: number;
+  gutter: number;
+  /** Current column, 0-based */
+  column: number;
+  /** Where columns start on the current page (below the title on page one) */
+  columnTop: number;
+  y: number;
+}
+
+// ---------------------------------------------------------------------------
+// Flow
+// ---------------------------------------------------------------------------
+
+function columnX(layout: Layout): number {
+  return layout.left + layout.column * (layout.columnWidth + layout.gutter);
+}
+
+function newPage(layout: Layout) {
+  layout.doc.addPage();
+  layout.column = 0;
+  layout.columnTop = layout.top;
+  layout.y = layout.top;
+}
+
+function nextColumn(layout: Layout) {
+  if (layout.column + 1 < layout.options.columns) {
+    layout.column++;
+    layout.y = layout.columnTop;
+  } else {
+    newPage(layout);
+  }
+}
+
+function atPageStart(layout: Layout): boolean {
+  return layout.column === 0 && layout.y === layout.columnTop;
+}
+
+/** Move to the next column unless `height` fits (or the column is still empty) */
+function ensureSpace(layout: Layout, height: number) {
+  if (layout.y + height > layout.bottom && layout.y > layout.columnTop) {
+    nextColumn(layout);
+  }
+}
+
+function currentPageIndex(doc: PDFKit.PDFDocument): number {
+  const range = doc.bufferedPageRange();
+  return range.start + range.count - 1;
+}
+
+// ---------------------------------------------------------------------------
+// Items
+// ---------------------------------------------------------------------------
+
+interface TextStyle {
+  font: string;
+  size: number;
+  color: string;
+  text: string;
+}
+
+/** How an item's (challenge) text is printed */
+function itemStyle(layout: Layout, item: ChecklistItem): TextStyle {
+  const { sizes } = layout;
+  switch (item.type) {
+    case ChecklistItemType.Title:
+      return {
+        font: FONT.bold,
+        size: sizes.body,
+        color: COLOR.text,
+        text: item.challengeText.toUpperCase(),
+      };
+    case ChecklistItemType.Note:
+      return {
+        font: FONT.oblique,
+        size: sizes.note,
+        color: COLOR.note,
+        text: item.challengeText,
+      };
+    case ChecklistItemType.Warning:
+      return {
+        font: FONT.bold,
+        size: sizes.body,
+        color: COLOR.warning,
+        text: "WARNING: " + item.challengeText,
+      };
+    case ChecklistItemType.Caution:
+      return {
+        font: FONT.bold,
+        size: sizes.body,
+        color: COLOR.caution,
+        text: "CAUTION: " + item.challengeText,
+      };
+    case ChecklistItemType.Space:
+      // Measured as one blank line
+      return {
+        font: FONT.regular,
+        size: sizes.body,
+        color: COLOR.text,
+        text: "",
+      };
+    default:
+      return {
+        font: FONT.regular,
+        size: sizes.body,
+        color: COLOR.text,
+        text: item.challengeText,
+      };
+  }
+}
+
+function hasResponse(item: ChecklistItem): boolean {
+  return (
+    item.type === ChecklistItemType.ChallengeResponse &&
+    item.responseText.length > 0
+  );
+}
+
+/** Split a challenge/response row: the response gets what it needs, up to 45% */
+function responseColumns(layout: Layout, item: ChecklistItem, width: number) {
+  const { doc, sizes } = layout;
+  const gap = sizes.body;
+
+  doc.font(FONT.bold).fontSize(sizes.body);
+  const responseWidth = Math.min(
+    Math.ceil(doc.widthOfString(item.responseText)) + 1,
+    width * 0.45,
+  );
+  const responseHeight = doc.heightOfString(item.responseText, {
+    width: responseWidth,
+  });
+
+  const challengeWidth = width - responseWidth - gap;
+  doc.font(FONT.regular);
+  const challengeHeight = doc.heightOfString(item.challengeText || " ", {
+    width: challengeWidth,
+  });
+
+  return {
+    gap,
+    responseWidth,
+    challengeWidth,
+    challengeHeight,
+    height: Math.max(challengeHeight, responseHeight),
+  };
+}
+
+function itemIndent(layout: Layout, item: ChecklistItem): number {
+  return item.indent * layout.sizes.body * 1.5;
+}
+
+function measureItem(layout: Layout, item: ChecklistItem): number {
+  const width = layout.columnWidth - itemIndent(layout, item);
+  if (hasResponse(item)) {
+    return responseColumns(layout, item, width).height;
+  }
+  const style = itemStyle(layout, item);
+  return layout.doc
+    .font(style.font)
+    .fontSize(style.size)
+    .heightOfString(style.text || " ", {
+      width,
+      align: item.centered ? "center" : "left",
+    });
+}
+
+function drawItem(layout: Layout, item: ChecklistItem) {
+  const { doc, sizes, y } = layout;
+  const x = columnX(layout) + itemIndent(layout, item);
+  const width = layout.columnWidth - itemIndent(layout, item);
+
+  if (!hasResponse(item)) {
+    const style = itemStyle(layout, item);
+    doc
+      .font(style.font)
+      .fontSize(style.size)
+      .fillColor(style.color)
+      .text(style.text, x, y, {
+        width,
+        align: item.centered ? "center" : "left",
+      });
+    doc.fillColor(COLOR.text);
+    return;
+  }
+
+  const row = responseColumns(layout, item, width);
+  doc
+    .font(FONT.regular)
+    .fontSize(sizes.body)
+    .fillColor(COLOR.text)
+    .text(item.challengeText, x, y, { width: row.challengeWidth });
+
+  // Dots only make sense when challenge and response share a single line
+  if (
+    layout.options.dotLeaders &&
+    row.challengeHeight <= doc.currentLineHeight() * 1.2
+  ) {
+    const dotsStart = x + doc.widthOfString(item.challengeText) + row.gap / 2;
+    doc.font(FONT.bold);
+    const responseStart =
+      x +
+      width -
+      Math.min(doc.widthOfString(item.responseText), row.responseWidth);
+    doc.font(FONT.regular);
+    const count = Math.floor(
+      (responseStart - row.gap / 2 - dotsStart) / doc.widthOfString(" ."),
+    );
+    if (count > 0) {
+      doc
+        .fillColor(COLOR.faint)
+        .text(" .".repeat(count), dotsStart, y, { lineBreak: false });
+    }
+  }
+
+  doc
+    .font(FONT.bold)
+    .fillColor(COLOR.text)
+    .text(item.responseText, x + width - row.responseWidth, y, {
+      width: row.responseWidth,
+      align: "right",
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Checklists and groups
+// ---------------------------------------------------------------------------
+
+function categoryColor(
+  layout: Layout,
+  category: ChecklistGroupCategory,
+): string | null {
+  return layout.options.categoryColors ? CATEGORY_COLOR[category] : null;
+}
+
+function itemGap(layout: Layout): number {
+  return layout.sizes.body * 0.3;
+}
+
+function checklistHeaderText(checklist: Checklist, continued: boolean): string {
+  return continued ? `${checklist.name} (cont.)` : checklist.name;
+}
+
+function measureChecklistHeader(layout: Layout, checklist: Checklist): number {
+  const { doc, sizes } = layout;
+  doc.font(FONT.bold).fontSize(sizes.checklist);
+  return (
+    doc.heightOfString(checklistHeaderText(checklist, true), {
+      width: layout.columnWidth,
+    }) +
+    sizes.body * 0.6
+  );
+}
+
+function drawChecklistHeader(
+  layout: Layout,
+  checklist: Checklist,
+  category: ChecklistGroupCategory,
+  continued: boolean,
+) {
+  const { doc, sizes } = layout;
+  const x = columnX(layout);
+  const color = categoryColor(layout, category);
+
+  doc
+    .font(FONT.bold)
+    .fontSize(sizes.checklist)
+    .fillColor(color ?? COLOR.text)
+    .text(checklistHeaderText(checklist, continued), x, layout.y, {
+      width: layout.columnWidth,
+    });
+  const ruleY = doc.y + sizes.body * 0.15;
+  doc
+    .strokeColor(color ?? COLOR.rule)
+    .lineWidth(color ? 1 : 0.5)
+    .moveTo(x, ruleY)
+    .lineTo(x + layout.columnWidth, ruleY)
+    .stroke();
+  doc.fillColor(COLOR.text);
+
+  layout.y += measureChecklistHeader(layout, checklist);
+}
+
+function measureChecklist(layout: Layout, checklist: Checklist): number {
+  let height = measureChecklistHeader(layout, checklist);
+  for (const item of checklist.items) {
+    height += measureItem(layout, item) + itemGap(layout);
+  }
+  return height;
+}
+
+/** Space that must be free in the current column to start a checklist there */
+function checklistLeadHeight(layout: Layout, checklist: Checklist): number {
+  const whole = measureChecklist(layout, checklist);
+  if (
+    layout.options.keepChecklistsTogether &&
+    whole <= layout.bottom - layout.top
+  ) {
+    return whole;
+  }
+  const first = checklist.items[0];
+  return (
+    measureChecklistHeader(layout, checklist) +
+    (first ? measureItem(layout, first) : 0)
+  );
+}
+
+function drawChecklist(
+  layout: Layout,
+  group: ChecklistGroup,
+  checklist: Checklist,
+  destination: string,
+  pages: Map<string, number>,
+  outline: PDFKit.PDFOutline,
+) {
+  const { doc } = layout;
+  ensureSpace(layout, checklistLeadHeight(layout, checklist));
+
+  doc.addNamedDestination(destination);
+  pages.set(destination, currentPageIndex(doc));
+  outline.addItem(checklist.name);
+  drawChecklistHeader(layout, checklist, group.category, false);
+
+  for (const item of checklist.items) {
+    const height = measureItem(layout, item);
+    if (layout.y + height > layout.bottom && layout.y > layout.columnTop) {
+      nextColumn(layout);
+      drawChecklistHeader(layout, checklist, group.category, true);
+    }
+    drawItem(layout, item);
+    layout.y += height + itemGap(layout);
+  }
+
+  layout.y += layout.sizes.body;
+}
+
+function measureGroupHeader(layout: Layout, group: ChecklistGroup): number {
+  const { doc, sizes } = layout;
+  doc.font(FONT.bold).fontSize(sizes.group);
+  const padding = categoryColor(layout, group.category) ? sizes.body * 0.4 : 0;
+  return (
+    doc.heightOfString(group.name.toUpperCase(), {
+      width: layout.columnWidth - padding * 2,
+    }) +
+    padding * 2 +
+    sizes.body * 0.5
+  );
+}
+
+/** Group names print on a colored band for emergency and abnormal groups */
+function drawGroupHeader(layout: Layout, group: ChecklistGroup) {
+  const { doc, sizes } = layout;
+  const x = columnX(layout);
+  const color = categoryColor(layout, group.category);
+  const height = measureGroupHeader(layout, group);
+
+  if (color) {
+    const padding = sizes.body * 0.4;
+    doc
+      .rect(x, layout.y, layout.columnWidth, height - sizes.body * 0.5)
+      .fill(color);
+    doc
+      .font(FONT.bold)
+      .fontSize(sizes.group)
+      .fillColor(COLOR.onBand)
+      .text(group.name.toUpperCase(), x + padding, layout.y + padding, {
+        width: layout.columnWidth - padding * 2,
+      });
+  } else {
+    doc
+      .font(FONT.bold)
+      .fontSize(sizes.group)
+      .fillColor(COLOR.text)
+      .text(group.name.toUpperCase(), x, layout.y, {
+        width: layout.columnWidth,
+      });
+  }
+  doc.fillColor(COLOR.text);
+
+  layout.y += height;
+}
+
+// ---------------------------------------------------------------------------
+// Title, table of contents, headers and footers
+// ---------------------------------------------------------------------------
+
+function drawTitle(layout: Layout, file: ChecklistFile) {
+  const { doc, sizes } = layout;
+
+  doc
+    .font(FONT.bold)
+    .fontSize(sizes.title)
+    .fillColor(COLOR.text)
+    .text(file.name, layout.left, layout.y, {
+      width: layout.contentWidth,
+      align: "center",
+    });
+
+  if (file.metadata.makeModel || file.metadata.aircraftRegistration) {
+    doc.moveDown(0.3);
+    doc
+      .font(FONT.regular)
+      .fontSize(sizes.body + 1)
+      .fillColor(COLOR.muted)
+      .text(
+        [file.metadata.makeModel, file.metadata.aircraftRegistration]
+          .filter(Boolean)
+          .join(" — "),
+        layout.left,
+        doc.y,
+        { width: layout.contentWidth, align: "center" },
+      );
+  }
+
+  doc.fillColor(COLOR.text);
+  layout.y = doc.y + sizes.body * 1.5;
+  layout.columnTop = layout.y;
+}
+
+interface TocEntry {
+  label: string;
+  level: 0 | 1;
+  destination: string;
+  page: number;
+  y: number;
+}
+
+/**
+ * Lay out the contents list with blank page numbers; they are filled in by
+ * `fillToc` once the checklists have been placed.
+ */
+function reserveToc(layout: Layout, file: ChecklistFile): TocEntry[] {
+  const { doc, sizes } = layout;
+
+  doc
+    .font(FONT.bold)
+    .fontSize(sizes.checklist)
+    .text("Contents", layout.left, layout.y, { width: layout.contentWidth });
+  layout.y = doc.y + sizes.body * 0.5;
+
+  doc.font(FONT.regular).fontSize(sizes.body);
+  const lineHeight = doc.currentLineHeight(true) * 1.4;
+  const entries: TocEntry[] = [];
+
+  function reserve(label: string, level: 0 | 1, destination: string) {
+    if (layout.y + lineHeight > layout.bottom) newPage(layout);
+    entries.push({
+      label,
+      level,
+      destination,
+      page: currentPageIndex(doc),
+      y: layout.y,
+    });
+    layout.y += lineHeight;
+  }
+
+  file.groups.forEach((group, gi) => {
+    reserve(group.name, 0, `group-${gi}`);
+    group.checklists.forEach((checklist, ci) => {
+      reserve(checklist.name, 1, `checklist-${gi}-${ci}`);
+    });
+  });
+
+  return entries;
+}
+
+function fillToc(
+  layout: Layout,
+  entries: TocEntry[],
+  pages: Map<string, number>,
+) {
+  const { doc, sizes } = layout;
+
+  for (const entry of entries) {
+    const page = pages.get(entry.destination);
+    if (page === undefined) continue;
+    doc.switchToPage(entry.page);
+
+    const x = layout.left + entry.level * sizes.body * 1.5;
+    const right = layout.left + layout.contentWidth;
+    const pageLabel = `${page + 1}`;
+
+    doc
+      .font(entry.level === 0 ? FONT.bold : FONT.regular)
+      .fontSize(sizes.body)
+      .fillColor(COLOR.text);
+    const labelWidth = Math.min(
+      doc.widthOfString(entry.label),
+      layout.contentWidth * 0.8,
+    );
+    doc.text(entry.label, x, entry.y, {
+      width: labelWidth + 1,
+      lineBreak: false,
+      ellipsis: true,
+    });
+
+    doc.font(FONT.regular);
+    const numberWidth = doc.widthOfString(pageLabel);
+    const dotsStart = x + labelWidth + sizes.body / 2;
+    const count = Math.floor(
+      (right - numberWidth - sizes.body / 2 - dotsStart) /
+        doc.widthOfString(" ."),
+    );
+    if (count > 0) {
+      doc
+        .fillColor(COLOR.faint)
+        .text(" .".repeat(count), dotsStart, entry.y, { lineBreak: false });
+    }
+    doc
+      .fillColor(COLOR.text)
+      .text(pageLabel, right - numberWidth, entry.y, { lineBreak: false });
+
+    doc.goTo(x, entry.y, right - x, doc.currentLineHeight(), entry.destination);
+  }
+}
+
+/** Header and footer heights reserved when they are enabled */
+function headerFooterHeight(sizes: ReturnType<typeof fontSizes>): number {
+  return sizes.small * 2.5;
+}
+
+function drawHeadersAndFooters(layout: Layout, file: ChecklistFile) {
+  const { doc, sizes, margin } = layout;
+  const { start, count } = doc.bufferedPageRange();
+  const band = headerFooterHeight(sizes);
+  const width = layout.contentWidth;
+  const aircraft = [file.metadata.aircraftRegistration, file.metadata.makeModel]
+    .filter(Boolean)
+    .join(" — ");
+
+  for (let i = start; i < start + count; i++) {
+    doc.switchToPage(i);
+    // Footers sit below the bottom margin, which would otherwise add a page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+
+    doc.font(FONT.regular).fontSize(sizes.small).fillColor(COLOR.muted);
+
+    const headerY = margin;
+    doc.text(aircraft, layout.left, headerY, {
+      width: width / 2,
+      lineBreak: false,
+      ellipsis: true,
+    });
+    doc.text(file.name, layout.left + width / 2, headerY, {
+      width: width / 2,
+      align: "right",
+      lineBreak: false,
+      ellipsis: true,
+    });
+    const headerRuleY = margin + band - sizes.small;
+    doc
+      .strokeColor(COLOR.rule)
+      .lineWidth(0.5)
+      .moveTo(layout.left, headerRuleY)
+      .lineTo(layout.left + width, headerRuleY)
+      .stroke();
+
+    const footerY = layout.pageHeight - margin - sizes.small;
+    const footerRuleY = footerY - sizes.small * 0.8;
+    doc
+      .moveTo(layout.left, footerRuleY)
+      .lineTo(layout.left + width, footerRuleY)
+      .stroke();
+    doc.text(layout.options.revision, layout.left, footerY, {
+      width: width / 2,
+      lineBreak: false,
+      ellipsis: true,
+    });
+    doc.text(
+      `Page ${i - start + 1} of ${count}`,
+      layout.left + width / 2,
+      footerY,
+      { width: width / 2, align: "right", lineBreak: false },
+    );
+
+    doc.page.margins.bottom = bottomMargin;
+  }
+
+  doc.fillColor(COLOR.text);
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
 
 /**
  * Generate a PDF buffer from a ChecklistFile.
  *
- * Layout: US Letter, basic typographic hierarchy.
- * - File name as document title
- * - Group names as section headers
- * - Checklist names as sub-headers
- * - Items as rows with challenge/response layout
+ * Layout is driven by the PDF export options (see `PdfLayoutOptions`):
+ * - File name and aircraft as the document title, then an optional contents list
+ * - Groups and checklists flowing through 1-3 columns per page
+ * - Items as rows with challenge/response layout and optional dot leaders
+ * - Optional running header (aircraft, file name) and footer (revision, page)
  */
-export function generatePdf(file: ChecklistFile): Promise<Buffer> {
+export function generatePdf(
+  file: ChecklistFile,
+  overrides?: ExportOptions,
+): Promise<Buffer> {
   return new Promise<Buffer>((resolve, reject) => {
     try {
+      const options = resolvePdfOptions(overrides);
+      const paper = PDF_PAGE_SIZES[options.pageSize];
+      const landscape = options.orientation === "landscape";
+      const pageWidth = landscape ? paper.height : paper.width;
+      const pageHeight = landscape ? paper.width : paper.height;
+      const margin = paper.margin;
+
       const doc = new PDFDocument({
-        size: "LETTER",
-        margins: { top: 50, bottom: 50, left: 50, right: 50 },
+        size: [pageWidth, pageHeight],
+        margins: { top: margin, bottom: margin, left: margin, right: margin },
+        bufferPages: true,
         info: {
           Title: file.name,
           Creator: "EFIS Checklist Editor",
@@ -28,157 +680,94 @@ export function generatePdf(file: ChecklistFile): Promise<Buffer> {
       doc.on("end", () => resolve(Buffer.concat(chunks)));
       doc.on("error", reject);
 
-      const pageWidth = 612 - 100; // letter width minus margins
+      const sizes = fontSizes(options.fontSize);
+      const band = options.headerFooter ? headerFooterHeight(sizes) : 0;
+      const contentWidth = pageWidth - margin * 2;
+      const gutter = sizes.body * 2;
 
-      // Document title
-      doc
-        .fontSize(18)
-        .font("Helvetica-Bold")
-        .text(file.name, { align: "center" });
+      const layout: Layout = {
+        doc,
+        options,
+        sizes,
+        pageWidth,
+        pageHeight,
+        margin,
+        left: margin,
+        top: margin + band,
+        bottom: pageHeight - margin - band,
+        contentWidth,
+        columnWidth:
+          (contentWidth - gutter * (options.columns - 1)) / options.columns,
+        gutter,
+        column: 0,
+        columnTop: margin + band,
+        y: margin + band,
+      };
 
-      // Metadata
-      if (file.metadata.makeModel || file.metadata.aircraftRegistration) {
-        doc.moveDown(0.3);
-        doc
-          .fontSize(10)
-          .font("Helvetica")
-          .fillColor("#666666")
-          .text(
-            [file.metadata.makeModel, file.metadata.aircraftRegistration]
-              .filter(Boolean)
-              .join(" — "),
-            { align: "center" },
-          );
+      drawTitle(layout, file);
+
+      let toc: TocEntry[] = [];
+      if (options.tableOfContents) {
+        toc = reserveToc(layout, file);
+        newPage(layout);
       }
 
-      doc.moveDown(1);
-      doc.fillColor("#000000");
-
-      for (const group of file.groups) {
-        // Group header
-        doc.fontSize(14).font("Helvetica-Bold").text(group.name.toUpperCase());
-        doc.moveDown(0.3);
-
-        for (const checklist of group.checklists) {
-          // Check if we need a new page (leave room for at least a few items)
-          if (doc.y > 650) doc.addPage();
-
-          // Checklist header
-          doc.fontSize(12).font("Helvetica-Bold").text(checklist.name);
-          doc.moveDown(0.2);
-
-          // Draw a thin separator line
-          doc
-            .strokeColor("#cccccc")
-            .lineWidth(0.5)
-            .moveTo(50, doc.y)
-            .lineTo(50 + pageWidth, doc.y)
-            .stroke();
-          doc.moveDown(0.3);
-
-          for (const item of checklist.items) {
-            if (doc.y > 700) doc.addPage();
-
-            const indent = item.indent * 15;
-
-            switch (item.type) {
-              case ChecklistItemType.Title:
-                doc
-                  .fontSize(10)
-                  .font("Helvetica-Bold")
-                  .text(item.challengeText.toUpperCase(), 50 + indent, doc.y);
-                break;
-
-              case ChecklistItemType.ChallengeResponse: {
-                const challengeWidth = pageWidth * 0.6 - indent;
-                const responseWidth = pageWidth * 0.35;
-                const y = doc.y;
-
-                doc
-                  .fontSize(9)
-                  .font("Helvetica")
-                  .text(item.challengeText, 50 + indent, y, {
-                    width: challengeWidth,
-                    continued: false,
-                  });
-
-                // Draw dot leader
-                const dotsY = y + 3;
-                doc
-                  .fontSize(7)
-                  .fillColor("#999999")
-                  .text("...........", 50 + indent + challengeWidth, dotsY, {
-                    width: 30,
-                  });
-
-                doc
-                  .fontSize(9)
-                  .font("Helvetica-Bold")
-                  .fillColor("#000000")
-                  .text(item.responseText, 50 + pageWidth - responseWidth, y, {
-                    width: responseWidth,
-                    align: "right",
-                  });
-
-                // Ensure we move past the tallest element
-                doc.y = Math.max(doc.y, y + 12);
-                break;
-              }
-
-              case ChecklistItemType.ChallengeOnly:
-                doc
-                  .fontSize(9)
-                  .font("Helvetica")
-                  .text(item.challengeText, 50 + indent, doc.y);
-                break;
-
-              case ChecklistItemType.Note:
-                doc
-                  .fontSize(8)
-                  .font("Helvetica-Oblique")
-                  .fillColor("#555555")
-                  .text(item.challengeText, 50 + indent, doc.y);
-                doc.fillColor("#000000");
-                break;
-
-              case ChecklistItemType.Warning:
-                doc
-                  .fontSize(9)
-                  .font("Helvetica-Bold")
-                  .fillColor("#cc0000")
-                  .text("WARNING: " + item.challengeText, 50 + indent, doc.y);
-                doc.fillColor("#000000");
-                break;
-
-              case ChecklistItemType.Caution:
-                doc
-                  .fontSize(9)
-                  .font("Helvetica-Bold")
-                  .fillColor("#cc6600")
-                  .text("CAUTION: " + item.challengeText, 50 + indent, doc.y);
-                doc.fillColor("#000000");
-                break;
-            }
-
-            doc.moveDown(0.15);
-          }
-
-          doc.moveDown(0.5);
+      // Page index of every group and checklist, for the contents list
+      const pages = new Map<string, number>();
+
+      file.groups.forEach((group, gi) => {
+        if (options.groupsOnNewPage && !atPageStart(layout)) {
+          newPage(layout);
         }
 
-        doc.moveDown(0.5);
-      }
+        const first = group.checklists[0];
+        ensureSpace(
+          layout,
+          measureGroupHeader(layout, group) +
+            (first ? checklistLeadHeight(layout, first) : 0),
+        );
+
+        const groupDestination = `group-${gi}`;
+        doc.addNamedDestination(groupDestination);
+        pages.set(groupDestination, currentPageIndex(doc));
+        const outline = doc.outline.addItem(group.name);
+        drawGroupHeader(layout, group);
+
+        group.checklists.forEach((checklist, ci) => {
+          drawChecklist(
+            layout,
+            group,
+            checklist,
+            `checklist-${gi}-${ci}`,
+            pages,
+            outline,
+          );
+        });
+
+        layout.y += sizes.body * 0.5;
+      });
 
-      // Footer with copyright if present
+      // Copyright closes the document
       if (file.metadata.copyright) {
-        doc.moveDown(1);
+        doc.font(FONT.regular).fontSize(sizes.small);
+        ensureSpace(
+          layout,
+          doc.heightOfString(file.metadata.copyright, {
+            width: layout.columnWidth,
+          }),
+        );
         doc
-          .fontSize(8)
-          .font("Helvetica")
-          .fillColor("#999999")
-          .text(file.metadata.copyright, { align: "center" });
+          .fillColor(COLOR.faint)
+          .text(file.metadata.copyright, columnX(layout), layout.y, {
+            width: layout.columnWidth,
+            align: "center",
+          });
+        doc.fillColor(COLOR.text);
       }
 
+      fillToc(layout, toc, pages);
+      if (options.headerFooter) drawHeadersAndFooters(layout, file);
+
       doc.end();
     } catch (err) {
       reject(err);
@@ -1,5 +1,6 @@
-import type { ChecklistFile } from "@/types/checklist";
-import type { FormatParser } from "../types";
+import type { ChecklistFile, ExportOptions } from "@/types/checklist";
+import type { FormatDiagnostic, FormatParser } from "../types";
+import { createDiagnostics, reportLiveDataTokens } from "../validation";
 import { generatePdf } from "./generator";
 
 /**
@@ -9,7 +10,7 @@ import { generatePdf } from "./generator";
  * throws. Handlers should use pdfParser.serializeAsync() instead.
  */
 export const pdfParser: FormatParser & {
-  serializeAsync(file: ChecklistFile): Promise<Buffer>;
+  serializeAsync(file: ChecklistFile, options?: ExportOptions): Promise<Buffer>;
 } = {
   parse(): never {
     throw new Error("PDF import is not supported");
@@ -20,4 +21,9 @@ export const pdfParser: FormatParser & {
     );
   },
   serializeAsync: generatePdf,
+  validate(file: ChecklistFile): FormatDiagnostic[] {
+    const report = createDiagnostics();
+    reportLiveDataTokens(file, report, "PDF");
+    return report.diagnostics;
+  },
 };
@@ -0,0 +1,81 @@
+import type {
+  ExportOptions,
+  PdfOrientation,
+  PdfPageSize,
+} from "@/types/checklist";
+
+/** Paper sizes in points (1/72 in), portrait, with the margin used on each */
+export const PDF_PAGE_SIZES: Record<
+  PdfPageSize,
+  { label: string; width: number; height: number; margin: number }
+> = {
+  letter: { label: "US Letter", width: 612, height: 792, margin: 50 },
+  a4: { label: "A4", width: 595.28, height: 841.89, margin: 50 },
+  a5: { label: "A5", width: 419.53, height: 595.28, margin: 32 },
+  kneeboard: {
+    label: "Kneeboard (5.5 × 8.5 in)",
+    width: 396,
+    height: 612,
+    margin: 28,
+  },
+};
+
+/** Fully resolved PDF layout settings */
+export interface PdfLayoutOptions {
+  pageSize: PdfPageSize;
+  orientation: PdfOrientation;
+  /** Number of text columns per page, 1-3 */
+  columns: number;
+  /** Fill the gap between challenge and response with dots */
+  dotLeaders: boolean;
+  /** Body text size in points; headings scale from it */
+  fontSize: number;
+  /** Color emergency and abnormal group and checklist headings */
+  categoryColors: boolean;
+  /** Move a checklist to the next column rather than split it */
+  keepChecklistsTogether: boolean;
+  /** Start every group at the top of a new page */
+  groupsOnNewPage: boolean;
+  tableOfContents: boolean;
+  /** Registration and file name on top of each page, revision and page number below */
+  headerFooter: boolean;
+  /** Revision label printed in the footer */
+  revision: string;
+}
+
+export const PDF_DEFAULTS: PdfLayoutOptions = {
+  pageSize: "letter",
+  orientation: "portrait",
+  columns: 1,
+  dotLeaders: true,
+  fontSize: 9,
+  categoryColors: true,
+  keepChecklistsTogether: true,
+  groupsOnNewPage: false,
+  tableOfContents: false,
+  headerFooter: false,
+  revision: "",
+};
+
+export const PDF_FONT_SIZE_RANGE = { min: 6, max: 16 };
+
+/** The defaults as export overrides, e.g. to prefill a form */
+export function getPdfExportDefaults(): ExportOptions {
+  return { ...PDF_DEFAULTS };
+}
+
+/** Layer user overrides on top of the defaults, clamping out-of-range values */
+export function resolvePdfOptions(overrides?: ExportOptions): PdfLayoutOptions {
+  const resolved: PdfLayoutOptions = { ...PDF_DEFAULTS };
+  for (const key of Object.keys(PDF_DEFAULTS) as (keyof PdfLayoutOptions)[]) {
+    if (overrides?.[key] !== undefined) {
+      Object.assign(resolved, { [key]: overrides[key] });
+    }
+  }
+  resolved.columns = Math.min(3, Math.max(1, Math.round(resolved.columns)));
+  resolved.fontSize = Math.min(
+    PDF_FONT_SIZE_RANGE.max,
+    Math.max(PDF_FONT_SIZE_RANGE.min, resolved.fontSize),
+  );
+  return resolved;
+}
@@ -0,0 +1,103 @@
+import type { FormatExtensions } from "@/types/checklist";
+import type { ParsedChecklistFile } from "../types";
+import { GENERATED } from "./types";
+import type { ComparableFile, StructuralDifference } from "./types";
+
+/** Format extensions, left out when there are none */
+function comparableExtensions<T extends FormatExtensions>(
+  extensions: T | undefined,
+): { extensions?: T } {
+  return extensions && Object.keys(extensions).length > 0 ? { extensions } : {};
+}
+
+/** Strip IDs and runtime fields so two parses of the same content compare equal */
+export function toComparable(file: ParsedChecklistFile): ComparableFile {
+  return {
+    metadata: {
+      aircraftRegistration: file.metadata.aircraftRegistration,
+      makeModel: file.metadata.makeModel,
+      copyright: file.metadata.copyright,
+      ...(file.metadata.description
+        ? { description: file.metadata.description }
+        : {}),
+      ...(file.metadata.variables?.length
+        ? { variables: file.metadata.variables }
+        : {}),
+    },
+    groups: file.groups.map((group) => ({
+      name: group.name,
+      category: group.category,
+      checklists: group.checklists.map((checklist) => ({
+        name: checklist.name,
+        ...(checklist.isDefault ? { isDefault: true } : {}),
+        items: checklist.items.map((item) => ({
+          type: item.type,
+          challengeText: item.challengeText,
+          responseText: item.responseText,
+          indent: item.indent,
+          centered: item.centered,
+          collapsible: item.collapsible,
+          ...comparableExtensions(item.extensions),
+        })),
+        ...comparableExtensions(checklist.extensions),
+      })),
+      ...comparableExtensions(group.extensions),
+    })),
+    ...comparableExtensions(file.extensions),
+  };
+}
+
+/**
+ * Structurally diff two values.
+ *
+ * Arrays of different length report the length mismatch and then diff the
+ * common prefix, so one dropped item doesn't hide everything after it behind
+ * a single "arrays differ" entry. A `GENERATED` expected value matches
+ * anything.
+ */
+export function diffStructures(
+  expected: unknown,
+  actual: unknown,
+  path = "",
+): StructuralDifference[] {
+  if (expected === GENERATED || Object.is(expected, actual)) return [];
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const differences: StructuralDifference[] = [];
+    if (expected.length !== actual.length) {
+      differences.push({
+        path: `${path}.length`,
+        expected: expected.length,
+        actual: actual.length,
+      });
+    }
+    const common = Math.min(expected.length, actual.length);
+    for (let i = 0; i < common; i++) {
+      differences.push(
+        ...diffStructures(expected[i], actual[i], `${path}[${i}]`),
+      );
+    }
+    return differences;
+  }
+
+  if (isRecord(expected) && isRecord(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    const differences: StructuralDifference[] = [];
+    for (const key of keys) {
+      differences.push(
+        ...diffStructures(
+          expected[key],
+          actual[key],
+          path ? `${path}.${key}` : key,
+        ),
+      );
+    }
+    return differences;
+  }
+
+  return [{ path, expected, actual }];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
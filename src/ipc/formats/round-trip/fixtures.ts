@@ -0,0 +1,320 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import {
+  ChecklistFormat,
+  ChecklistGroupCategory,
+  ChecklistItemType,
+} from "@/types/checklist";
+import type {
+  Checklist,
+  ChecklistFile,
+  ChecklistGroup,
+  ChecklistItem,
+} from "@/types/checklist";
+import { GP_ACTION_OPEN_MAP, GP_SUBTYPE_LANDING } from "../garmin-pilot/utils";
+import { detectFormat, parseFileContent } from "../index";
+import { findUnknownVariables } from "../variables";
+import type { RoundTripFixture } from "./types";
+
+function item(
+  type: ChecklistItemType,
+  challengeText: string,
+  extra: Partial<ChecklistItem> = {},
+): ChecklistItem {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    challengeText,
+    responseText: "",
+    indent: 0,
+    centered: false,
+    collapsible: false,
+    ...extra,
+  };
+}
+
+function checklist(
+  name: string,
+  items: ChecklistItem[],
+  extra: Partial<Checklist> = {},
+): Checklist {
+  return { id: crypto.randomUUID(), name, items, ...extra };
+}
+
+function group(
+  name: string,
+  category: ChecklistGroupCategory,
+  checklists: Checklist[],
+  extra: Partial<ChecklistGroup> = {},
+): ChecklistGroup {
+  return { id: crypto.randomUUID(), name, category, checklists, ...extra };
+}
+
+function file(
+  name: string,
+  groups: ChecklistGroup[],
+  extra: Partial<ChecklistFile> = {},
+): ChecklistFile {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    format: ChecklistFormat.Json,
+    groups,
+    metadata: {
+      aircraftRegistration: "N123AB",
+      makeModel: "Cessna 172S",
+      copyright: "(c) Example Flying Club",
+      description: "Club aircraft, revised for the 2024 season",
+    },
+    lastModified: 0,
+    dirty: false,
+    ...extra,
+  };
+}
+
+const {
+  ChallengeResponse,
+  ChallengeOnly,
+  Title,
+  Note,
+  Caution,
+  Warning,
+  PlainText,
+  Space,
+} = ChecklistItemType;
+
+/**
+ * Synthetic files that exercise the corners real templates rarely hit:
+ * every item type at every indent, note merging, wrapping, odd characters.
+ */
+export function generateFixtures(): RoundTripFixture[] {
+  return [
+    {
+      name: "generated/item-types",
+      file: file("Item Types", [
+        group("Normal", ChecklistGroupCategory.Normal, [
+          checklist("Every Type", [
+            item(Title, "Cabin", { collapsible: true }),
+            item(ChallengeResponse, "Parking Brake", {
+              responseText: "SET",
+              indent: 1,
+            }),
+            item(ChallengeOnly, "Seat belts fastened", { indent: 1 }),
+            item(Note, "Check both sides", { indent: 2 }),
+            item(Caution, "Hot surfaces", { indent: 2 }),
+            item(Warning, "Propeller area clear", { indent: 3 }),
+            item(Note, ""),
+            item(Space, ""),
+            item(Title, "Centered heading", { centered: true }),
+            item(ChallengeResponse, "Fuel selector", {
+              responseText: "both",
+            }),
+            item(PlainText, "Refer to the fuel placard", { indent: 1 }),
+            item(PlainText, "Fuel is 100LL only"),
+          ]),
+          checklist("Empty Response", [
+            item(ChallengeResponse, "Mixture"),
+            item(ChallengeOnly, "Done"),
+          ]),
+        ]),
+        group("Emergency", ChecklistGroupCategory.Emergency, [
+          checklist(
+            "Engine Fire",
+            [
+              item(ChallengeResponse, "Mixture", {
+                responseText: "IDLE CUTOFF",
+              }),
+              item(Warning, "Do not restart"),
+            ],
+            { isDefault: true },
+          ),
+        ]),
+        group("Abnormal", ChecklistGroupCategory.Abnormal, [
+          checklist("Alternator Failure", [
+            item(ChallengeResponse, "Master switch", {
+              responseText: "CYCLE",
+            }),
+          ]),
+        ]),
+      ]),
+    },
+    {
+      name: "generated/note-merging",
+      file: file("Note Merging", [
+        group("Normal", ChecklistGroupCategory.Normal, [
+          checklist("Merged Notes", [
+            item(ChallengeResponse, "Avionics", { responseText: "ON" }),
+            item(Note, "Wait for alignment", { indent: 1 }),
+            item(Caution, "Do not taxi while aligning", { indent: 1 }),
+            item(Title, "Runup"),
+            item(Note, "Into title", { indent: 1 }),
+            item(Note, "Standalone note"),
+            item(Note, "First of a block", { indent: 1 }),
+            item(Note, "Second of a block", { indent: 1 }),
+          ]),
+        ]),
+      ]),
+    },
+    {
+      name: "generated/text-edge-cases",
+      file: file("Text Edge Cases", [
+        group("Normal", ChecklistGroupCategory.Normal, [
+          checklist("Long Lines", [
+            item(ChallengeResponse, "A very long challenge that should wrap", {
+              responseText:
+                "and an equally long response that keeps going past the limit",
+            }),
+            item(Note, "Accented café, naïve façade"),
+          ]),
+          checklist("No Items", []),
+        ]),
+        group("Empty Group", ChecklistGroupCategory.Normal, []),
+        group("Other", ChecklistGroupCategory.Normal, [
+          checklist("Separators", [
+            item(ChallengeOnly, "Flaps - as required"),
+            item(ChallengeResponse, "Transponder", { responseText: "ALT ~ C" }),
+          ]),
+        ]),
+      ]),
+    },
+    {
+      name: "generated/garmin-groups",
+      file: file("Garmin Groups", [
+        group("Preflight", ChecklistGroupCategory.Normal, [
+          checklist("Before Start", [
+            item(ChallengeResponse, "Altimeter", {
+              responseText: "%LOCAL_ALTIMETER%",
+            }),
+          ]),
+        ]),
+        group("Landing", ChecklistGroupCategory.Normal, [
+          checklist("Before Landing", [
+            item(ChallengeResponse, "Tower", {
+              responseText: "%TOWER_CTAF_FREQUENCY%",
+            }),
+          ]),
+        ]),
+        group("Takeoff/Cruise", ChecklistGroupCategory.Normal, [
+          checklist("Cruise", [
+            item(ChallengeResponse, "Power", { responseText: "SET" }),
+          ]),
+        ]),
+      ]),
+    },
+    {
+      name: "generated/extensions-and-variables",
+      file: file(
+        "Extensions and Variables",
+        [
+          group(
+            "Engine",
+            ChecklistGroupCategory.Normal,
+            [
+              checklist(
+                "Go Around",
+                [
+                  item(ChallengeResponse, "Rotate", {
+                    responseText: "{{VR}} KIAS",
+                    extensions: {
+                      [ChecklistFormat.ForeFlight]: {
+                        fields: {
+                          objectId: "5f0c8a1e2b7d4c3a9e6f1d2b3c4a5e6f",
+                        },
+                      },
+                    },
+                  }),
+                  item(Note, "Tail {{TAIL}}"),
+                ],
+                {
+                  extensions: {
+                    [ChecklistFormat.Gplt]: {
+                      completionItem: GP_ACTION_OPEN_MAP,
+                      subtype: GP_SUBTYPE_LANDING,
+                    },
+                  },
+                },
+              ),
+            ],
+            {
+              extensions: {
+                [ChecklistFormat.ForeFlight]: {
+                  fields: { objectId: "8d2e4f6a1b3c4d5e9f7a2b4c6d8e0f1a" },
+                },
+              },
+            },
+          ),
+        ],
+        {
+          metadata: {
+            aircraftRegistration: "{{TAIL}}",
+            makeModel: "Cessna 172S",
+            copyright: "",
+            variables: [
+              { name: "TAIL", value: "N123AB" },
+              { name: "VR", value: "55" },
+            ],
+          },
+          extensions: {
+            [ChecklistFormat.EfisEditor]: { manufacturerInfo: "Cessna" },
+            [ChecklistFormat.Csv]: {
+              delimiter: "\t",
+              columns: [
+                { column: "group", header: "Section" },
+                { column: "checklist", header: "Procedure" },
+                { column: "challenge", header: "Step" },
+                { column: "response", header: "Expected" },
+                { column: "type", header: "Kind" },
+              ],
+            },
+          },
+        },
+      ),
+    },
+  ];
+}
+
+/**
+ * Load every readable sample in a directory (e.g. `templates/`) as a fixture.
+ * Files in unknown formats are skipped. Unfilled template placeholders are
+ * defined as variables (valued with their own name) so every format can
+ * export them.
+ */
+export async function loadTemplateFixtures(
+  dir: string,
+): Promise<RoundTripFixture[]> {
+  const fixtures: RoundTripFixture[] = [];
+
+  for (const entry of (await readdir(dir)).sort()) {
+    const filePath = path.join(dir, entry);
+    const content = await readFile(filePath);
+    const format = detectFormat(filePath, content);
+    if (
+      !format ||
+      format === ChecklistFormat.Pdf ||
+      format === ChecklistFormat.Html
+    )
+      continue;
+
+    const fileName = path.basename(filePath, path.extname(filePath));
+    const parsed = await parseFileContent(content, format, fileName);
+    const file: ChecklistFile = {
+      ...parsed,
+      id: fileName,
+      dirty: false,
+      lastModified: 0,
+    };
+    const placeholders = findUnknownVariables(file);
+    if (placeholders.length > 0) {
+      file.metadata = {
+        ...file.metadata,
+        variables: [
+          ...(file.metadata.variables ?? []),
+          ...placeholders.map((name) => ({ name, value: name })),
+        ],
+      };
+    }
+    fixtures.push({ name: `templates/${entry}`, file });
+  }
+
+  return fixtures;
+}
@@ -0,0 +1,75 @@
+import { ChecklistFormat } from "@/types/checklist";
+import { keepsVariableTokens, parseFileContent, serializeFile } from "../index";
+import { expandVariables } from "../variables";
+import { diffStructures, toComparable } from "./compare";
+import { LOSSY_TRANSFORMS } from "./lossy";
+import type {
+  RoundTripFixture,
+  RoundTripFormat,
+  RoundTripResult,
+} from "./types";
+
+export { generateFixtures, loadTemplateFixtures } from "./fixtures";
+export { LOSSY_TRANSFORMS } from "./lossy";
+export type * from "./types";
+
+/** Every format with both a reader and a writer */
+export const ROUND_TRIP_FORMATS = Object.values(ChecklistFormat).filter(
+  (f): f is RoundTripFormat =>
+    f !== ChecklistFormat.Pdf && f !== ChecklistFormat.Html,
+);
+
+/**
+ * Serialize a fixture to `format`, parse it back and diff the result against
+ * the source with the format's declared losses applied.
+ */
+export async function runRoundTrip(
+  fixture: RoundTripFixture,
+  format: RoundTripFormat,
+): Promise<RoundTripResult> {
+  const result: RoundTripResult = {
+    fixture: fixture.name,
+    format,
+    expectedLosses: [],
+    differences: [],
+  };
+
+  // Formats that do not keep variable tokens write their values
+  let expected = toComparable(
+    keepsVariableTokens(format) ? fixture.file : expandVariables(fixture.file),
+  );
+  for (const transform of LOSSY_TRANSFORMS[format]) {
+    const next = transform.apply(expected);
+    if (diffStructures(expected, next).length > 0) {
+      result.expectedLosses.push(transform.id);
+    }
+    expected = next;
+  }
+
+  try {
+    const content = await serializeFile(fixture.file, format);
+    const buffer = Buffer.isBuffer(content)
+      ? content
+      : Buffer.from(content, "utf-8");
+    const parsed = await parseFileContent(buffer, format, fixture.file.name);
+    result.differences = diffStructures(expected, toComparable(parsed));
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : String(err);
+  }
+
+  return result;
+}
+
+/** Run every fixture through every format */
+export async function runRoundTrips(
+  fixtures: RoundTripFixture[],
+  formats: RoundTripFormat[] = ROUND_TRIP_FORMATS,
+): Promise<RoundTripResult[]> {
+  const results: RoundTripResult[] = [];
+  for (const fixture of fixtures) {
+    for (const format of formats) {
+      results.push(await runRoundTrip(fixture, format));
+    }
+  }
+  return results;
+}
@@ -0,0 +1,831 @@
+import {
+  ChecklistFormat,
+  ChecklistGroupCategory,
+  ChecklistItemType,
+} from "@/types/checklist";
+import type { FormatExtensions } from "@/types/checklist";
+import {
+  GP_ACTION_NEXT_CHECKLIST,
+  checklistGroupKey,
+  compareGroupKeys,
+  garminGroupKeyToEfis,
+  type GarminGroupKey,
+} from "../garmin-pilot/utils";
+import { shouldMergeNotes } from "../format-utils";
+import { DYNON_OPTIONS } from "../text/dynon";
+import { GRT_OPTIONS } from "../text/grt";
+import { copyrightLine } from "../foreflight/metadata";
+import { DEFAULT_FIRST_GROUP, type TextFormatOptions } from "../text/options";
+import { GENERATED } from "./types";
+import type {
+  ComparableChecklist,
+  ComparableExtensions,
+  ComparableFile,
+  ComparableGroup,
+  ComparableItem,
+  LossyTransform,
+  RoundTripFormat,
+} from "./types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function mapGroups(
+  file: ComparableFile,
+  fn: (group: ComparableGroup, index: number) => ComparableGroup,
+): ComparableFile {
+  return { ...file, groups: file.groups.map(fn) };
+}
+
+function mapChecklists(
+  file: ComparableFile,
+  fn: (checklist: ComparableChecklist) => ComparableChecklist,
+): ComparableFile {
+  return mapGroups(file, (group) => ({
+    ...group,
+    checklists: group.checklists.map(fn),
+  }));
+}
+
+function mapItems(
+  file: ComparableFile,
+  fn: (item: ComparableItem, index: number) => ComparableItem | null,
+): ComparableFile {
+  return mapChecklists(file, (checklist) => ({
+    ...checklist,
+    items: checklist.items
+      .map(fn)
+      .filter((item): item is ComparableItem => item !== null),
+  }));
+}
+
+/** Apply `fn` to every user-visible string in the file */
+function mapText(
+  file: ComparableFile,
+  fn: (text: string) => string,
+): ComparableFile {
+  const mapped = mapItems(
+    mapChecklists(
+      mapGroups(file, (group) => ({ ...group, name: fn(group.name) })),
+      (checklist) => ({ ...checklist, name: fn(checklist.name) }),
+    ),
+    (item) => ({
+      ...item,
+      challengeText: fn(item.challengeText),
+      responseText: fn(item.responseText),
+    }),
+  );
+  return {
+    ...mapped,
+    metadata: {
+      aircraftRegistration: fn(file.metadata.aircraftRegistration),
+      makeModel: fn(file.metadata.makeModel),
+      copyright: fn(file.metadata.copyright),
+    },
+  };
+}
+
+/** `object` with `extensions`, or without the key when there are none */
+function withExtensions<T extends { extensions?: ComparableExtensions }>(
+  object: T,
+  extensions: ComparableExtensions | undefined,
+): T {
+  const copy = { ...object };
+  if (
+    extensions === GENERATED ||
+    (extensions && Object.keys(extensions).length > 0)
+  ) {
+    copy.extensions = extensions;
+  } else {
+    delete copy.extensions;
+  }
+  return copy;
+}
+
+/** Rewrite the extensions of the file and every group, checklist and item */
+function mapExtensions(
+  file: ComparableFile,
+  fn: (
+    extensions: ComparableExtensions | undefined,
+  ) => ComparableExtensions | undefined,
+): ComparableFile {
+  const mapped = mapItems(
+    mapChecklists(
+      mapGroups(file, (group) => withExtensions(group, fn(group.extensions))),
+      (checklist) => withExtensions(checklist, fn(checklist.extensions)),
+    ),
+    (item) => withExtensions(item, fn(item.extensions)),
+  );
+  return withExtensions(mapped, fn(file.extensions));
+}
+
+const NOTE_TYPES = [
+  ChecklistItemType.Note,
+  ChecklistItemType.Caution,
+  ChecklistItemType.Warning,
+  ChecklistItemType.PlainText,
+];
+
+// ---------------------------------------------------------------------------
+// Shared transforms
+// ---------------------------------------------------------------------------
+
+const dropVariables: LossyTransform = {
+  id: "variables",
+  description:
+    "Variables are written as their values; the variable table is not stored",
+  apply: (file) => {
+    const metadata = { ...file.metadata };
+    delete metadata.variables;
+    return { ...file, metadata };
+  },
+};
+
+/** Every format writes back its own extension data and nothing else */
+function otherExtensions(format: RoundTripFormat): LossyTransform {
+  return {
+    id: "extensions",
+    description: "Extension data of other formats is not written",
+    apply: (file) =>
+      mapExtensions(file, (extensions) => {
+        const own = extensions === GENERATED ? undefined : extensions?.[format];
+        return own ? ({ [format]: own } as FormatExtensions) : undefined;
+      }),
+  };
+}
+
+const dropCollapsible: LossyTransform = {
+  id: "collapsible",
+  description: "Collapsible flags are editor-only",
+  apply: (file) => mapItems(file, (item) => ({ ...item, collapsible: false })),
+};
+
+const dropCategories: LossyTransform = {
+  id: "categories",
+  description: "Every group is read back as a normal group",
+  apply: (file) =>
+    mapGroups(file, (group) => ({
+      ...group,
+      category: ChecklistGroupCategory.Normal,
+    })),
+};
+
+const dropDefaultChecklist: LossyTransform = {
+  id: "default-checklist",
+  description: "The startup checklist is not stored",
+  apply: (file) =>
+    mapChecklists(file, (checklist) => {
+      const copy = { ...checklist };
+      delete copy.isDefault;
+      return copy;
+    }),
+};
+
+const defaultToFirstChecklist: LossyTransform = {
+  id: "default-checklist",
+  description: "Without a startup checklist, the first one is written",
+  apply: (file) => {
+    const first = file.groups[0]?.checklists[0];
+    if (
+      !first ||
+      file.groups.some((g) => g.checklists.some((c) => c.isDefault))
+    ) {
+      return file;
+    }
+    return mapChecklists(file, (checklist) =>
+      checklist === first ? { ...checklist, isDefault: true } : checklist,
+    );
+  },
+};
+
+const dropEmptyGroups: LossyTransform = {
+  id: "empty-groups",
+  description: "Groups without checklists are not written",
+  apply: (file) => ({
+    ...file,
+    groups: file.groups.filter((g) => g.checklists.length > 0),
+  }),
+};
+
+const dropOtherResponses: LossyTransform = {
+  id: "other-responses",
+  description: "Response text is only written for challenge/response items",
+  apply: (file) =>
+    mapItems(file, (item) =>
+      item.type === ChecklistItemType.ChallengeResponse
+        ? item
+        : { ...item, responseText: "" },
+    ),
+};
+
+const emptyResponsesToChallengeOnly: LossyTransform = {
+  id: "empty-responses",
+  description:
+    "Challenge/response items without a response read back as challenge-only",
+  apply: (file) =>
+    mapItems(file, (item) =>
+      item.type === ChecklistItemType.ChallengeResponse && !item.responseText
+        ? { ...item, type: ChecklistItemType.ChallengeOnly }
+        : item,
+    ),
+};
+
+/**
+ * ForeFlight and Garmin Pilot have no indentation: notes nested under an
+ * item are folded into it and come back at indent 1, everything else at 0.
+ * Mirrors the `shouldMergeNotes` walk in both writers.
+ */
+function foldNotes(titleLikeTypes?: ChecklistItemType[]): LossyTransform {
+  return {
+    id: "layout",
+    description:
+      "Indentation and centering are not stored; nested notes are folded into their parent",
+    apply: (file) =>
+      mapChecklists(file, (checklist) => {
+        const items = checklist.items.map(
+          (item): ComparableItem => ({ ...item, indent: 0, centered: false }),
+        );
+        // Index of the last item that produced its own entry in the output
+        let lastKept = -1;
+
+        checklist.items.forEach((item, i) => {
+          if (!NOTE_TYPES.includes(item.type)) {
+            lastKept = i;
+            return;
+          }
+          const parent = checklist.items[lastKept];
+          if (parent && shouldMergeNotes(item, parent, titleLikeTypes)) {
+            items[i].indent = 1;
+            // A standalone note with notes merged into it becomes multiline
+            if (NOTE_TYPES.includes(parent.type)) items[lastKept].indent = 1;
+          } else {
+            lastKept = i;
+          }
+        });
+
+        return { ...checklist, items };
+      }),
+  };
+}
+
+const dropEmptyTitles: LossyTransform = {
+  id: "empty-titles",
+  description: "Title items without text are skipped on read",
+  apply: (file) =>
+    mapItems(file, (item) =>
+      item.type === ChecklistItemType.Title && !item.challengeText
+        ? null
+        : item,
+    ),
+};
+
+const blankSpaces: LossyTransform = {
+  id: "spaces",
+  description: "Space items are written without text, indent or centering",
+  apply: (file) =>
+    mapItems(file, (item) =>
+      item.type === ChecklistItemType.Space
+        ? {
+            ...item,
+            challengeText: "",
+            responseText: "",
+            indent: 0,
+            centered: false,
+          }
+        : item,
+    ),
+};
+
+/**
+ * Plain text is written as a note without a prefix, so an empty one on its
+ * own is an empty entry. Run after `foldNotes`, which leaves those at indent 0.
+ */
+const plainTextToNotes: LossyTransform = {
+  id: "plain-text",
+  description: "Plain text reads back as notes, or as a space when empty",
+  apply: (file) =>
+    mapItems(file, (item) => {
+      if (item.type !== ChecklistItemType.PlainText) return item;
+      return item.challengeText === "" && item.indent === 0
+        ? { ...item, type: ChecklistItemType.Space }
+        : { ...item, type: ChecklistItemType.Note };
+    }),
+};
+
+const centeredIgnoresIndent: LossyTransform = {
+  id: "centered-indent",
+  description: "Centered items cannot be indented",
+  apply: (file) =>
+    mapItems(file, (item) => (item.centered ? { ...item, indent: 0 } : item)),
+};
+
+// ---------------------------------------------------------------------------
+// Garmin ACE
+// ---------------------------------------------------------------------------
+
+const ACE_TRANSFORMS: LossyTransform[] = [
+  dropVariables,
+  otherExtensions(ChecklistFormat.Ace),
+  dropCollapsible,
+  dropCategories,
+  dropOtherResponses,
+  blankSpaces,
+  {
+    id: "empty-checklists",
+    description: "Empty checklists and groups are skipped for the G3X",
+    apply: (file) => ({
+      ...file,
+      groups: file.groups
+        .map((group) => ({
+          ...group,
+          checklists: group.checklists.filter((c) => c.items.length > 0),
+        }))
+        .filter((group) => group.checklists.length > 0),
+    }),
+  },
+  defaultToFirstChecklist,
+  centeredIgnoresIndent,
+  {
+    id: "response-separator",
+    description: 'A "~" in the challenge starts the response',
+    apply: (file) =>
+      mapItems(file, (item) => {
+        if (item.type !== ChecklistItemType.ChallengeResponse) return item;
+        const idx = item.challengeText.indexOf("~");
+        if (idx === -1) return item;
+        return {
+          ...item,
+          challengeText: item.challengeText.slice(0, idx),
+          responseText: `${item.challengeText.slice(idx + 1)}~${item.responseText}`,
+        };
+      }),
+  },
+  {
+    id: "latin1",
+    description: "Text is latin1 encoded; other characters are truncated",
+    apply: (file) =>
+      mapText(file, (text) =>
+        Array.from(text, (ch) =>
+          ch.charCodeAt(0) > 0xff
+            ? String.fromCharCode(ch.charCodeAt(0) & 0xff)
+            : ch,
+        ).join(""),
+      ),
+  },
+  {
+    id: "metadata-whitespace",
+    description: "Metadata lines are trimmed",
+    apply: (file) => ({
+      ...file,
+      metadata: {
+        aircraftRegistration: file.metadata.aircraftRegistration.trim(),
+        makeModel: file.metadata.makeModel.trim(),
+        copyright: file.metadata.copyright.trim(),
+      },
+    }),
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Text formats (Dynon / GRT)
+// ---------------------------------------------------------------------------
+
+function textTransforms(
+  format: RoundTripFormat,
+  options: TextFormatOptions,
+): LossyTransform[] {
+  const sep = options.expectationSeparator;
+  const transforms: LossyTransform[] = [
+    dropVariables,
+    otherExtensions(format),
+    dropCollapsible,
+    dropCategories,
+    dropDefaultChecklist,
+  ];
+
+  if (options.checklistTopBlankLine) {
+    transforms.push({
+      id: "leading-blank-lines",
+      description:
+        "Blank lines at the top of a checklist are taken for the format's spacer line",
+      apply: (file) =>
+        mapChecklists(file, (checklist) => {
+          const first = checklist.items.findIndex(
+            (i) =>
+              i.type !== ChecklistItemType.Space &&
+              (i.type !== ChecklistItemType.Note || i.challengeText !== ""),
+          );
+          return {
+            ...checklist,
+            items: first === -1 ? [] : checklist.items.slice(first),
+          };
+        }),
+    });
+  }
+
+  transforms.push(
+    {
+      id: "blank-lines",
+      description:
+        "Empty notes are written as blank lines, which read back as spaces",
+      apply: (file) =>
+        mapItems(file, (item) =>
+          item.type === ChecklistItemType.Note &&
+          item.challengeText === "" &&
+          !item.responseText
+            ? { ...item, type: ChecklistItemType.Space }
+            : item,
+        ),
+    },
+    blankSpaces,
+    {
+      id: "plain-text",
+      description: "Plain text reads back as challenge-only",
+      apply: (file) =>
+        mapItems(file, (item) =>
+          item.type === ChecklistItemType.PlainText
+            ? { ...item, type: ChecklistItemType.ChallengeOnly }
+            : item,
+        ),
+    },
+    {
+      id: "inline-responses",
+      description: `Responses are written after "${sep.trim()}" on the same line`,
+      apply: (file) =>
+        mapItems(file, (item) => {
+          if (!item.responseText) return item;
+          if (
+            item.type === ChecklistItemType.ChallengeResponse ||
+            item.type === ChecklistItemType.ChallengeOnly
+          ) {
+            return { ...item, type: ChecklistItemType.ChallengeResponse };
+          }
+          return {
+            ...item,
+            challengeText: item.challengeText + sep + item.responseText,
+            responseText: "",
+          };
+        }),
+    },
+    {
+      id: "response-separator",
+      description: `The first "${sep.trim()}" on a line separates challenge and response`,
+      apply: (file) =>
+        mapItems(file, (item) => {
+          if (
+            item.type !== ChecklistItemType.ChallengeResponse &&
+            item.type !== ChecklistItemType.ChallengeOnly
+          ) {
+            return item;
+          }
+          const line = item.responseText
+            ? item.challengeText + sep + item.responseText
+            : item.challengeText;
+          const idx = line.indexOf(sep);
+          return idx === -1
+            ? {
+                ...item,
+                type: ChecklistItemType.ChallengeOnly,
+                challengeText: line,
+                responseText: "",
+              }
+            : {
+                ...item,
+                type: ChecklistItemType.ChallengeResponse,
+                challengeText: line.slice(0, idx),
+                responseText: line.slice(idx + sep.length),
+              };
+        }),
+    },
+    centeredIgnoresIndent,
+    {
+      id: "whitespace",
+      description: "Leading and trailing whitespace on a line is trimmed",
+      apply: (file) =>
+        mapItems(file, (item) => {
+          switch (item.type) {
+            case ChecklistItemType.Title:
+              return item;
+            case ChecklistItemType.ChallengeResponse:
+              return {
+                ...item,
+                challengeText: item.challengeText.trimStart(),
+                responseText: item.responseText.trimEnd(),
+              };
+            case ChecklistItemType.ChallengeOnly:
+              return { ...item, challengeText: item.challengeText.trim() };
+            default:
+              return { ...item, challengeText: item.challengeText.trimEnd() };
+          }
+        }),
+    },
+  );
+
+  if (options.forbidCommas) {
+    transforms.push({
+      id: "commas",
+      description: "Commas are removed",
+      apply: (file) => mapText(file, (text) => text.replaceAll(",", "")),
+    });
+  }
+
+  if (options.allUppercase) {
+    transforms.push({
+      id: "uppercase",
+      description: "All text is converted to uppercase",
+      apply: (file) => mapText(file, (text) => text.toUpperCase()),
+    });
+  }
+
+  if (options.skipFirstGroup) {
+    const defaultName = options.allUppercase
+      ? DEFAULT_FIRST_GROUP.toUpperCase()
+      : DEFAULT_FIRST_GROUP;
+    transforms.push({
+      id: "first-group-name",
+      description: `The first group name is omitted and read back as "${defaultName}"`,
+      apply: (file) =>
+        mapGroups(file, (group, index) =>
+          index === 0 && group.checklists.length > 0
+            ? { ...group, name: defaultName }
+            : group,
+        ),
+    });
+  }
+
+  const groupSep = options.groupNameSeparator;
+  if (groupSep) {
+    transforms.push({
+      id: "group-separator",
+      description: `The first "${groupSep.trim()}" in a checklist title ends the group name`,
+      apply: (file) => {
+        const groups: ComparableGroup[] = [];
+        for (const group of file.groups) {
+          const idx = group.name.indexOf(groupSep);
+          if (idx === -1) {
+            groups.push(group);
+            continue;
+          }
+          // Each checklist carries the overflow of the group name
+          const overflow = group.name.slice(idx + groupSep.length);
+          groups.push({
+            ...group,
+            name: group.name.slice(0, idx),
+            checklists: group.checklists.map((c) => ({
+              ...c,
+              name: overflow + groupSep + c.name,
+            })),
+          });
+        }
+        return { ...file, groups };
+      },
+    });
+  }
+
+  transforms.push(dropEmptyGroups, {
+    id: "merged-groups",
+    description: "Adjacent groups with the same name merge into one",
+    apply: (file) => {
+      const groups: ComparableGroup[] = [];
+      for (const group of file.groups) {
+        const last = groups[groups.length - 1];
+        if (last && last.name === group.name) {
+          groups[groups.length - 1] = {
+            ...last,
+            checklists: [...last.checklists, ...group.checklists],
+          };
+        } else {
+          groups.push(group);
+        }
+      }
+      return { ...file, groups };
+    },
+  });
+
+  transforms.push(
+    options.outputMetadata
+      ? {
+          id: "metadata-whitespace",
+          description: "Metadata lines are trimmed",
+          apply: (file) => ({
+            ...file,
+            metadata: {
+              aircraftRegistration: file.metadata.aircraftRegistration.trim(),
+              makeModel: file.metadata.makeModel.trim(),
+              copyright: file.metadata.copyright.trim(),
+            },
+          }),
+        }
+      : {
+          id: "metadata",
+          description: "File metadata is not written",
+          apply: (file) => ({
+            ...file,
+            metadata: {
+              aircraftRegistration: "",
+              makeModel: "",
+              copyright: "",
+            },
+          }),
+        },
+  );
+
+  return transforms;
+}
+
+// ---------------------------------------------------------------------------
+// ForeFlight
+// ---------------------------------------------------------------------------
+
+const FOREFLIGHT_CATEGORY_ORDER = [
+  ChecklistGroupCategory.Normal,
+  ChecklistGroupCategory.Abnormal,
+  ChecklistGroupCategory.Emergency,
+];
+
+const FOREFLIGHT_TRANSFORMS: LossyTransform[] = [
+  dropVariables,
+  otherExtensions(ChecklistFormat.ForeFlight),
+  dropCollapsible,
+  dropDefaultChecklist,
+  {
+    id: "group-order",
+    description: "Groups are ordered by category",
+    apply: (file) => ({
+      ...file,
+      groups: FOREFLIGHT_CATEGORY_ORDER.flatMap((category) =>
+        file.groups.filter((g) => g.category === category),
+      ),
+    }),
+  },
+  dropEmptyGroups,
+  foldNotes(),
+  plainTextToNotes,
+  blankSpaces,
+  dropEmptyTitles,
+  dropOtherResponses,
+  emptyResponsesToChallengeOnly,
+  {
+    id: "uppercase-responses",
+    description: "Responses are converted to uppercase",
+    apply: (file) =>
+      mapItems(file, (item) => ({
+        ...item,
+        responseText: item.responseText.toUpperCase(),
+      })),
+  },
+  {
+    id: "metadata",
+    description:
+      "The tail number is uppercased and the copyright is marked with ©",
+    apply: (file) => ({
+      ...file,
+      metadata: {
+        ...file.metadata,
+        aircraftRegistration: file.metadata.aircraftRegistration.toUpperCase(),
+        copyright:
+          file.metadata.copyright && copyrightLine(file.metadata.copyright),
+      },
+    }),
+  },
+  {
+    id: "object-ids",
+    description:
+      "The writer rebuilds ForeFlight's own data: new objects get fresh IDs and folded notes share their item's",
+    apply: (file) => mapExtensions(file, () => GENERATED),
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Garmin Pilot
+// ---------------------------------------------------------------------------
+
+const GARMIN_PILOT_TRANSFORMS: LossyTransform[] = [
+  dropVariables,
+  otherExtensions(ChecklistFormat.Gplt),
+  dropCollapsible,
+  dropDefaultChecklist,
+  {
+    id: "fixed-groups",
+    description:
+      "Checklists are filed under Garmin Pilot's fixed groups, in Garmin order",
+    apply: (file) => {
+      const tagged: [GarminGroupKey, ComparableChecklist][] = file.groups
+        .flatMap((group) =>
+          group.checklists.map(
+            (checklist): [GarminGroupKey, ComparableChecklist] => [
+              checklistGroupKey(
+                [group.category, group.name],
+                checklist.extensions === GENERATED
+                  ? undefined
+                  : checklist.extensions?.[ChecklistFormat.Gplt],
+              ),
+              checklist,
+            ],
+          ),
+        )
+        .sort(([a], [b]) => compareGroupKeys(a, b));
+
+      const groups: ComparableGroup[] = [];
+      for (const [key, checklist] of tagged) {
+        const [category, name] = garminGroupKeyToEfis(key);
+        const last = groups[groups.length - 1];
+        if (last && last.category === category && last.name === name) {
+          last.checklists.push(checklist);
+        } else {
+          groups.push({ name, category, checklists: [checklist] });
+        }
+      }
+      return { ...file, groups };
+    },
+  },
+  {
+    id: "completion-action",
+    description:
+      "Only the completion action is stored, defaulting to the next checklist; the group holds the phase of flight",
+    apply: (file) =>
+      mapChecklists(file, (checklist) => {
+        const garmin =
+          checklist.extensions === GENERATED
+            ? undefined
+            : checklist.extensions?.[ChecklistFormat.Gplt];
+        return {
+          ...checklist,
+          extensions: {
+            [ChecklistFormat.Gplt]: {
+              completionItem:
+                garmin?.completionItem ?? GP_ACTION_NEXT_CHECKLIST,
+            },
+          },
+        };
+      }),
+  },
+  foldNotes([ChecklistItemType.Title]),
+  plainTextToNotes,
+  blankSpaces,
+  dropEmptyTitles,
+  dropOtherResponses,
+  emptyResponsesToChallengeOnly,
+  {
+    id: "metadata",
+    description: "File metadata is not stored",
+    apply: (file) => ({
+      ...file,
+      metadata: { aircraftRegistration: "", makeModel: "", copyright: "" },
+    }),
+  },
+];
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/** CSV keeps every item field; only what has no column is lost */
+const CSV_TRANSFORMS: LossyTransform[] = [
+  dropVariables,
+  otherExtensions(ChecklistFormat.Csv),
+  dropDefaultChecklist,
+  {
+    id: "metadata",
+    description: "File metadata is not stored",
+    apply: (file) => ({
+      ...file,
+      metadata: { aircraftRegistration: "", makeModel: "", copyright: "" },
+    }),
+  },
+];
+
+// ---------------------------------------------------------------------------
+// efis-editor
+// ---------------------------------------------------------------------------
+
+/** The efis-editor schema has every item type and group category */
+const EFIS_EDITOR_TRANSFORMS: LossyTransform[] = [
+  dropVariables,
+  otherExtensions(ChecklistFormat.EfisEditor),
+  dropCollapsible,
+  defaultToFirstChecklist,
+];
+
+/**
+ * Known losses per format, applied in order to the source model to get the
+ * model the format is expected to read back.
+ *
+ * Keep these in sync with the writers — a transform that no longer matches
+ * the writer will hide real regressions.
+ */
+export const LOSSY_TRANSFORMS: Record<RoundTripFormat, LossyTransform[]> = {
+  [ChecklistFormat.Json]: [],
+  [ChecklistFormat.Ace]: ACE_TRANSFORMS,
+  [ChecklistFormat.AfsDynon]: textTransforms(
+    ChecklistFormat.AfsDynon,
+    DYNON_OPTIONS,
+  ),
+  [ChecklistFormat.Grt]: textTransforms(ChecklistFormat.Grt, GRT_OPTIONS),
+  [ChecklistFormat.ForeFlight]: FOREFLIGHT_TRANSFORMS,
+  [ChecklistFormat.Gplt]: GARMIN_PILOT_TRANSFORMS,
+  [ChecklistFormat.Csv]: CSV_TRANSFORMS,
+  [ChecklistFormat.EfisEditor]: EFIS_EDITOR_TRANSFORMS,
+  [ChecklistFormat.Markdown]: [],
+};
@@ -0,0 +1,93 @@
+import type {
+  ChecklistExtensions,
+  ChecklistFile,
+  ChecklistFileMetadata,
+  ChecklistFormat,
+  ChecklistGroupCategory,
+  ChecklistItem,
+  FormatExtensions,
+} from "@/types/checklist";
+
+/** Formats that can be both written and read back (PDF and HTML are export-only) */
+export type RoundTripFormat = Exclude<
+  ChecklistFormat,
+  ChecklistFormat.Pdf | ChecklistFormat.Html
+>;
+
+/**
+ * Stands in an expected model for data the writer makes up, such as fresh
+ * object IDs; it matches whatever is read back, including nothing.
+ */
+export const GENERATED: unique symbol = Symbol("generated");
+
+/** Extension data as read back, or `GENERATED` when it cannot be predicted */
+export type ComparableExtensions<
+  T extends FormatExtensions = FormatExtensions,
+> = T | typeof GENERATED;
+
+/** An item stripped of runtime-only fields so two parses can be compared */
+export type ComparableItem = Omit<ChecklistItem, "id" | "extensions"> & {
+  extensions?: ComparableExtensions;
+};
+
+export interface ComparableChecklist {
+  name: string;
+  isDefault?: boolean;
+  items: ComparableItem[];
+  extensions?: ComparableExtensions<ChecklistExtensions>;
+}
+
+export interface ComparableGroup {
+  name: string;
+  category: ChecklistGroupCategory;
+  checklists: ComparableChecklist[];
+  extensions?: ComparableExtensions;
+}
+
+/**
+ * The parts of a ChecklistFile a format is expected to preserve.
+ *
+ * File name and format are left out — every reader derives them from
+ * the file on disk rather than the content.
+ */
+export interface ComparableFile {
+  metadata: ChecklistFileMetadata;
+  groups: ComparableGroup[];
+  extensions?: ComparableExtensions;
+}
+
+/**
+ * A known, intentional loss for a format.
+ *
+ * `apply` rewrites the source model into what the format is expected to
+ * give back, so the harness only reports differences nobody declared.
+ */
+export interface LossyTransform {
+  id: string;
+  description: string;
+  apply(file: ComparableFile): ComparableFile;
+}
+
+/** A sample file to push through every format */
+export interface RoundTripFixture {
+  name: string;
+  file: ChecklistFile;
+}
+
+export interface StructuralDifference {
+  /** Dotted path into the ComparableFile, e.g. `groups[0].checklists[1].name` */
+  path: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface RoundTripResult {
+  fixture: string;
+  format: RoundTripFormat;
+  /** IDs of declared lossy transforms that actually changed this fixture */
+  expectedLosses: string[];
+  /** Differences left after applying the declared transforms — likely bugs */
+  differences: StructuralDifference[];
+  /** Set when serialize or parse threw */
+  error?: string;
+}
@@ -2,7 +2,9 @@ import { ChecklistFormat } from "@/types/checklist";
 import type { FormatParser } from "../types";
 import { DYNON_OPTIONS } from "./dynon";
 import { GRT_OPTIONS } from "./grt";
+import { applyExportOptions } from "./options";
 import { readText } from "./reader";
+import { validateText } from "./validator";
 import { writeText } from "./writer";
 
 /** Dynon / AFS SkyView text format parser (.txt, .afd) */
@@ -15,8 +17,15 @@ export const dynonParser: FormatParser = {
       ChecklistFormat.AfsDynon,
     );
   },
-  serialize(file) {
-    return writeText(file, DYNON_OPTIONS);
+  serialize(file, options) {
+    return writeText(file, applyExportOptions(DYNON_OPTIONS, options));
+  },
+  validate(file, options) {
+    return validateText(
+      file,
+      applyExportOptions(DYNON_OPTIONS, options),
+      "AFS / Dynon",
+    );
   },
 };
 
@@ -30,7 +39,10 @@ export const grtParser: FormatParser = {
       ChecklistFormat.Grt,
     );
   },
-  serialize(file) {
-    return writeText(file, GRT_OPTIONS);
+  serialize(file, options) {
+    return writeText(file, applyExportOptions(GRT_OPTIONS, options));
+  },
+  validate(file, options) {
+    return validateText(file, applyExportOptions(GRT_OPTIONS, options), "GRT");
   },
 };
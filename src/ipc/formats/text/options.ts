@@ -1,3 +1,5 @@
+import type { ExportOptions } from "@/types/checklist";
+
 /** Configuration options for text-based checklist formats */
 export interface TextFormatOptions {
   /** File extensions this format can parse */
@@ -44,9 +46,53 @@ export interface TextFormatOptions {
   commentPrefix?: string;
 }
 
+/** Writer settings a user may override per export */
+const OVERRIDABLE_KEYS = [
+  "maxLineLength",
+  "indentWidth",
+  "allUppercase",
+  "outputMetadata",
+  "checklistTopBlankLine",
+  "skipFirstGroup",
+] as const satisfies readonly (keyof TextFormatOptions & keyof ExportOptions)[];
+
+/** The overridable subset of a format's settings, e.g. to prefill a form */
+export function getTextExportDefaults(
+  options: TextFormatOptions,
+): ExportOptions {
+  const defaults: ExportOptions = {};
+  for (const key of OVERRIDABLE_KEYS) {
+    Object.assign(defaults, { [key]: options[key] });
+  }
+  return defaults;
+}
+
+/** Layer user overrides on top of a format's settings (unset fields keep the default) */
+export function applyExportOptions(
+  options: TextFormatOptions,
+  overrides?: ExportOptions,
+): TextFormatOptions {
+  if (!overrides) return options;
+  const merged = { ...options };
+  for (const key of OVERRIDABLE_KEYS) {
+    if (overrides[key] !== undefined) {
+      Object.assign(merged, { [key]: overrides[key] });
+    }
+  }
+  return merged;
+}
+
 /** Wrap continuation prefix */
 export const WRAP_PREFIX = "| ";
 
+/**
+ * Narrowest wrap width that leaves room for text on a continuation line of
+ * the deepest indent (3 levels of `indentWidth`, then `WRAP_PREFIX`).
+ */
+export function minLineLength(indentWidth: number): number {
+  return 3 * indentWidth + WRAP_PREFIX.length + 1;
+}
+
 /** Metadata checklist constants */
 export const METADATA_CHECKLIST_TITLE = "Checklist Info";
 export const METADATA_FILE_TITLE = "Checklist file:";
@@ -81,8 +81,7 @@ export function readText(
       // Skip leading blank items if checklistTopBlankLine is set
       if (
         !options.checklistTopBlankLine ||
-        item.type !== ChecklistItemType.Note ||
-        item.challengeText !== "" ||
+        item.type !== ChecklistItemType.Space ||
         currentChecklist.items.length > 0
       ) {
         currentChecklist.items.push(item);
@@ -107,8 +106,7 @@ export function readText(
     let itemType: ChecklistItemType = ChecklistItemType.ChallengeOnly;
 
     if (!prompt) {
-      // Empty/space item - represent as a Note with empty text
-      itemType = ChecklistItemType.Note;
+      itemType = ChecklistItemType.Space;
     } else if (prompt.startsWith(options.notePrefix)) {
       itemType = ChecklistItemType.Note;
       prompt = prompt.slice(options.notePrefix.length);
@@ -217,11 +215,8 @@ export function readText(
         throw new Error("Checklist item found before start of checklist");
       }
 
-      currentItemStartSpaces =
-        lineContents.length - lineContents.trimStart().length;
-      const newIndent = Math.floor(
-        currentItemStartSpaces / options.indentWidth,
-      );
+      const startSpaces = lineContents.length - lineContents.trimStart().length;
+      const newIndent = Math.floor(startSpaces / options.indentWidth);
       lineContents = lineContents.slice(newIndent * options.indentWidth);
 
       if (lineContents.startsWith(WRAP_PREFIX)) {
@@ -231,6 +226,7 @@ export function readText(
         processItem();
         currentItemContents = lineContents;
         currentItemIndent = newIndent;
+        currentItemStartSpaces = startSpaces;
         currentItemSeen = true;
       }
 
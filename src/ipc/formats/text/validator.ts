@@ -0,0 +1,201 @@
+import { ChecklistItemType } from "@/types/checklist";
+import type { ChecklistFile } from "@/types/checklist";
+import type { FormatDiagnostic } from "../types";
+import {
+  createDiagnostics,
+  forEachItem,
+  reportLiveDataTokens,
+  reportPlainTextFallback,
+  reportUnsupportedCategories,
+} from "../validation";
+import { WRAP_PREFIX, minLineLength, type TextFormatOptions } from "./options";
+
+/**
+ * Report what `writeText` drops or alters for a file with the given options.
+ * Mirrors the writer's line construction so wrap warnings match the output.
+ */
+export function validateText(
+  file: ChecklistFile,
+  options: TextFormatOptions,
+  formatName: string,
+): FormatDiagnostic[] {
+  const report = createDiagnostics();
+  const titleSuffix = options.titlePrefixSuffix.split("").reverse().join("");
+
+  const firstGroup = file.groups[0];
+  if (
+    options.skipFirstGroup &&
+    firstGroup &&
+    firstGroup.checklists.length > 0
+  ) {
+    report.atGroup(
+      firstGroup,
+      "info",
+      `${formatName} omits the first group name; "${firstGroup.name}" will be imported back as "Main group"`,
+    );
+  }
+
+  if (options.groupNameSeparator) {
+    for (const group of file.groups) {
+      if (group.name.includes(options.groupNameSeparator)) {
+        report.atGroup(
+          group,
+          "warning",
+          `Group name contains "${options.groupNameSeparator}", which ${formatName} uses to separate group and checklist names`,
+        );
+      }
+    }
+  }
+
+  const minWidth = minLineLength(options.indentWidth);
+  if (options.maxLineLength && options.maxLineLength < minWidth) {
+    report.file(
+      "error",
+      `Wrap width ${options.maxLineLength} is too narrow for ${options.indentWidth} spaces per indent level; use at least ${minWidth} or 0 to turn wrapping off`,
+    );
+  }
+
+  reportUnsupportedCategories(file, report, formatName);
+  reportLiveDataTokens(file, report, formatName);
+  reportPlainTextFallback(file, report, formatName, "a challenge-only item");
+
+  if (options.forbidCommas) {
+    for (const group of file.groups) {
+      if (group.name.includes(",")) {
+        report.atGroup(
+          group,
+          "warning",
+          `Commas will be removed from group "${group.name}"`,
+        );
+      }
+      for (const checklist of group.checklists) {
+        if (checklist.name.includes(",")) {
+          report.atChecklist(
+            group,
+            checklist,
+            "warning",
+            `Commas will be removed from checklist "${checklist.name}"`,
+          );
+        }
+      }
+    }
+  }
+
+  forEachItem(file, (group, checklist, item) => {
+    const text = item.challengeText + item.responseText;
+
+    if (options.forbidCommas && text.includes(",")) {
+      report.atItem(
+        group,
+        checklist,
+        item,
+        "warning",
+        "Commas will be removed",
+      );
+    }
+
+    if (
+      (item.type === ChecklistItemType.ChallengeOnly ||
+        item.type === ChecklistItemType.PlainText) &&
+      item.challengeText.includes(options.expectationSeparator)
+    ) {
+      report.atItem(
+        group,
+        checklist,
+        item,
+        "warning",
+        `Text contains "${options.expectationSeparator.trim()}" and will be imported back as a challenge/response item`,
+      );
+    }
+
+    const isBlankNote =
+      item.type === ChecklistItemType.Note && item.challengeText === "";
+    if (isBlankNote) {
+      report.atItem(
+        group,
+        checklist,
+        item,
+        "info",
+        "Empty notes are written as blank lines and will be imported back as spaces",
+      );
+    }
+    if (
+      (item.type === ChecklistItemType.Space || isBlankNote) &&
+      item.indent > 0
+    ) {
+      report.atItem(
+        group,
+        checklist,
+        item,
+        "info",
+        "Blank lines cannot be indented; indent will be dropped",
+      );
+    }
+
+    if (item.centered && item.indent > 0) {
+      report.atItem(
+        group,
+        checklist,
+        item,
+        "info",
+        "Centered items cannot be indented; indent will be dropped",
+      );
+    }
+
+    if (options.maxLineLength) {
+      let prefix = "";
+      let suffix = "";
+      switch (item.type) {
+        case ChecklistItemType.Title:
+          prefix = options.titlePrefixSuffix;
+          suffix = titleSuffix;
+          break;
+        case ChecklistItemType.Warning:
+          prefix = options.warningPrefix;
+          break;
+        case ChecklistItemType.Caution:
+          prefix = options.cautionPrefix;
+          break;
+        case ChecklistItemType.Note:
+          if (item.challengeText) prefix = options.notePrefix;
+          break;
+      }
+      let fullLine = prefix + item.challengeText;
+      if (item.responseText) {
+        fullLine += options.expectationSeparator + item.responseText;
+      }
+      fullLine += suffix;
+
+      const indentWidth = item.centered ? 0 : item.indent * options.indentWidth;
+      if (fullLine.length > options.maxLineLength - indentWidth) {
+        report.atItem(
+          group,
+          checklist,
+          item,
+          "info",
+          `Line is longer than ${options.maxLineLength} characters and will be wrapped with "${WRAP_PREFIX.trim()}" continuation lines`,
+        );
+      }
+    }
+  });
+
+  if (options.allUppercase) {
+    const isLower = (s: string) => s !== s.toUpperCase();
+    const hasLowercase = file.groups.some(
+      (g) =>
+        isLower(g.name) ||
+        g.checklists.some(
+          (c) =>
+            isLower(c.name) ||
+            c.items.some(
+              (i) => isLower(i.challengeText) || isLower(i.responseText),
+            ),
+        ),
+    );
+    if (hasLowercase) {
+      report.file("info", `${formatName} converts all text to uppercase`);
+    }
+  }
+
+  return report.diagnostics;
+}
@@ -158,7 +158,8 @@ export function writeText(
       let prefix = "";
       let suffix = "";
       const isSpace =
-        item.type === ChecklistItemType.Note && item.challengeText === "";
+        item.type === ChecklistItemType.Space ||
+        (item.type === ChecklistItemType.Note && item.challengeText === "");
 
       switch (item.type) {
         case ChecklistItemType.Title:
@@ -176,8 +177,10 @@ export function writeText(
           break;
       }
 
-      let fullLine = prefix + normalizeText(item.challengeText);
-      if (item.responseText) {
+      // Space items have no text of their own
+      const hasText = item.type !== ChecklistItemType.Space;
+      let fullLine = hasText ? prefix + normalizeText(item.challengeText) : "";
+      if (item.responseText && hasText) {
         fullLine += options.expectationSeparator;
         fullLine += normalizeText(item.responseText);
       }
@@ -215,7 +218,11 @@ export function writeText(
         }
 
         if (options.maxLineLength) {
-          const maxContent = options.maxLineLength - indentWidth - wrapWidth;
+          // At least one character per line, or wrapping would never end
+          const maxContent = Math.max(
+            options.maxLineLength - indentWidth - wrapWidth,
+            1,
+          );
           if (remaining.length > maxContent) {
             let wrapIdx = remaining.slice(0, maxContent).lastIndexOf(" ");
             if (wrapIdx === -1) wrapIdx = options.maxLineLength;
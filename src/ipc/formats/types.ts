@@ -1,4 +1,4 @@
-import type { ChecklistFile } from "@/types/checklist";
+import type { ChecklistFile, ExportOptions } from "@/types/checklist";
 
 /**
  * Data shape returned by parsers — excludes runtime-only fields
@@ -7,7 +7,28 @@ import type { ChecklistFile } from "@/types/checklist";
 export type ParsedChecklistFile = Omit<
   ChecklistFile,
   "id" | "dirty" | "lastModified"
->;
+> & {
+  /** Compatibility problems the reader worked around, shown when the file is opened */
+  warnings?: string[];
+};
+
+/** How serious a format compatibility finding is; errors block the export */
+export type DiagnosticSeverity = "info" | "warning" | "error";
+
+/**
+ * A single lossy-conversion finding reported by a format validator.
+ *
+ * Location IDs are filled in as specifically as possible (file-level
+ * findings have none, item-level findings have all three) so the UI
+ * can group findings and navigate to the offending item.
+ */
+export interface FormatDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  groupId?: string;
+  checklistId?: string;
+  itemId?: string;
+}
 
 /**
  * Common interface for all format parsers.
@@ -19,6 +40,14 @@ export type ParsedChecklistFile = Omit<
 export interface FormatParser {
   /** Parse raw file content into the internal checklist model */
   parse(content: Buffer, fileName: string): ParsedChecklistFile;
-  /** Serialize internal checklist model to file content */
-  serialize(file: ChecklistFile): Buffer | string;
+  /**
+   * Serialize internal checklist model to file content.
+   * Formats without configurable settings ignore `options`.
+   */
+  serialize(file: ChecklistFile, options?: ExportOptions): Buffer | string;
+  /**
+   * Report everything `serialize` would drop or alter for this file
+   * with the same options. Omitted by lossless formats.
+   */
+  validate?(file: ChecklistFile, options?: ExportOptions): FormatDiagnostic[];
 }
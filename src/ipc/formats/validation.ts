@@ -0,0 +1,152 @@
+import { ChecklistGroupCategory, ChecklistItemType } from "@/types/checklist";
+import type {
+  Checklist,
+  ChecklistFile,
+  ChecklistGroup,
+  ChecklistItem,
+} from "@/types/checklist";
+import { findLiveDataTokens } from "./garmin-pilot/live-data";
+import type { DiagnosticSeverity, FormatDiagnostic } from "./types";
+
+/**
+ * Collects diagnostics for a single validation pass.
+ *
+ * The `at*` helpers fill in location IDs so each validator only has to
+ * describe what is lost, not where it lives in the tree.
+ */
+export function createDiagnostics() {
+  const diagnostics: FormatDiagnostic[] = [];
+
+  return {
+    diagnostics,
+
+    file(severity: DiagnosticSeverity, message: string) {
+      diagnostics.push({ severity, message });
+    },
+
+    atGroup(
+      group: ChecklistGroup,
+      severity: DiagnosticSeverity,
+      message: string,
+    ) {
+      diagnostics.push({ severity, message, groupId: group.id });
+    },
+
+    atChecklist(
+      group: ChecklistGroup,
+      checklist: Checklist,
+      severity: DiagnosticSeverity,
+      message: string,
+    ) {
+      diagnostics.push({
+        severity,
+        message,
+        groupId: group.id,
+        checklistId: checklist.id,
+      });
+    },
+
+    atItem(
+      group: ChecklistGroup,
+      checklist: Checklist,
+      item: ChecklistItem,
+      severity: DiagnosticSeverity,
+      message: string,
+    ) {
+      diagnostics.push({
+        severity,
+        message,
+        groupId: group.id,
+        checklistId: checklist.id,
+        itemId: item.id,
+      });
+    },
+  };
+}
+
+/** Visit every item in the file in document order */
+export function forEachItem(
+  file: ChecklistFile,
+  visit: (
+    group: ChecklistGroup,
+    checklist: Checklist,
+    item: ChecklistItem,
+    index: number,
+  ) => void,
+) {
+  for (const group of file.groups) {
+    for (const checklist of group.checklists) {
+      checklist.items.forEach((item, index) =>
+        visit(group, checklist, item, index),
+      );
+    }
+  }
+}
+
+/**
+ * Report non-normal group categories for formats that have no notion of
+ * emergency/abnormal groups — every group comes back as Normal on import.
+ */
+export function reportUnsupportedCategories(
+  file: ChecklistFile,
+  report: ReturnType<typeof createDiagnostics>,
+  formatName: string,
+) {
+  for (const group of file.groups) {
+    if (group.category !== ChecklistGroupCategory.Normal) {
+      report.atGroup(
+        group,
+        "info",
+        `${formatName} has no group categories; "${group.name}" will be imported back as a normal group`,
+      );
+    }
+  }
+}
+
+/**
+ * Report Garmin Pilot live data tokens (`%LOCAL_ALTIMETER%` etc.) for formats
+ * that can only write them out as literal text.
+ */
+export function reportLiveDataTokens(
+  file: ChecklistFile,
+  report: ReturnType<typeof createDiagnostics>,
+  formatName: string,
+) {
+  forEachItem(file, (group, checklist, item) => {
+    const tokens = findLiveDataTokens(
+      `${item.challengeText}\n${item.responseText}`,
+    );
+    for (const { token, label } of tokens) {
+      report.atItem(
+        group,
+        checklist,
+        item,
+        "warning",
+        `${formatName} has no live data; "${label}" will be exported as the literal text ${token}`,
+      );
+    }
+  });
+}
+
+/**
+ * Report plain text items for formats without them: each is written as the
+ * nearest item the format has, named by `fallback`, and comes back as one.
+ */
+export function reportPlainTextFallback(
+  file: ChecklistFile,
+  report: ReturnType<typeof createDiagnostics>,
+  formatName: string,
+  fallback: string,
+) {
+  forEachItem(file, (group, checklist, item) => {
+    if (item.type === ChecklistItemType.PlainText) {
+      report.atItem(
+        group,
+        checklist,
+        item,
+        "warning",
+        `${formatName} has no plain text items; this item will be imported back as ${fallback}`,
+      );
+    }
+  });
+}
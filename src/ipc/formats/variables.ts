@@ -0,0 +1,181 @@
+import type { ChecklistFile, ChecklistFileMetadata } from "@/types/checklist";
+import { createDiagnostics } from "./validation";
+import type { FormatDiagnostic } from "./types";
+
+/** `{{NAME}}` tokens; names are upper-case letters, digits and underscores */
+export const VARIABLE_PATTERN = /\{\{\s*([A-Z][A-Z0-9_]*)\s*\}\}/g;
+
+/** A whole variable name, as entered in the variable table */
+export const VARIABLE_NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+/** A piece of text split around its variable tokens, for inline display */
+export type VariableSegment =
+  | { kind: "text"; text: string }
+  | { kind: "variable"; name: string; token: string; value?: string };
+
+/** Defined variables by name; rows with an invalid name are ignored */
+export function variableValues(
+  metadata: ChecklistFileMetadata,
+): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const { name, value } of metadata.variables ?? []) {
+    if (VARIABLE_NAME_PATTERN.test(name)) values.set(name, value);
+  }
+  return values;
+}
+
+/** Variable names referenced by `text`, in order of first use */
+export function findVariableNames(text: string): string[] {
+  const names = new Set<string>();
+  for (const match of text.matchAll(VARIABLE_PATTERN)) names.add(match[1]);
+  return [...names];
+}
+
+/** Substitute defined variables; unknown tokens are left in place */
+export function resolveVariables(
+  text: string,
+  values: Map<string, string>,
+): string {
+  return text.replace(VARIABLE_PATTERN, (token, name: string) =>
+    values.has(name) ? values.get(name)! : token,
+  );
+}
+
+/** Split `text` into literal runs and tokens, each token with its value if defined */
+export function splitVariables(
+  text: string,
+  values: Map<string, string>,
+): VariableSegment[] {
+  const segments: VariableSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    if (match.index > last) {
+      segments.push({ kind: "text", text: text.slice(last, match.index) });
+    }
+    segments.push({
+      kind: "variable",
+      name: match[1],
+      token: match[0],
+      value: values.get(match[1]),
+    });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length)
+    segments.push({ kind: "text", text: text.slice(last) });
+  return segments;
+}
+
+/** Copy of `file` with every variable token replaced by its value */
+export function expandVariables(file: ChecklistFile): ChecklistFile {
+  const values = variableValues(file.metadata);
+  const expand = (text: string) => resolveVariables(text, values);
+  return {
+    ...file,
+    groups: file.groups.map((group) => ({
+      ...group,
+      name: expand(group.name),
+      checklists: group.checklists.map((checklist) => ({
+        ...checklist,
+        name: expand(checklist.name),
+        items: checklist.items.map((item) => ({
+          ...item,
+          challengeText: expand(item.challengeText),
+          responseText: expand(item.responseText),
+        })),
+      })),
+    })),
+    metadata: {
+      ...file.metadata,
+      aircraftRegistration: expand(file.metadata.aircraftRegistration),
+      makeModel: expand(file.metadata.makeModel),
+      copyright: expand(file.metadata.copyright),
+      ...(file.metadata.description !== undefined
+        ? { description: expand(file.metadata.description) }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Report tokens that expansion cannot resolve (errors) and variables that
+ * are defined but blank (warnings), at the field that uses them.
+ */
+export function validateVariables(file: ChecklistFile): FormatDiagnostic[] {
+  const report = createDiagnostics();
+  const values = variableValues(file.metadata);
+
+  function check(texts: string[], add: typeof report.file) {
+    for (const name of findVariableNames(texts.join("\n"))) {
+      const value = values.get(name);
+      if (value === undefined) {
+        add("error", `Unknown variable {{${name}}}`);
+      } else if (!value.trim()) {
+        add("warning", `Variable {{${name}}} has no value and exports blank`);
+      }
+    }
+  }
+
+  check(
+    [
+      file.metadata.aircraftRegistration,
+      file.metadata.makeModel,
+      file.metadata.copyright,
+      file.metadata.description ?? "",
+    ],
+    report.file,
+  );
+  for (const group of file.groups) {
+    check([group.name], (severity, message) =>
+      report.atGroup(group, severity, message),
+    );
+    for (const checklist of group.checklists) {
+      check([checklist.name], (severity, message) =>
+        report.atChecklist(group, checklist, severity, message),
+      );
+      for (const item of checklist.items) {
+        check([item.challengeText, item.responseText], (severity, message) =>
+          report.atItem(group, checklist, item, severity, message),
+        );
+      }
+    }
+  }
+
+  return report.diagnostics;
+}
+
+/** Every text field that may hold tokens, in document order */
+function variableTexts(file: ChecklistFile): string[] {
+  const texts = [
+    file.metadata.aircraftRegistration,
+    file.metadata.makeModel,
+    file.metadata.copyright,
+    file.metadata.description ?? "",
+  ];
+  for (const group of file.groups) {
+    texts.push(group.name);
+    for (const checklist of group.checklists) {
+      texts.push(checklist.name);
+      for (const item of checklist.items) {
+        texts.push(item.challengeText, item.responseText);
+      }
+    }
+  }
+  return texts;
+}
+
+/** Names used somewhere in the file without a variable defined for them */
+export function findUnknownVariables(file: ChecklistFile): string[] {
+  const values = variableValues(file.metadata);
+  return findVariableNames(variableTexts(file).join("\n")).filter(
+    (name) => !values.has(name),
+  );
+}
+
+/** Throw if any token in `file` has no variable defined for it */
+export function assertVariablesDefined(file: ChecklistFile) {
+  const unknown = findUnknownVariables(file).map((name) => `{{${name}}}`);
+  if (unknown.length === 0) return;
+  throw new Error(
+    `Unknown variable${unknown.length === 1 ? "" : "s"} ${unknown.join(", ")}; define ${unknown.length === 1 ? "it" : "them"} in the file metadata before exporting`,
+  );
+}
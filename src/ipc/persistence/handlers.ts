@@ -3,10 +3,15 @@ import { app } from "electron";
 import { readFile, writeFile, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import path from "path";
+import type { ChecklistFile } from "@/types/checklist";
+import { listSnapshots, readSnapshot, writeSnapshot } from "./history";
 import {
   saveWorkspaceInputSchema,
   saveWindowStateInputSchema,
   savePanelStateInputSchema,
+  saveSnapshotInputSchema,
+  listSnapshotsInputSchema,
+  readSnapshotInputSchema,
 } from "./schemas";
 
 const WORKSPACE_FILE_NAME = "workspace.json";
@@ -25,11 +30,11 @@ function getPanelStatePath(): string {
   return path.join(app.getPath("userData"), PANEL_STATE_FILE_NAME);
 }
 
-/** Save workspace state (files + activeFileId) to disk */
+/** Save workspace state (files, activeFileId, export settings) to disk */
 export const saveWorkspace = os
   .input(saveWorkspaceInputSchema)
   .handler(async ({ input }) => {
-    const { files, activeFileId } = input;
+    const { files, activeFileId, exportSettings } = input;
     const filePath = getWorkspacePath();
 
     const dir = path.dirname(filePath);
@@ -37,7 +42,11 @@ export const saveWorkspace = os
       await mkdir(dir, { recursive: true });
     }
 
-    const content = JSON.stringify({ files, activeFileId }, null, 2);
+    const content = JSON.stringify(
+      { files, activeFileId, exportSettings },
+      null,
+      2,
+    );
     await writeFile(filePath, content, "utf-8");
 
     return { success: true };
@@ -121,3 +130,25 @@ export const loadPanelState = os.handler(async () => {
     return null;
   }
 });
+
+/** Record a revision snapshot of a file (skipped if nothing changed) */
+export const saveSnapshot = os
+  .input(saveSnapshotInputSchema)
+  .handler(async ({ input }) => {
+    const { file, reason } = input;
+    return writeSnapshot(file as unknown as ChecklistFile, reason);
+  });
+
+/** List a file's revision snapshots, newest first */
+export const getSnapshots = os
+  .input(listSnapshotsInputSchema)
+  .handler(async ({ input }) => {
+    return listSnapshots(input.fileId);
+  });
+
+/** Load the full file stored in a revision snapshot */
+export const loadSnapshot = os
+  .input(readSnapshotInputSchema)
+  .handler(async ({ input }) => {
+    return readSnapshot(input.fileId, input.snapshotId);
+  });
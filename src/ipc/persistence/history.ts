@@ -0,0 +1,183 @@
+import { app } from "electron";
+import { readFile, readdir, writeFile, mkdir, rm } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import type { ChecklistFile } from "@/types/checklist";
+import type { SnapshotEntry, SnapshotReason } from "./types";
+
+const HISTORY_DIR_NAME = "history";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * How long snapshots are kept:
+ * - everything from the last day,
+ * - explicit saves and the last snapshot of each day for 30 days,
+ * - never more than 100 per file (oldest go first).
+ */
+const RETENTION = {
+  keepAllFor: DAY,
+  keepDailyFor: 30 * DAY,
+  maxPerFile: 100,
+};
+
+/** Snapshot file contents: listing metadata plus the full file */
+interface SnapshotRecord extends SnapshotEntry {
+  file: ChecklistFile;
+}
+
+/** File IDs come from the renderer — keep them to safe path characters */
+function getFileHistoryDir(fileId: string): string {
+  const safeId = fileId.replace(/[^\w-]/g, "_");
+  return path.join(app.getPath("userData"), HISTORY_DIR_NAME, safeId);
+}
+
+async function readRecord(
+  dir: string,
+  fileName: string,
+): Promise<SnapshotRecord | null> {
+  try {
+    const content = await readFile(path.join(dir, fileName), "utf-8");
+    return JSON.parse(content) as SnapshotRecord;
+  } catch {
+    return null;
+  }
+}
+
+/** All snapshots of a file, newest first */
+async function readRecords(fileId: string): Promise<SnapshotRecord[]> {
+  const dir = getFileHistoryDir(fileId);
+  if (!existsSync(dir)) return [];
+
+  const names = (await readdir(dir)).filter((n) => n.endsWith(".json"));
+  const records = await Promise.all(names.map((n) => readRecord(dir, n)));
+  return records
+    .filter((r): r is SnapshotRecord => r !== null)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+function toEntry(record: SnapshotRecord): SnapshotEntry {
+  const { id, fileId, fileName, createdAt, reason, groups, checklists, items } =
+    record;
+  return { id, fileId, fileName, createdAt, reason, groups, checklists, items };
+}
+
+/** The parts of a file a snapshot cares about, for change detection */
+function contentKey(file: ChecklistFile): string {
+  return JSON.stringify({
+    name: file.name,
+    metadata: file.metadata,
+    groups: file.groups,
+  });
+}
+
+/** Snapshots to delete under `RETENTION`, given records newest first */
+function selectExpired(records: SnapshotEntry[], now: number): SnapshotEntry[] {
+  const seenDays = new Set<string>();
+  const kept: SnapshotEntry[] = [];
+  const expired: SnapshotEntry[] = [];
+
+  for (const record of records) {
+    const age = now - record.createdAt;
+    const day = new Date(record.createdAt).toDateString();
+    const newestOfDay = !seenDays.has(day);
+    seenDays.add(day);
+
+    const keep =
+      age < RETENTION.keepAllFor ||
+      (age < RETENTION.keepDailyFor &&
+        (record.reason === "save" || newestOfDay));
+
+    if (keep && kept.length < RETENTION.maxPerFile) {
+      kept.push(record);
+    } else {
+      expired.push(record);
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Store a snapshot of a file, then prune its history.
+ * Returns null (and stores nothing) if the file is unchanged since the
+ * latest snapshot; an explicit save marks that snapshot as saved instead.
+ */
+export async function writeSnapshot(
+  file: ChecklistFile,
+  reason: SnapshotReason,
+): Promise<SnapshotEntry | null> {
+  const records = await readRecords(file.id);
+  const latest = records[0];
+  if (latest && contentKey(latest.file) === contentKey(file)) {
+    // Promote an unchanged auto snapshot so an explicit save is never pruned early
+    if (reason === "save" && latest.reason === "auto") {
+      latest.reason = "save";
+      await writeFile(
+        path.join(getFileHistoryDir(file.id), `${latest.id}.json`),
+        JSON.stringify(latest),
+        "utf-8",
+      );
+      return toEntry(latest);
+    }
+    return null;
+  }
+
+  const createdAt = Date.now();
+  let itemCount = 0;
+  let checklistCount = 0;
+  for (const group of file.groups) {
+    checklistCount += group.checklists.length;
+    for (const checklist of group.checklists) {
+      itemCount += checklist.items.length;
+    }
+  }
+
+  const record: SnapshotRecord = {
+    id: `${createdAt}`,
+    fileId: file.id,
+    fileName: file.name,
+    createdAt,
+    reason,
+    groups: file.groups.length,
+    checklists: checklistCount,
+    items: itemCount,
+    file,
+  };
+
+  const dir = getFileHistoryDir(file.id);
+  if (!existsSync(dir)) {
+    await mkdir(dir, { recursive: true });
+  }
+  await writeFile(
+    path.join(dir, `${record.id}.json`),
+    JSON.stringify(record),
+    "utf-8",
+  );
+
+  const expired = selectExpired([record, ...records], createdAt);
+  await Promise.all(
+    expired.map((e) => rm(path.join(dir, `${e.id}.json`), { force: true })),
+  );
+
+  return toEntry(record);
+}
+
+export async function listSnapshots(fileId: string): Promise<SnapshotEntry[]> {
+  return (await readRecords(fileId)).map(toEntry);
+}
+
+export async function readSnapshot(
+  fileId: string,
+  snapshotId: string,
+): Promise<ChecklistFile> {
+  const record = await readRecord(
+    getFileHistoryDir(fileId),
+    `${snapshotId.replace(/[^\w-]/g, "_")}.json`,
+  );
+  if (!record) {
+    throw new Error("Snapshot not found");
+  }
+  return record.file;
+}
@@ -5,6 +5,9 @@ import {
   loadWindowState,
   savePanelState,
   loadPanelState,
+  saveSnapshot,
+  getSnapshots,
+  loadSnapshot,
 } from "./handlers";
 
 export const persistence = {
@@ -14,4 +17,7 @@ export const persistence = {
   loadWindowState,
   savePanelState,
   loadPanelState,
+  saveSnapshot,
+  getSnapshots,
+  loadSnapshot,
 };
@@ -3,6 +3,7 @@ import z from "zod";
 export const saveWorkspaceInputSchema = z.object({
   files: z.record(z.string(), z.unknown()),
   activeFileId: z.string().nullable(),
+  exportSettings: z.record(z.string(), z.unknown()).optional(),
 });
 
 export const saveWindowStateInputSchema = z.object({
@@ -18,3 +19,17 @@ export const savePanelStateInputSchema = z.object({
   treePanelVisible: z.boolean(),
   propertiesPanelVisible: z.boolean(),
 });
+
+export const saveSnapshotInputSchema = z.object({
+  file: z.record(z.string(), z.unknown()),
+  reason: z.enum(["save", "auto"]),
+});
+
+export const listSnapshotsInputSchema = z.object({
+  fileId: z.string(),
+});
+
+export const readSnapshotInputSchema = z.object({
+  fileId: z.string(),
+  snapshotId: z.string(),
+});
@@ -0,0 +1,16 @@
+/** Why a revision snapshot was taken */
+export type SnapshotReason = "save" | "auto";
+
+/** A revision snapshot as listed in the history panel (without its content) */
+export interface SnapshotEntry {
+  /** Unique per file; also the snapshot's file name stem */
+  id: string;
+  fileId: string;
+  /** File name at the time of the snapshot */
+  fileName: string;
+  createdAt: number;
+  reason: SnapshotReason;
+  groups: number;
+  checklists: number;
+  items: number;
+}
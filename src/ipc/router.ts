@@ -1,10 +1,13 @@
 import { app } from "./app";
 import { checklist } from "./checklist";
+import { clipboard } from "./clipboard";
 import { dialog } from "./dialog";
 import { persistence } from "./persistence";
 import { shell } from "./shell";
+import { templates } from "./templates";
 import { theme } from "./theme";
 import { updater } from "./updater";
+import { watcher } from "./watcher";
 import { window } from "./window";
 
 export const router = {
@@ -14,6 +17,9 @@ export const router = {
   shell,
   updater,
   checklist,
+  clipboard,
   dialog,
   persistence,
+  templates,
+  watcher,
 };
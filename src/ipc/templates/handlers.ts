@@ -0,0 +1,40 @@
+import { os } from "@orpc/server";
+import type { ChecklistFile } from "@/types/checklist";
+import {
+  listTemplates,
+  readTemplate,
+  removeTemplate,
+  writeTemplate,
+} from "./library";
+import {
+  deleteTemplateInputSchema,
+  loadTemplateInputSchema,
+  saveTemplateInputSchema,
+} from "./schemas";
+
+/** List bundled templates, then user templates newest first */
+export const getTemplates = os.handler(async () => {
+  return listTemplates();
+});
+
+/** Load a template's file (placeholders still unfilled) */
+export const loadTemplate = os
+  .input(loadTemplateInputSchema)
+  .handler(async ({ input }) => {
+    return readTemplate(input.id);
+  });
+
+/** Save an open file as a user template */
+export const saveTemplate = os
+  .input(saveTemplateInputSchema)
+  .handler(async ({ input }) => {
+    const { file, name, description } = input;
+    return writeTemplate(file as unknown as ChecklistFile, name, description);
+  });
+
+export const deleteTemplate = os
+  .input(deleteTemplateInputSchema)
+  .handler(async ({ input }) => {
+    await removeTemplate(input.id);
+    return { success: true };
+  });
@@ -0,0 +1,13 @@
+import {
+  getTemplates,
+  loadTemplate,
+  saveTemplate,
+  deleteTemplate,
+} from "./handlers";
+
+export const templates = {
+  getTemplates,
+  loadTemplate,
+  saveTemplate,
+  deleteTemplate,
+};
@@ -0,0 +1,177 @@
+import { app } from "electron";
+import { readFile, readdir, writeFile, mkdir, rm } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { findPlaceholders } from "@/utils/template-placeholders";
+import type { ChecklistFile } from "@/types/checklist";
+import type { TemplateEntry, TemplateSource } from "./types";
+
+const USER_TEMPLATES_DIR_NAME = "templates";
+
+/** Files from the repo's `templates/` directory offered in the gallery */
+const BUNDLED_TEMPLATES = [
+  "generic-single-engine.json",
+  "cessna-172imn.json",
+  "piper-cherokee-archer-warrior.json",
+];
+
+/** User template contents: gallery details plus the file */
+interface UserTemplateRecord {
+  name: string;
+  description: string;
+  createdAt: number;
+  file: ChecklistFile;
+}
+
+/** Bundled templates ship as an extra resource; in development they are read from the repo */
+function getBundledDir(): string {
+  return app.isPackaged
+    ? path.join(process.resourcesPath, "templates")
+    : path.join(app.getAppPath(), "templates");
+}
+
+function getUserDir(): string {
+  return path.join(app.getPath("userData"), USER_TEMPLATES_DIR_NAME);
+}
+
+/** IDs come from the renderer — keep them to safe path characters */
+function parseId(id: string): { source: TemplateSource; stem: string } {
+  const [source, stem = ""] = id.split(":", 2);
+  if (source !== "bundled" && source !== "user") {
+    throw new Error(`Unknown template: ${id}`);
+  }
+  return { source, stem: stem.replace(/[^\w-]/g, "_") };
+}
+
+function toEntry(
+  id: string,
+  source: TemplateSource,
+  name: string,
+  description: string,
+  file: ChecklistFile,
+): TemplateEntry {
+  return {
+    id,
+    source,
+    name,
+    description,
+    placeholders: findPlaceholders(file),
+    groups: file.groups.length,
+    checklists: file.groups.reduce((n, g) => n + g.checklists.length, 0),
+  };
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf-8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function listTemplates(): Promise<TemplateEntry[]> {
+  const entries: TemplateEntry[] = [];
+
+  for (const fileName of BUNDLED_TEMPLATES) {
+    const file = await readJson<ChecklistFile>(
+      path.join(getBundledDir(), fileName),
+    );
+    if (!file) continue;
+    entries.push(
+      toEntry(
+        `bundled:${path.parse(fileName).name}`,
+        "bundled",
+        file.name,
+        file.metadata.makeModel,
+        file,
+      ),
+    );
+  }
+
+  const userDir = getUserDir();
+  if (existsSync(userDir)) {
+    const names = (await readdir(userDir)).filter((n) => n.endsWith(".json"));
+    const records = await Promise.all(
+      names.map(async (n) => ({
+        stem: path.parse(n).name,
+        record: await readJson<UserTemplateRecord>(path.join(userDir, n)),
+      })),
+    );
+    for (const { stem, record } of records.sort(
+      (a, b) => (b.record?.createdAt ?? 0) - (a.record?.createdAt ?? 0),
+    )) {
+      if (!record) continue;
+      entries.push(
+        toEntry(
+          `user:${stem}`,
+          "user",
+          record.name,
+          record.description,
+          record.file,
+        ),
+      );
+    }
+  }
+
+  return entries;
+}
+
+export async function readTemplate(id: string): Promise<ChecklistFile> {
+  const { source, stem } = parseId(id);
+  if (source === "bundled") {
+    const file = await readJson<ChecklistFile>(
+      path.join(getBundledDir(), `${stem}.json`),
+    );
+    if (file) return file;
+  } else {
+    const record = await readJson<UserTemplateRecord>(
+      path.join(getUserDir(), `${stem}.json`),
+    );
+    if (record) return record.file;
+  }
+  throw new Error("Template not found");
+}
+
+/** Store a file as a user template, without its workspace-only fields */
+export async function writeTemplate(
+  file: ChecklistFile,
+  name: string,
+  description: string,
+): Promise<TemplateEntry> {
+  const createdAt = Date.now();
+  const record: UserTemplateRecord = {
+    name,
+    description,
+    createdAt,
+    file: {
+      id: file.id,
+      name: file.name,
+      format: file.format,
+      groups: file.groups,
+      metadata: file.metadata,
+      lastModified: createdAt,
+      dirty: false,
+      extensions: file.extensions,
+    },
+  };
+
+  const dir = getUserDir();
+  if (!existsSync(dir)) {
+    await mkdir(dir, { recursive: true });
+  }
+  await writeFile(
+    path.join(dir, `${createdAt}.json`),
+    JSON.stringify(record, null, 2),
+    "utf-8",
+  );
+
+  return toEntry(`user:${createdAt}`, "user", name, description, record.file);
+}
+
+export async function removeTemplate(id: string): Promise<void> {
+  const { source, stem } = parseId(id);
+  if (source !== "user") {
+    throw new Error("Bundled templates cannot be deleted");
+  }
+  await rm(path.join(getUserDir(), `${stem}.json`), { force: true });
+}
@@ -0,0 +1,15 @@
+import z from "zod";
+
+export const loadTemplateInputSchema = z.object({
+  id: z.string(),
+});
+
+export const saveTemplateInputSchema = z.object({
+  file: z.record(z.string(), z.unknown()),
+  name: z.string().min(1),
+  description: z.string(),
+});
+
+export const deleteTemplateInputSchema = z.object({
+  id: z.string(),
+});
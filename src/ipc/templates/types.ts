@@ -0,0 +1,15 @@
+/** Where a template comes from: shipped with the app or saved by the user */
+export type TemplateSource = "bundled" | "user";
+
+/** A template as listed in the gallery (without its content) */
+export interface TemplateEntry {
+  /** Prefixed with the source, e.g. "bundled:cessna-172imn" */
+  id: string;
+  source: TemplateSource;
+  name: string;
+  description: string;
+  /** Placeholder names to fill in, in order of first use */
+  placeholders: string[];
+  groups: number;
+  checklists: number;
+}
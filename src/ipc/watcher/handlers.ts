@@ -0,0 +1,11 @@
+import { os } from "@orpc/server";
+import { setWatchedFiles } from "./watcher";
+import { watchFilesInputSchema } from "./schemas";
+
+/** Watch exactly these paths for external changes (replaces the previous set) */
+export const watchFiles = os
+  .input(watchFilesInputSchema)
+  .handler(async ({ input }) => {
+    await setWatchedFiles(input.filePaths);
+    return { success: true };
+  });
@@ -0,0 +1,5 @@
+import { watchFiles } from "./handlers";
+
+export const watcher = {
+  watchFiles,
+};
@@ -0,0 +1,5 @@
+import z from "zod";
+
+export const watchFilesInputSchema = z.object({
+  filePaths: z.array(z.string()),
+});
@@ -0,0 +1,5 @@
+/** Sent to the renderer when a watched file is modified outside the app */
+export interface ExternalFileChange {
+  filePath: string;
+  kind: "changed" | "deleted";
+}
@@ -0,0 +1,82 @@
+import { watchFile, unwatchFile, type Stats } from "fs";
+import { readFile } from "fs/promises";
+import { createHash } from "crypto";
+import { ipcContext } from "@/ipc/context";
+import { WATCH_CHANNELS } from "@/constants";
+import type { ExternalFileChange } from "./types";
+
+/**
+ * Polling rather than `fs.watch`: it survives editors that save by
+ * replacing the file, and works on network shares that never deliver
+ * change notifications.
+ */
+const POLL_INTERVAL_MS = 2000;
+
+/** Content hash per watched path, so touches without edits are ignored */
+const knownHashes = new Map<string, string | null>();
+
+function hashContent(content: Buffer | string): string {
+  return createHash("sha1").update(content).digest("hex");
+}
+
+async function hashFile(filePath: string): Promise<string | null> {
+  try {
+    return hashContent(await readFile(filePath));
+  } catch {
+    return null;
+  }
+}
+
+function notify(change: ExternalFileChange) {
+  ipcContext.mainWindow?.webContents.send(WATCH_CHANNELS.FILE_CHANGED, change);
+}
+
+async function handleStatChange(filePath: string, curr: Stats, prev: Stats) {
+  if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+
+  // A zeroed stat means the file is gone (deleted, or moved away)
+  if (curr.mtimeMs === 0) {
+    if (knownHashes.get(filePath) !== null) {
+      knownHashes.set(filePath, null);
+      notify({ filePath, kind: "deleted" });
+    }
+    return;
+  }
+
+  const hash = await hashFile(filePath);
+  if (!knownHashes.has(filePath) || hash === knownHashes.get(filePath)) return;
+  knownHashes.set(filePath, hash);
+  notify({ filePath, kind: "changed" });
+}
+
+/** Replace the watched set with exactly these paths */
+export async function setWatchedFiles(filePaths: string[]) {
+  const wanted = new Set(filePaths);
+
+  for (const filePath of knownHashes.keys()) {
+    if (!wanted.has(filePath)) {
+      unwatchFile(filePath);
+      knownHashes.delete(filePath);
+    }
+  }
+
+  for (const filePath of wanted) {
+    if (knownHashes.has(filePath)) continue;
+    knownHashes.set(filePath, await hashFile(filePath));
+    watchFile(
+      filePath,
+      { interval: POLL_INTERVAL_MS, persistent: false },
+      (curr, prev) => void handleStatChange(filePath, curr, prev),
+    );
+  }
+}
+
+/**
+ * Call before the app itself writes a watched path (e.g. exporting over
+ * the file it was imported from) so the write isn't reported as external.
+ */
+export function noteOwnWrite(filePath: string, content: Buffer | string) {
+  if (knownHashes.has(filePath)) {
+    knownHashes.set(filePath, hashContent(content));
+  }
+}
@@ -8,9 +8,14 @@ import { PropertiesPanel } from "@/components/editor/properties-panel";
 import { StatusBar } from "@/components/editor/status-bar";
 import { CommandPalette } from "@/components/editor/command-palette";
 import { ExportModal } from "@/components/editor/export-modal";
+import { FindReplaceDialog } from "@/components/editor/find-replace-dialog";
 import { ShortcutsHint } from "@/components/editor/shortcuts-hint";
+import { ExternalChangeDialog } from "@/components/editor/external-change-dialog";
+import { CsvImportDialog } from "@/components/editor/csv-import-dialog";
 import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
 import { useAutosave } from "@/hooks/use-autosave";
+import { useRevisionHistory } from "@/hooks/use-revision-history";
+import { useFileWatcher } from "@/hooks/use-file-watcher";
 import { useLoadWorkspace } from "@/hooks/use-load-workspace";
 import { useBeforeUnload } from "@/hooks/use-before-unload";
 import { useUiStore } from "@/stores";
@@ -19,6 +24,7 @@ import { useChecklistStore } from "@/stores";
 export default function EditorLayout() {
   const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
   const [exportModalOpen, setExportModalOpen] = useState(false);
+  const [findReplaceOpen, setFindReplaceOpen] = useState(false);
   const [shortcutsVisible, setShortcutsVisible] = useState(true); // Show on first load
 
   const sidebarVisible = useUiStore((s) => s.sidebarVisible);
@@ -33,11 +39,16 @@ export default function EditorLayout() {
   useKeyboardShortcuts({
     onOpenCommandPalette: () => setCommandPaletteOpen(true),
     onOpenExportModal: () => setExportModalOpen(true),
+    onOpenFindReplace: () => setFindReplaceOpen(true),
     onShowShortcuts: () => setShortcutsVisible(true),
   });
 
   // Autosave and workspace persistence
   useAutosave();
+  useRevisionHistory();
+
+  // Reconcile changes made to open files by other programs
+  const externalChange = useFileWatcher();
   const isLoading = useLoadWorkspace();
 
   // Warn before closing with unsaved changes
@@ -64,6 +75,7 @@ export default function EditorLayout() {
       <Toolbar
         onOpenCommandPalette={() => setCommandPaletteOpen(true)}
         onOpenExportModal={() => setExportModalOpen(true)}
+        onOpenFindReplace={() => setFindReplaceOpen(true)}
       />
 
       {/* Main content area — 4 panels */}
@@ -89,8 +101,23 @@ export default function EditorLayout() {
         onOpenChange={setCommandPaletteOpen}
       />
 
+      {/* Find and replace */}
+      <FindReplaceDialog
+        open={findReplaceOpen}
+        onOpenChange={setFindReplaceOpen}
+      />
+
       {/* Export modal */}
       <ExportModal open={exportModalOpen} onOpenChange={setExportModalOpen} />
+
+      {/* Column mapping for imported CSV files */}
+      <CsvImportDialog />
+
+      {/* External file change prompt */}
+      <ExternalChangeDialog
+        change={externalChange.change}
+        onResolved={externalChange.dismiss}
+      />
     </div>
   );
 }
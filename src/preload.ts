@@ -1,6 +1,7 @@
 import { contextBridge, ipcRenderer } from "electron";
-import { IPC_CHANNELS, UPDATE_CHANNELS } from "./constants";
+import { IPC_CHANNELS, UPDATE_CHANNELS, WATCH_CHANNELS } from "./constants";
 import type { UpdateInfo, DownloadProgress } from "./ipc/updater/types";
+import type { ExternalFileChange } from "./ipc/watcher/types";
 
 // Forward oRPC server port
 window.addEventListener("message", (event) => {
@@ -55,3 +56,18 @@ const updateAPI = {
 };
 
 contextBridge.exposeInMainWorld("updateAPI", updateAPI);
+
+// Expose file watcher events to renderer
+const watchAPI = {
+  onFileChanged: (callback: (change: ExternalFileChange) => void) => {
+    const handler = (
+      _: Electron.IpcRendererEvent,
+      change: ExternalFileChange,
+    ) => callback(change);
+    ipcRenderer.on(WATCH_CHANNELS.FILE_CHANGED, handler);
+    return () =>
+      ipcRenderer.removeListener(WATCH_CHANNELS.FILE_CHANGED, handler);
+  },
+};
+
+contextBridge.exposeInMainWorld("watchAPI", watchAPI);
@@ -5,15 +5,20 @@ import { temporal } from "zundo";
 
 enableMapSet();
 
-import { ChecklistItemType } from "@/types/checklist";
+import { ChecklistFormat, ChecklistItemType } from "@/types/checklist";
 import type {
+  ChecklistExtensions,
   ChecklistFile,
   ChecklistFileMetadata,
   ChecklistGroup,
   ChecklistGroupCategory,
   Checklist,
   ChecklistItem,
+  ExportOptions,
+  ExportProfile,
+  FileExportSettings,
 } from "@/types/checklist";
+import type { TextEdit } from "@/utils/find-replace";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -48,6 +53,8 @@ function createEmptyItem(
 interface ChecklistState {
   /** All open files keyed by ID */
   files: Record<string, ChecklistFile>;
+  /** Export targets and overrides by file ID; not part of undo history */
+  exportSettings: Record<string, FileExportSettings>;
 
   /** Currently active file */
   activeFileId: string | null;
@@ -76,12 +83,42 @@ interface ChecklistState {
   markFileDirty: (fileId: string) => void;
   markFileClean: (fileId: string) => void;
 
+  // -- Revision history actions ---------------------------------------------
+  restoreFile: (fileId: string, snapshot: ChecklistFile) => void;
+  /** Replace a file's content with the version on disk, leaving it clean */
+  reloadFile: (fileId: string, diskFile: ChecklistFile) => void;
+  restoreChecklist: (
+    fileId: string,
+    snapshotGroup: ChecklistGroup,
+    checklist: Checklist,
+  ) => void;
+
+  // -- Export profile actions -----------------------------------------------
+  loadExportSettings: (settings: Record<string, FileExportSettings>) => void;
+  saveExportProfile: (
+    fileId: string,
+    profile: Omit<ExportProfile, "id">,
+  ) => void;
+  removeExportProfile: (fileId: string, profileId: string) => void;
+  markProfileExported: (
+    fileId: string,
+    profileId: string,
+    exportedAt: number,
+    contentHash: string,
+  ) => void;
+  setExportOptions: (
+    fileId: string,
+    format: ChecklistFormat,
+    options: ExportOptions,
+  ) => void;
+
   // -- Group actions --------------------------------------------------------
   addGroup: (
     fileId: string,
     name: string,
     category: ChecklistGroupCategory,
   ) => void;
+  insertGroup: (fileId: string, group: ChecklistGroup, index?: number) => void;
   removeGroup: (fileId: string, groupId: string) => void;
   renameGroup: (fileId: string, groupId: string, name: string) => void;
   updateGroupCategory: (
@@ -116,10 +153,14 @@ interface ChecklistState {
     checklistId: string,
     toIndex?: number,
   ) => void;
+  /** Add copies of `checklists` with fresh IDs, at `index` or the end */
   addChecklistsToGroup: (
     fileId: string,
     groupId: string,
-    checklists: Checklist[],
+    checklists: (Omit<Checklist, "id" | "items"> & {
+      items: Omit<ChecklistItem, "id">[];
+    })[],
+    index?: number,
   ) => void;
   copyChecklistToFile: (
     sourceFileId: string,
@@ -134,6 +175,15 @@ interface ChecklistState {
     fromIndex: number,
     toIndex: number,
   ) => void;
+  /** Make `checklistId` the file's startup checklist, or clear it with null */
+  setDefaultChecklist: (fileId: string, checklistId: string | null) => void;
+  /** Replace the extension data of the given formats, leaving the others */
+  updateChecklistExtensions: (
+    fileId: string,
+    groupId: string,
+    checklistId: string,
+    extensions: ChecklistExtensions,
+  ) => void;
 
   // -- Item actions ---------------------------------------------------------
   addItem: (
@@ -143,6 +193,13 @@ interface ChecklistState {
     type: ChecklistItemType,
     afterIndex?: number,
   ) => void;
+  insertItems: (
+    fileId: string,
+    groupId: string,
+    checklistId: string,
+    items: ChecklistItem[],
+    index: number,
+  ) => void;
   removeItem: (
     fileId: string,
     groupId: string,
@@ -196,6 +253,10 @@ interface ChecklistState {
   ) => void;
   uppercaseFile: (fileId: string) => void;
 
+  // -- Find and replace actions ---------------------------------------------
+  /** Apply text edits across any number of files as a single undo step */
+  replaceText: (edits: TextEdit[]) => void;
+
   // -- Multi-select item actions --------------------------------------------
   duplicateSelectedItems: (
     fileId: string,
@@ -207,6 +268,21 @@ interface ChecklistState {
     groupId: string,
     checklistId: string,
   ) => void;
+  /** Insert copies of `items` with fresh IDs after `afterItemId` (or at the end) and select them */
+  pasteItems: (
+    fileId: string,
+    groupId: string,
+    checklistId: string,
+    items: Omit<ChecklistItem, "id">[],
+    afterItemId: string | null,
+  ) => void;
+  /** Apply the same changes to every selected item as a single undo step */
+  updateSelectedItems: (
+    fileId: string,
+    groupId: string,
+    checklistId: string,
+    changes: Partial<Omit<ChecklistItem, "id">>,
+  ) => void;
   reorderSelectedItems: (
     fileId: string,
     groupId: string,
@@ -247,6 +323,17 @@ function uppercaseItemText(item: ChecklistItem) {
   }
 }
 
+/** Drop the Garmin Pilot phase of flight picked for the checklist's old group */
+function withoutGroupPhase(
+  extensions: ChecklistExtensions | undefined,
+): ChecklistExtensions | undefined {
+  const garmin = extensions?.[ChecklistFormat.Gplt];
+  if (garmin?.subtype === undefined) return extensions;
+  const rest = { ...garmin };
+  delete rest.subtype;
+  return { ...extensions, [ChecklistFormat.Gplt]: rest };
+}
+
 function markDirty(
   state: { files: Record<string, ChecklistFile> },
   fileId: string,
@@ -258,6 +345,28 @@ function markDirty(
   }
 }
 
+/** Put `snapshot`'s content into a file; path, format and export settings stay current */
+function restoreContent(
+  state: ChecklistState,
+  fileId: string,
+  snapshot: ChecklistFile,
+): ChecklistFile | undefined {
+  const file = state.files[fileId];
+  if (!file) return undefined;
+  file.name = snapshot.name;
+  file.metadata = snapshot.metadata;
+  file.groups = snapshot.groups;
+  file.extensions = snapshot.extensions;
+  if (state.activeFileId === fileId) {
+    state.activeChecklistId = null;
+    state.activeItemId = null;
+    state.editingItemId = null;
+    state.selectedItemIds = new Set();
+    state.anchorItemId = null;
+  }
+  return file;
+}
+
 // ---------------------------------------------------------------------------
 // Store
 // ---------------------------------------------------------------------------
@@ -266,6 +375,7 @@ export const useChecklistStore = create<ChecklistState>()(
   temporal(
     immer((set) => ({
       files: {},
+      exportSettings: {},
       activeFileId: null,
       activeChecklistId: null,
       activeItemId: null,
@@ -285,6 +395,7 @@ export const useChecklistStore = create<ChecklistState>()(
       removeFile: (id) =>
         set((state) => {
           delete state.files[id];
+          delete state.exportSettings[id];
           if (state.activeFileId === id) {
             const remaining = Object.keys(state.files);
             state.activeFileId = remaining.length > 0 ? remaining[0] : null;
@@ -333,6 +444,113 @@ export const useChecklistStore = create<ChecklistState>()(
           if (file) file.dirty = false;
         }),
 
+      // -- Revision history actions -----------------------------------------
+
+      restoreFile: (fileId, snapshot) =>
+        set((state) => {
+          if (restoreContent(state, fileId, snapshot)) {
+            markDirty(state, fileId);
+          }
+        }),
+
+      reloadFile: (fileId, diskFile) =>
+        set((state) => {
+          const file = restoreContent(state, fileId, diskFile);
+          if (!file) return;
+          file.dirty = false;
+          file.lastModified = Date.now();
+        }),
+
+      restoreChecklist: (fileId, snapshotGroup, checklist) =>
+        set((state) => {
+          const file = state.files[fileId];
+          if (!file) return;
+
+          // Still present: put the old contents back in place
+          for (const group of file.groups) {
+            const existing = findChecklist(group, checklist.id);
+            if (existing) {
+              existing.name = checklist.name;
+              existing.items = checklist.items;
+              markDirty(state, fileId);
+              return;
+            }
+          }
+
+          // Deleted since: re-add it to its group, recreating the group if needed
+          let group =
+            findGroup(file, snapshotGroup.id) ??
+            file.groups.find((g) => g.name === snapshotGroup.name);
+          if (!group) {
+            group = {
+              id: snapshotGroup.id,
+              name: snapshotGroup.name,
+              category: snapshotGroup.category,
+              checklists: [],
+              extensions: snapshotGroup.extensions,
+            };
+            file.groups.push(group);
+          }
+          group.checklists.push(checklist);
+          markDirty(state, fileId);
+        }),
+
+      // -- Export profile actions -------------------------------------------
+      // Profiles are editor bookkeeping, not checklist content, so these
+      // never mark the file dirty (that would make every export look stale)
+      // and live outside `files`, which undo snapshots.
+
+      loadExportSettings: (settings) =>
+        set((state) => {
+          for (const [fileId, fileSettings] of Object.entries(settings)) {
+            if (state.files[fileId])
+              state.exportSettings[fileId] = fileSettings;
+          }
+        }),
+
+      saveExportProfile: (fileId, profile) =>
+        set((state) => {
+          if (!state.files[fileId]) return;
+          const settings = (state.exportSettings[fileId] ??= {});
+          const profiles = (settings.profiles ??= []);
+          // One profile per destination — re-exporting to it updates in place
+          const existing = profiles.find(
+            (p) =>
+              p.format === profile.format && p.filePath === profile.filePath,
+          );
+          if (existing) {
+            Object.assign(existing, profile);
+          } else {
+            profiles.push({ ...profile, id: uid() });
+          }
+        }),
+
+      removeExportProfile: (fileId, profileId) =>
+        set((state) => {
+          const settings = state.exportSettings[fileId];
+          if (!settings?.profiles) return;
+          settings.profiles = settings.profiles.filter(
+            (p) => p.id !== profileId,
+          );
+        }),
+
+      markProfileExported: (fileId, profileId, exportedAt, contentHash) =>
+        set((state) => {
+          const profile = state.exportSettings[fileId]?.profiles?.find(
+            (p) => p.id === profileId,
+          );
+          if (!profile) return;
+          profile.lastExported = exportedAt;
+          profile.contentHash = contentHash;
+        }),
+
+      setExportOptions: (fileId, format, options) =>
+        set((state) => {
+          if (!state.files[fileId]) return;
+          const settings = (state.exportSettings[fileId] ??= {});
+          (settings.options ??= {})[format] = options;
+        }),
+
       // -- Group actions ----------------------------------------------------
 
       addGroup: (fileId, name, category) =>
@@ -349,6 +567,27 @@ export const useChecklistStore = create<ChecklistState>()(
           markDirty(state, fileId);
         }),
 
+      insertGroup: (fileId, group, index) =>
+        set((state) => {
+          const file = state.files[fileId];
+          if (!file) return;
+          // Copies get fresh IDs so the same group can be inserted twice
+          const clone: ChecklistGroup = {
+            id: uid(),
+            name: group.name,
+            category: group.category,
+            checklists: group.checklists.map((cl) => ({
+              id: uid(),
+              name: cl.name,
+              items: cl.items.map((item) => ({ ...item, id: uid() })),
+              extensions: cl.extensions,
+            })),
+            extensions: group.extensions,
+          };
+          file.groups.splice(index ?? file.groups.length, 0, clone);
+          markDirty(state, fileId);
+        }),
+
       removeGroup: (fileId, groupId) =>
         set((state) => {
           const file = state.files[fileId];
@@ -439,25 +678,30 @@ export const useChecklistStore = create<ChecklistState>()(
             id: uid(),
             name: `${source.name} (Copy)`,
             items: source.items.map((item) => ({ ...item, id: uid() })),
+            extensions: source.extensions,
           };
           const idx = group.checklists.findIndex((c) => c.id === checklistId);
           group.checklists.splice(idx + 1, 0, clone);
           markDirty(state, fileId);
         }),
 
-      addChecklistsToGroup: (fileId, groupId, checklists) =>
+      addChecklistsToGroup: (fileId, groupId, checklists, index) =>
         set((state) => {
           const file = state.files[fileId];
           if (!file) return;
           const group = findGroup(file, groupId);
           if (!group) return;
-          for (const cl of checklists) {
-            group.checklists.push({
-              id: uid(),
-              name: cl.name,
-              items: cl.items.map((item) => ({ ...item, id: uid() })),
-            });
-          }
+          const clones: Checklist[] = checklists.map((cl) => ({
+            id: uid(),
+            name: cl.name,
+            items: cl.items.map((item) => ({ ...item, id: uid() })),
+            extensions: cl.extensions,
+          }));
+          group.checklists.splice(
+            index ?? group.checklists.length,
+            0,
+            ...clones,
+          );
           markDirty(state, fileId);
         }),
 
@@ -473,6 +717,9 @@ export const useChecklistStore = create<ChecklistState>()(
           );
           if (idx === -1) return;
           const [moved] = fromGroup.checklists.splice(idx, 1);
+          if (fromGroup !== toGroup) {
+            moved.extensions = withoutGroupPhase(moved.extensions);
+          }
           if (toIndex !== undefined) {
             toGroup.checklists.splice(toIndex, 0, moved);
           } else {
@@ -502,6 +749,7 @@ export const useChecklistStore = create<ChecklistState>()(
             id: uid(),
             name: source.name,
             items: source.items.map((item) => ({ ...item, id: uid() })),
+            extensions: withoutGroupPhase(source.extensions),
           };
           targetGroup.checklists.push(clone);
           markDirty(state, targetFileId);
@@ -518,6 +766,32 @@ export const useChecklistStore = create<ChecklistState>()(
           markDirty(state, fileId);
         }),
 
+      setDefaultChecklist: (fileId, checklistId) =>
+        set((state) => {
+          const file = state.files[fileId];
+          if (!file) return;
+          for (const checklist of file.groups.flatMap((g) => g.checklists)) {
+            if (checklist.id === checklistId) {
+              checklist.isDefault = true;
+            } else {
+              delete checklist.isDefault;
+            }
+          }
+          markDirty(state, fileId);
+        }),
+
+      updateChecklistExtensions: (fileId, groupId, checklistId, extensions) =>
+        set((state) => {
+          const file = state.files[fileId];
+          if (!file) return;
+          const group = findGroup(file, groupId);
+          if (!group) return;
+          const checklist = findChecklist(group, checklistId);
+          if (!checklist) return;
+          checklist.extensions = { ...checklist.extensions, ...extensions };
+          markDirty(state, fileId);
+        }),
+
       // -- Item actions -----------------------------------------------------
 
       addItem: (fileId, groupId, checklistId, type, afterIndex) =>
@@ -539,12 +813,29 @@ export const useChecklistStore = create<ChecklistState>()(
             afterIndex !== undefined ? afterIndex + 1 : checklist.items.length;
           checklist.items.splice(insertAt, 0, newItem);
           state.activeItemId = newItem.id;
-          state.editingItemId = newItem.id;
+          state.editingItemId =
+            type === ChecklistItemType.Space ? null : newItem.id;
           state.selectedItemIds = new Set([newItem.id]);
           state.anchorItemId = newItem.id;
           markDirty(state, fileId);
         }),
 
+      insertItems: (fileId, groupId, checklistId, items, index) =>
+        set((state) => {
+          const file = state.files[fileId];
+          if (!file) return;
+          const group = findGroup(file, groupId);
+          if (!group) return;
+          const checklist = findChecklist(group, checklistId);
+          if (!checklist) return;
+          checklist.items.splice(
+            index,
+            0,
+            ...items.map((item) => ({ ...item, id: uid() })),
+          );
+          markDirty(state, fileId);
+        }),
+
       removeItem: (fileId, groupId, checklistId, itemId) =>
         set((state) => {
           const file = state.files[fileId];
@@ -682,6 +973,35 @@ export const useChecklistStore = create<ChecklistState>()(
           markDirty(state, fileId);
         }),
 
+      // -- Find and replace actions -----------------------------------------
+
+      replaceText: (edits) =>
+        set((state) => {
+          for (const edit of edits) {
+            const file = state.files[edit.fileId];
+            if (!file) continue;
+            const group = findGroup(file, edit.groupId);
+            if (!group) continue;
+
+            if (edit.field === "groupName") {
+              group.name = edit.value;
+            } else {
+              const checklist = edit.checklistId
+                ? findChecklist(group, edit.checklistId)
+                : undefined;
+              if (!checklist) continue;
+              if (edit.field === "checklistName") {
+                checklist.name = edit.value;
+              } else {
+                const item = checklist.items.find((i) => i.id === edit.itemId);
+                if (!item) continue;
+                item[edit.field] = edit.value;
+              }
+            }
+            markDirty(state, edit.fileId);
+          }
+        }),
+
       // -- UI selection actions ---------------------------------------------
 
       setActiveChecklist: (id) =>
@@ -811,6 +1131,51 @@ export const useChecklistStore = create<ChecklistState>()(
           markDirty(state, fileId);
         }),
 
+      pasteItems: (fileId, groupId, checklistId, items, afterItemId) =>
+        set((state) => {
+          const file = state.files[fileId];
+          if (!file) return;
+          const group = findGroup(file, groupId);
+          if (!group) return;
+          const checklist = findChecklist(group, checklistId);
+          if (!checklist || items.length === 0) return;
+
+          const afterIdx = afterItemId
+            ? checklist.items.findIndex((i) => i.id === afterItemId)
+            : -1;
+          const insertAt =
+            afterIdx === -1 ? checklist.items.length : afterIdx + 1;
+          const clones: ChecklistItem[] = items.map((item) => ({
+            ...item,
+            id: uid(),
+          }));
+          checklist.items.splice(insertAt, 0, ...clones);
+
+          state.selectedItemIds = new Set(clones.map((c) => c.id));
+          state.activeItemId = clones[0].id;
+          state.anchorItemId = clones[0].id;
+          state.editingItemId = null;
+          markDirty(state, fileId);
+        }),
+
+      updateSelectedItems: (fileId, groupId, checklistId, changes) =>
+        set((state) => {
+          const file = state.files[fileId];
+          if (!file) return;
+          const group = findGroup(file, groupId);
+          if (!group) return;
+          const checklist = findChecklist(group, checklistId);
+          if (!checklist) return;
+
+          const selected = state.selectedItemIds;
+          if (selected.size === 0) return;
+
+          for (const item of checklist.items) {
+            if (selected.has(item.id)) Object.assign(item, changes);
+          }
+          markDirty(state, fileId);
+        }),
+
       reorderSelectedItems: (
         fileId,
         groupId,
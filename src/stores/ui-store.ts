@@ -1,21 +1,38 @@
 import { create } from "zustand";
+import type { CsvPreview } from "@/ipc/formats/csv";
+
+/** A CSV file waiting for its columns to be mapped before it is opened */
+export interface PendingCsvImport {
+  filePath: string;
+  preview: CsvPreview;
+}
 
 interface UiState {
   propertiesPanelVisible: boolean;
   sidebarVisible: boolean;
   treePanelVisible: boolean;
+  /** CSV files to map, in the order they were imported; the first is shown */
+  pendingCsvImports: PendingCsvImport[];
   togglePropertiesPanel: () => void;
   toggleSidebar: () => void;
   toggleTreePanel: () => void;
+  queueCsvImport: (pending: PendingCsvImport) => void;
+  /** Drop the CSV file that was shown, opened or not */
+  finishCsvImport: () => void;
 }
 
 export const useUiStore = create<UiState>()((set) => ({
   propertiesPanelVisible: true,
   sidebarVisible: true,
   treePanelVisible: true,
+  pendingCsvImports: [],
   togglePropertiesPanel: () =>
     set((s) => ({ propertiesPanelVisible: !s.propertiesPanelVisible })),
   toggleSidebar: () => set((s) => ({ sidebarVisible: !s.sidebarVisible })),
   toggleTreePanel: () =>
     set((s) => ({ treePanelVisible: !s.treePanelVisible })),
+  queueCsvImport: (pending) =>
+    set((s) => ({ pendingCsvImports: [...s.pendingCsvImports, pending] })),
+  finishCsvImport: () =>
+    set((s) => ({ pendingCsvImports: s.pendingCsvImports.slice(1) })),
 }));
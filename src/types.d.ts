@@ -2,6 +2,7 @@
 
 // Update API types exposed via contextBridge
 import type { UpdateInfo, DownloadProgress } from "./ipc/updater/types";
+import type { ExternalFileChange } from "./ipc/watcher/types";
 
 interface UpdateAPI {
   onUpdateChecking(callback: () => void): () => void;
@@ -12,6 +13,11 @@ interface UpdateAPI {
   onUpdateError(callback: (error: string) => void): () => void;
 }
 
+// File watcher events exposed via contextBridge
+interface WatchAPI {
+  onFileChanged(callback: (change: ExternalFileChange) => void): () => void;
+}
+
 declare global {
   namespace NodeJS {
     interface ProcessEnv {
@@ -22,6 +28,7 @@ declare global {
 
   interface Window {
     updateAPI: UpdateAPI;
+    watchAPI: WatchAPI;
   }
 }
 
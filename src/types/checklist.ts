@@ -6,6 +6,10 @@ export enum ChecklistItemType {
   Note = "note",
   Warning = "warning",
   Caution = "caution",
+  /** Blank line between items; has no text */
+  Space = "space",
+  /** Text shown as written, without a checkbox or prefix */
+  PlainText = "plain_text",
 }
 
 /**
@@ -26,6 +30,7 @@ export interface ChecklistItem {
   centered: boolean;
   /** When true, this item acts as a collapsible parent for subsequent deeper-indented items */
   collapsible: boolean;
+  extensions?: FormatExtensions;
 }
 
 /** A named checklist containing an ordered list of items */
@@ -33,6 +38,10 @@ export interface Checklist {
   id: string;
   name: string;
   items: ChecklistItem[];
+  /** The checklist the avionics opens on at startup; at most one per file */
+  isDefault?: boolean;
+  /** Format-specific attributes, only read back by that format's writer */
+  extensions?: ChecklistExtensions;
 }
 
 /** Group category determines icon color and styling in the tree panel */
@@ -48,6 +57,13 @@ export interface ChecklistGroup {
   name: string;
   category: ChecklistGroupCategory;
   checklists: Checklist[];
+  extensions?: FormatExtensions;
+}
+
+/** A named value substituted for `{{NAME}}` tokens at export time */
+export interface ChecklistVariable {
+  name: string;
+  value: string;
 }
 
 /** File-level metadata (aircraft info, copyright) */
@@ -55,19 +71,121 @@ export interface ChecklistFileMetadata {
   aircraftRegistration: string;
   makeModel: string;
   copyright: string;
+  /** Free-text description of the checklist file */
+  description?: string;
+  /** User-defined variables, e.g. V-speeds; only JSON and Markdown keep the tokens */
+  variables?: ChecklistVariable[];
 }
 
 /** Supported file formats for import/export */
 export enum ChecklistFormat {
   Ace = "ace",
+  Csv = "csv",
+  EfisEditor = "efis_editor",
   Gplt = "gplt",
   AfsDynon = "afs_dynon",
   ForeFlight = "foreflight",
   Grt = "grt",
+  Html = "html",
   Json = "json",
+  Markdown = "markdown",
   Pdf = "pdf",
 }
 
+/**
+ * Data a format's reader found no field for, keyed by format. Only the
+ * writer for the same format reads it back; the JSON format keeps it all.
+ */
+export type FormatExtensions = Partial<
+  Record<ChecklistFormat, Record<string, unknown>>
+>;
+
+/** Garmin Pilot checklist attributes with no field in the internal model */
+export interface GarminPilotChecklistExtension {
+  /** What Garmin Pilot does when the checklist is completed (`completionItem`) */
+  completionItem?: number;
+  /**
+   * Phase of flight (`subtype`) for a normal checklist in a group Garmin
+   * Pilot has no equivalent for; in the other groups the group decides
+   */
+  subtype?: number;
+  [key: string]: unknown;
+}
+
+/** Format-specific checklist data, with the attributes the editor shows typed */
+export interface ChecklistExtensions extends FormatExtensions {
+  [ChecklistFormat.Gplt]?: GarminPilotChecklistExtension;
+}
+
+/** Paper sizes offered for PDF export */
+export type PdfPageSize = "letter" | "a4" | "a5" | "kneeboard";
+
+export type PdfOrientation = "portrait" | "landscape";
+
+/**
+ * User overrides for a format's writer settings, chosen in the export modal.
+ * Unset fields fall back to the format's defaults.
+ */
+export interface ExportOptions {
+  // Text formats (AFS / Dynon, GRT)
+  /** Wrap lines wider than this; 0 disables wrapping */
+  maxLineLength?: number;
+  indentWidth?: number;
+  allUppercase?: boolean;
+  /** Prepend a "Checklist Info" checklist with the file metadata */
+  outputMetadata?: boolean;
+  checklistTopBlankLine?: boolean;
+  skipFirstGroup?: boolean;
+
+  // PDF
+  pageSize?: PdfPageSize;
+  orientation?: PdfOrientation;
+  /** Text columns per page, 1-3 */
+  columns?: number;
+  dotLeaders?: boolean;
+  /** Body text size in points */
+  fontSize?: number;
+  /** Color emergency and abnormal headings */
+  categoryColors?: boolean;
+  /** Never split a checklist across columns or pages when it fits in one */
+  keepChecklistsTogether?: boolean;
+  groupsOnNewPage?: boolean;
+  tableOfContents?: boolean;
+  /** Page headers and footers with registration, revision and page numbers */
+  headerFooter?: boolean;
+  /** Revision label for the page footer */
+  revision?: string;
+
+  // CSV
+  /** Field separator; the destination's extension decides it, tab for .tsv */
+  delimiter?: string;
+}
+
+/** A remembered export target, re-run by "Re-export all" */
+export interface ExportProfile {
+  id: string;
+  format: ChecklistFormat;
+  /** Absolute destination path */
+  filePath: string;
+  /** Writer overrides used for this target */
+  options?: ExportOptions;
+  /** When this target was last written */
+  lastExported?: number;
+  /** Hash of the file's content as last written; stale once the content differs */
+  contentHash?: string;
+}
+
+/**
+ * Export bookkeeping for one file, saved with the workspace but never
+ * exported, and kept out of undo history
+ */
+export interface FileExportSettings {
+  /** Export targets remembered for the file */
+  profiles?: ExportProfile[];
+  /** Last-used export overrides per format */
+  options?: Partial<Record<ChecklistFormat, ExportOptions>>;
+}
+
 /** Top-level container representing a single checklist file */
 export interface ChecklistFile {
   id: string;
@@ -80,4 +198,5 @@ export interface ChecklistFile {
   lastModified: number;
   /** Whether the file has unsaved changes */
   dirty: boolean;
+  extensions?: FormatExtensions;
 }
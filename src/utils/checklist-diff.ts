@@ -0,0 +1,309 @@
+import type {
+  Checklist,
+  ChecklistFile,
+  ChecklistGroup,
+  ChecklistItem,
+} from "@/types/checklist";
+
+/**
+ * Structural diff between two checklist files.
+ *
+ * The diff is always expressed as "what would have to change in the
+ * target to match the source": `added` entries exist only in the source,
+ * `removed` entries only in the target. Groups and checklists are matched
+ * by name; items by their text (see `diffItems`).
+ */
+
+export type DiffKind = "added" | "removed" | "changed" | "moved" | "unchanged";
+
+export interface ItemDiff {
+  kind: DiffKind;
+  target?: ChecklistItem;
+  source?: ChecklistItem;
+  /** Position of `target` in the target checklist */
+  targetIndex?: number;
+  /**
+   * Where the source item belongs in the target checklist — right after
+   * the target counterpart of the nearest preceding matched source item.
+   * Set for added and moved entries.
+   */
+  insertIndex?: number;
+}
+
+export interface ChecklistDiff {
+  kind: "added" | "removed" | "matched";
+  name: string;
+  target?: Checklist;
+  source?: Checklist;
+  items: ItemDiff[];
+}
+
+export interface GroupDiff {
+  kind: "added" | "removed" | "matched";
+  name: string;
+  target?: ChecklistGroup;
+  source?: ChecklistGroup;
+  /** Matched groups whose category differs */
+  categoryChanged: boolean;
+  checklists: ChecklistDiff[];
+}
+
+/** Names match regardless of case and surrounding whitespace */
+function nameKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** Everything that makes two items identical apart from their ID */
+function itemKey(item: ChecklistItem): string {
+  return [
+    item.type,
+    item.challengeText.trim(),
+    item.responseText.trim(),
+    item.indent,
+    item.centered,
+    item.collapsible,
+  ].join("\u0000");
+}
+
+/** Index pairs of the longest common subsequence of two key lists */
+function longestCommonSubsequence(
+  a: string[],
+  b: string[],
+): [number, number][] {
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Match the items of two versions of a checklist.
+ *
+ * 1. Identical items in the same relative order are unchanged.
+ * 2. Identical items left over on both sides have moved.
+ * 3. Leftovers with the same challenge text have changed.
+ * 4. Anything else was added (source only) or removed (target only).
+ *
+ * Entries are returned in target order, with added items slotted in
+ * where they would be inserted.
+ */
+export function diffItems(
+  target: ChecklistItem[],
+  source: ChecklistItem[],
+): ItemDiff[] {
+  const targetKeys = target.map(itemKey);
+  const sourceKeys = source.map(itemKey);
+
+  // Source index -> target index, and the kind of match
+  const counterpart = new Map<number, number>();
+  const kinds = new Map<number, DiffKind>();
+
+  for (const [t, s] of longestCommonSubsequence(targetKeys, sourceKeys)) {
+    counterpart.set(s, t);
+    kinds.set(s, "unchanged");
+  }
+
+  const matchLeftovers = (
+    kind: DiffKind,
+    matches: (t: ChecklistItem, s: ChecklistItem) => boolean,
+  ) => {
+    const usedTargets = new Set(counterpart.values());
+    for (let s = 0; s < source.length; s++) {
+      if (counterpart.has(s)) continue;
+      const t = target.findIndex(
+        (item, idx) => !usedTargets.has(idx) && matches(item, source[s]),
+      );
+      if (t !== -1) {
+        counterpart.set(s, t);
+        kinds.set(s, kind);
+        usedTargets.add(t);
+      }
+    }
+  };
+  matchLeftovers("moved", (t, s) => itemKey(t) === itemKey(s));
+  matchLeftovers(
+    "changed",
+    (t, s) =>
+      t.challengeText.trim() !== "" &&
+      t.challengeText.trim().toLowerCase() ===
+        s.challengeText.trim().toLowerCase(),
+  );
+
+  // Where each source item belongs in the target, based on what precedes it
+  const insertIndices: number[] = [];
+  let anchor = 0;
+  for (let s = 0; s < source.length; s++) {
+    insertIndices.push(anchor);
+    const t = counterpart.get(s);
+    if (t !== undefined && kinds.get(s) !== "moved") anchor = t + 1;
+  }
+
+  const targetToSource = new Map<number, number>();
+  for (const [s, t] of counterpart) targetToSource.set(t, s);
+
+  // Sort position: target entries at their index, added entries just
+  // before the item they would be inserted in front of
+  const entries: { position: number; order: number; diff: ItemDiff }[] = [];
+
+  target.forEach((item, t) => {
+    const s = targetToSource.get(t);
+    if (s === undefined) {
+      entries.push({
+        position: t,
+        order: 0,
+        diff: { kind: "removed", target: item, targetIndex: t },
+      });
+      return;
+    }
+    const kind = kinds.get(s)!;
+    entries.push({
+      position: t,
+      order: 0,
+      diff: {
+        kind,
+        target: item,
+        source: source[s],
+        targetIndex: t,
+        insertIndex: kind === "moved" ? insertIndices[s] : undefined,
+      },
+    });
+  });
+
+  source.forEach((item, s) => {
+    if (counterpart.has(s)) return;
+    entries.push({
+      position: insertIndices[s] - 0.5,
+      order: s,
+      diff: { kind: "added", source: item, insertIndex: insertIndices[s] },
+    });
+  });
+
+  entries.sort((a, b) => a.position - b.position || a.order - b.order);
+  return entries.map((e) => e.diff);
+}
+
+function diffChecklists(
+  target: Checklist[],
+  source: Checklist[],
+): ChecklistDiff[] {
+  const diffs: ChecklistDiff[] = [];
+  const unmatched = new Set(source);
+
+  for (const checklist of target) {
+    const match = [...unmatched].find(
+      (c) => nameKey(c.name) === nameKey(checklist.name),
+    );
+    if (match) {
+      unmatched.delete(match);
+      diffs.push({
+        kind: "matched",
+        name: checklist.name,
+        target: checklist,
+        source: match,
+        items: diffItems(checklist.items, match.items),
+      });
+    } else {
+      diffs.push({
+        kind: "removed",
+        name: checklist.name,
+        target: checklist,
+        items: [],
+      });
+    }
+  }
+
+  for (const checklist of unmatched) {
+    diffs.push({
+      kind: "added",
+      name: checklist.name,
+      source: checklist,
+      items: [],
+    });
+  }
+
+  return diffs;
+}
+
+/** Compare two files, listing target groups first and source-only groups after */
+export function diffFiles(
+  target: ChecklistFile,
+  source: ChecklistFile,
+): GroupDiff[] {
+  const diffs: GroupDiff[] = [];
+  const unmatched = new Set(source.groups);
+
+  for (const group of target.groups) {
+    const match = [...unmatched].find(
+      (g) => nameKey(g.name) === nameKey(group.name),
+    );
+    if (match) {
+      unmatched.delete(match);
+      diffs.push({
+        kind: "matched",
+        name: group.name,
+        target: group,
+        source: match,
+        categoryChanged: group.category !== match.category,
+        checklists: diffChecklists(group.checklists, match.checklists),
+      });
+    } else {
+      diffs.push({
+        kind: "removed",
+        name: group.name,
+        target: group,
+        categoryChanged: false,
+        checklists: [],
+      });
+    }
+  }
+
+  for (const group of unmatched) {
+    diffs.push({
+      kind: "added",
+      name: group.name,
+      source: group,
+      categoryChanged: false,
+      checklists: [],
+    });
+  }
+
+  return diffs;
+}
+
+/** Whether a group diff contains anything to accept */
+export function hasGroupChanges(diff: GroupDiff): boolean {
+  return (
+    diff.kind !== "matched" ||
+    diff.categoryChanged ||
+    diff.checklists.some(hasChecklistChanges)
+  );
+}
+
+export function hasChecklistChanges(diff: ChecklistDiff): boolean {
+  return (
+    diff.kind !== "matched" || diff.items.some((i) => i.kind !== "unchanged")
+  );
+}
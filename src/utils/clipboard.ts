@@ -0,0 +1,236 @@
+import { toast } from "sonner";
+import { useChecklistStore } from "@/stores";
+import { readClipboard, writeClipboard } from "@/actions/clipboard";
+import {
+  itemToPlainText,
+  plainTextToPartialItem,
+} from "@/ipc/formats/format-utils";
+import type { Checklist, ChecklistItem } from "@/types/checklist";
+
+/** Marks clipboard data written by this editor */
+const CLIPBOARD_TYPE = "efis-checklist-clipboard";
+const CLIPBOARD_VERSION = 1;
+
+/** Spaces per indent level in the plain-text form */
+const TEXT_INDENT = "  ";
+
+/** Leading bullets and "1." / "1)" numbering of pasted lines */
+const LIST_MARKER = /^(?:[-*•◦▪]|\d{1,3}[.)])\s+/;
+
+type ClipboardItem = Omit<ChecklistItem, "id">;
+type ClipboardChecklist = Omit<Checklist, "id" | "items"> & {
+  items: ClipboardItem[];
+};
+
+/** What a copy puts on the clipboard and a paste inserts */
+export type ClipboardContent =
+  | { kind: "items"; items: ClipboardItem[] }
+  | { kind: "checklists"; checklists: ClipboardChecklist[] };
+
+// ---------------------------------------------------------------------------
+// Conversion
+// ---------------------------------------------------------------------------
+
+function withoutId<T extends { id: string }>(value: T): Omit<T, "id"> {
+  const copy: Partial<T> = { ...value };
+  delete copy.id;
+  return copy as Omit<T, "id">;
+}
+
+/** Items as plain text, one per line, indented two spaces per level */
+export function itemsToText(items: ClipboardItem[]): string {
+  return items
+    .map((item) => TEXT_INDENT.repeat(item.indent) + itemToPlainText(item))
+    .join("\n");
+}
+
+function contentToText(content: ClipboardContent): string {
+  if (content.kind === "items") return itemsToText(content.items);
+  return content.checklists
+    .map((checklist) => `${checklist.name}\n${itemsToText(checklist.items)}`)
+    .join("\n\n");
+}
+
+/**
+ * Parse pasted plain text (an email, a POH PDF) into items, one per
+ * non-blank line. Bullets and numbering are dropped; indentation beyond
+ * the least-indented line becomes the item indent.
+ */
+export function textToItems(text: string): ClipboardItem[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\t/g, TEXT_INDENT).trimEnd())
+    .filter((line) => line.trim());
+  const leading = (line: string) => line.length - line.trimStart().length;
+  const margin = Math.min(...lines.map(leading));
+
+  return lines.map((line) => {
+    const depth = Math.floor((leading(line) - margin) / TEXT_INDENT.length);
+    return {
+      ...plainTextToPartialItem(line.trim().replace(LIST_MARKER, "")),
+      indent: Math.min(depth, 3) as ChecklistItem["indent"],
+      centered: false,
+      collapsible: false,
+    };
+  });
+}
+
+/** Content copied by this editor, or null for data from anywhere else */
+function parseClipboardData(data: string | undefined): ClipboardContent | null {
+  if (!data) return null;
+  try {
+    const parsed = JSON.parse(data);
+    if (parsed?.type !== CLIPBOARD_TYPE || parsed.version !== CLIPBOARD_VERSION)
+      return null;
+    if (Array.isArray(parsed.items))
+      return { kind: "items", items: parsed.items };
+    if (Array.isArray(parsed.checklists))
+      return { kind: "checklists", checklists: parsed.checklists };
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+async function copyContent(content: ClipboardContent, label: string) {
+  try {
+    const payload =
+      content.kind === "items"
+        ? { items: content.items }
+        : { checklists: content.checklists };
+    await writeClipboard(
+      contentToText(content),
+      JSON.stringify({
+        type: CLIPBOARD_TYPE,
+        version: CLIPBOARD_VERSION,
+        ...payload,
+      }),
+    );
+    toast.success(`Copied ${label}`);
+  } catch (err) {
+    toast.error("Copy failed", {
+      description: err instanceof Error ? err.message : "Unknown error",
+    });
+  }
+}
+
+/** The group holding the active checklist, and the checklist itself */
+function activeLocation() {
+  const state = useChecklistStore.getState();
+  const file = state.activeFileId ? state.files[state.activeFileId] : null;
+  if (!file) return null;
+  for (const group of file.groups) {
+    const checklist = group.checklists.find(
+      (c) => c.id === state.activeChecklistId,
+    );
+    if (checklist) return { file, group, checklist };
+  }
+  return { file, group: file.groups[0], checklist: undefined };
+}
+
+/** Copy the selected items, or the active checklist when no item is selected */
+export async function copySelection() {
+  const state = useChecklistStore.getState();
+  const location = activeLocation();
+  if (!location?.checklist) {
+    toast.warning("No checklist selected");
+    return;
+  }
+
+  const items = location.checklist.items.filter(
+    (item) =>
+      state.selectedItemIds.has(item.id) || item.id === state.activeItemId,
+  );
+  if (items.length === 0) {
+    await copyChecklist(location.file.id, location.checklist.id);
+    return;
+  }
+  await copyContent(
+    { kind: "items", items: items.map(withoutId) },
+    items.length === 1 ? "1 item" : `${items.length} items`,
+  );
+}
+
+/** Copy one checklist with all its items */
+export async function copyChecklist(fileId: string, checklistId: string) {
+  const file = useChecklistStore.getState().files[fileId];
+  const checklist = file?.groups
+    .flatMap((g) => g.checklists)
+    .find((c) => c.id === checklistId);
+  if (!checklist) return;
+
+  const { items, ...rest } = withoutId(checklist);
+  await copyContent(
+    {
+      kind: "checklists",
+      checklists: [{ ...rest, items: items.map(withoutId) }],
+    },
+    `"${checklist.name}"`,
+  );
+}
+
+/**
+ * Paste from the system clipboard: checklists copied here go after the
+ * active checklist; items, or plain text parsed into items, go after the
+ * active item.
+ */
+export async function pasteClipboard() {
+  let content: ClipboardContent | null;
+  try {
+    const { text, data } = await readClipboard();
+    content =
+      parseClipboardData(data) ??
+      (text.trim() ? { kind: "items", items: textToItems(text) } : null);
+  } catch (err) {
+    toast.error("Paste failed", {
+      description: err instanceof Error ? err.message : "Unknown error",
+    });
+    return;
+  }
+  if (!content) {
+    toast.warning("Nothing to paste");
+    return;
+  }
+
+  const state = useChecklistStore.getState();
+  const location = activeLocation();
+  if (!location?.group) {
+    toast.warning("No file open");
+    return;
+  }
+  const { file, group, checklist } = location;
+
+  if (content.kind === "checklists") {
+    const index = checklist
+      ? group.checklists.findIndex((c) => c.id === checklist.id) + 1
+      : undefined;
+    state.addChecklistsToGroup(file.id, group.id, content.checklists, index);
+    toast.success(
+      content.checklists.length === 1
+        ? `Pasted "${content.checklists[0].name}"`
+        : `Pasted ${content.checklists.length} checklists`,
+    );
+    return;
+  }
+
+  if (!checklist) {
+    toast.warning("No checklist selected");
+    return;
+  }
+  state.pasteItems(
+    file.id,
+    group.id,
+    checklist.id,
+    content.items,
+    state.activeItemId,
+  );
+  toast.success(
+    content.items.length === 1
+      ? "Pasted 1 item"
+      : `Pasted ${content.items.length} items`,
+  );
+}
@@ -0,0 +1,236 @@
+import { ChecklistItemType } from "@/types/checklist";
+import type { ChecklistFile } from "@/types/checklist";
+
+export interface FindOptions {
+  query: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  /** Treat the query as a regular expression (replacements may use $1 etc.) */
+  regex: boolean;
+}
+
+/** How much of the workspace a search covers, relative to the active checklist */
+export type FindScope = "checklist" | "group" | "file" | "all";
+
+/** The active file/group/checklist that narrower scopes are relative to */
+export interface FindContext {
+  fileId: string | null;
+  groupId: string | null;
+  checklistId: string | null;
+}
+
+export type FindField =
+  | "groupName"
+  | "checklistName"
+  | "challengeText"
+  | "responseText";
+
+/** A searchable text field somewhere in the open files */
+export interface TextTarget {
+  fileId: string;
+  groupId: string;
+  /** Set for checklist names and item text */
+  checklistId?: string;
+  /** Set for item text */
+  itemId?: string;
+  field: FindField;
+}
+
+/** The new value for a text field, applied by the store's `replaceText` */
+export interface TextEdit extends TextTarget {
+  value: string;
+}
+
+export interface FindMatch extends TextTarget {
+  /** Unique across a result set */
+  id: string;
+  /** The whole field value the match was found in */
+  text: string;
+  start: number;
+  end: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build the search pattern for `options`.
+ * Returns a null pattern for an empty query, and an error for an invalid regex.
+ */
+export function compilePattern(options: FindOptions): {
+  pattern: RegExp | null;
+  error: string | null;
+} {
+  if (!options.query) return { pattern: null, error: null };
+
+  let source = options.regex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) source = `\\b(?:${source})\\b`;
+
+  try {
+    return {
+      pattern: new RegExp(source, options.caseSensitive ? "g" : "gi"),
+      error: null,
+    };
+  } catch (err) {
+    return {
+      pattern: null,
+      error: err instanceof Error ? err.message : "Invalid pattern",
+    };
+  }
+}
+
+function targetKey(target: TextTarget): string {
+  return [
+    target.fileId,
+    target.groupId,
+    target.checklistId ?? "",
+    target.itemId ?? "",
+    target.field,
+  ].join("/");
+}
+
+/** Non-empty matches of `pattern` in one field */
+function matchField(
+  target: TextTarget,
+  text: string,
+  pattern: RegExp,
+  results: FindMatch[],
+) {
+  const key = targetKey(target);
+  pattern.lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    // Zero-length matches (e.g. a bare `^`) have nothing to replace
+    if (match[0].length === 0) continue;
+    results.push({
+      ...target,
+      id: `${key}@${match.index}`,
+      text,
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+}
+
+/**
+ * Every match of `pattern` within `scope`: group names, checklist names,
+ * challenge text and (for challenge/response items) response text,
+ * in document order.
+ */
+export function findMatches(
+  files: Record<string, ChecklistFile>,
+  scope: FindScope,
+  context: FindContext,
+  pattern: RegExp,
+): FindMatch[] {
+  const results: FindMatch[] = [];
+
+  const scopeFiles =
+    scope === "all"
+      ? Object.values(files)
+      : context.fileId && files[context.fileId]
+        ? [files[context.fileId]]
+        : [];
+
+  for (const file of scopeFiles) {
+    for (const group of file.groups) {
+      if (scope === "group" || scope === "checklist") {
+        if (group.id !== context.groupId) continue;
+      }
+      const groupTarget = { fileId: file.id, groupId: group.id };
+      if (scope !== "checklist") {
+        matchField(
+          { ...groupTarget, field: "groupName" },
+          group.name,
+          pattern,
+          results,
+        );
+      }
+
+      for (const checklist of group.checklists) {
+        if (scope === "checklist" && checklist.id !== context.checklistId) {
+          continue;
+        }
+        const checklistTarget = { ...groupTarget, checklistId: checklist.id };
+        matchField(
+          { ...checklistTarget, field: "checklistName" },
+          checklist.name,
+          pattern,
+          results,
+        );
+
+        for (const item of checklist.items) {
+          const itemTarget = { ...checklistTarget, itemId: item.id };
+          matchField(
+            { ...itemTarget, field: "challengeText" },
+            item.challengeText,
+            pattern,
+            results,
+          );
+          if (item.type === ChecklistItemType.ChallengeResponse) {
+            matchField(
+              { ...itemTarget, field: "responseText" },
+              item.responseText,
+              pattern,
+              results,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  return results;
+}
+
+/** What a single match is replaced with, expanding $1 etc. in regex mode */
+export function expandReplacement(
+  match: FindMatch,
+  pattern: RegExp,
+  replacement: string,
+  options: FindOptions,
+): string {
+  if (!options.regex) return replacement;
+  // A sticky copy re-matches at the same offset, with the surrounding text
+  // still in place for anchors, lookarounds and word boundaries
+  const sticky = new RegExp(pattern.source, pattern.flags.replace("g", "y"));
+  sticky.lastIndex = match.start;
+  const replaced = match.text.replace(sticky, replacement);
+  return replaced.slice(
+    match.start,
+    replaced.length - (match.text.length - match.end),
+  );
+}
+
+/**
+ * Turn matches into field edits, replacing every given match.
+ * Matches in the same field are combined into one edit.
+ */
+export function buildEdits(
+  matches: FindMatch[],
+  pattern: RegExp,
+  replacement: string,
+  options: FindOptions,
+): TextEdit[] {
+  const byTarget = new Map<string, FindMatch[]>();
+  for (const match of matches) {
+    const key = targetKey(match);
+    byTarget.set(key, [...(byTarget.get(key) ?? []), match]);
+  }
+
+  const edits: TextEdit[] = [];
+  for (const fieldMatches of byTarget.values()) {
+    const first = fieldMatches[0];
+    let value = first.text;
+    // Replace from the end so earlier offsets stay valid
+    for (const match of [...fieldMatches].sort((a, b) => b.start - a.start)) {
+      value =
+        value.slice(0, match.start) +
+        expandReplacement(match, pattern, replacement, options) +
+        value.slice(match.end);
+    }
+    const { fileId, groupId, checklistId, itemId, field } = first;
+    edits.push({ fileId, groupId, checklistId, itemId, field, value });
+  }
+  return edits;
+}
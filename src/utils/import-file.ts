@@ -0,0 +1,18 @@
+import { useChecklistStore, useUiStore } from "@/stores";
+import { toastFileImported } from "@/utils/import-toast";
+import type { ImportFileResult } from "@/ipc/checklist/types";
+
+/**
+ * Open what `importFile` returned: add the file and confirm it, or for a CSV
+ * file ask how its columns map first. A cancelled import does nothing.
+ */
+export function openImportResult(result: ImportFileResult | null) {
+  if (!result) return;
+  if (result.kind === "csv") {
+    const { filePath, preview } = result;
+    useUiStore.getState().queueCsvImport({ filePath, preview });
+    return;
+  }
+  useChecklistStore.getState().addFile(result.file);
+  toastFileImported(result.file.name, result.warnings);
+}
@@ -0,0 +1,12 @@
+import { toast } from "sonner";
+
+/** Confirm an opened file, listing any compatibility warnings from its reader */
+export function toastFileImported(name: string, warnings: string[] = []) {
+  if (warnings.length === 0) {
+    toast.success("File imported", { description: `Opened ${name}` });
+    return;
+  }
+  toast.warning(`Opened ${name} with warnings`, {
+    description: warnings.join("\n"),
+  });
+}
@@ -0,0 +1,133 @@
+import type { ChecklistFile } from "@/types/checklist";
+import { withoutObjectIds } from "@/ipc/formats/foreflight/extensions";
+import {
+  VARIABLE_PATTERN as PLACEHOLDER_PATTERN,
+  variableValues,
+} from "@/ipc/formats/variables";
+
+/** Friendlier labels for the placeholders the bundled templates use */
+const PLACEHOLDER_LABELS: Record<string, string> = {
+  TAIL: "Tail number",
+  VR: "Rotation speed (Vr)",
+  VX: "Best angle of climb (Vx)",
+  VY: "Best rate of climb (Vy)",
+  VG: "Best glide (Vg)",
+  VREF: "Final approach speed",
+  VA: "Maneuvering speed (Va)",
+  VNE: "Never exceed speed (Vne)",
+  FUEL_CAPACITY: "Usable fuel (gal)",
+};
+
+let counter = 0;
+
+function uid(): string {
+  return `${Date.now()}-${++counter}`;
+}
+
+export function placeholderLabel(name: string): string {
+  if (PLACEHOLDER_LABELS[name]) return PLACEHOLDER_LABELS[name];
+  const words = name.toLowerCase().replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** Every text field of a file that may hold placeholders, in document order */
+function templateTexts(file: ChecklistFile): string[] {
+  const texts = [
+    file.name,
+    file.metadata.aircraftRegistration,
+    file.metadata.makeModel,
+    file.metadata.copyright,
+    file.metadata.description ?? "",
+  ];
+  for (const group of file.groups) {
+    texts.push(group.name);
+    for (const checklist of group.checklists) {
+      texts.push(checklist.name);
+      for (const item of checklist.items) {
+        texts.push(item.challengeText, item.responseText);
+      }
+    }
+  }
+  return texts;
+}
+
+/**
+ * Placeholder names used in a template, in order of first use.
+ * Tokens the file defines as variables are not asked for.
+ */
+export function findPlaceholders(file: ChecklistFile): string[] {
+  const variables = variableValues(file.metadata);
+  const names = new Set<string>();
+  for (const text of templateTexts(file)) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!variables.has(match[1])) names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+/** Substitute values; placeholders left blank stay in the text to fill in later */
+export function fillText(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (token, name: string) =>
+    values[name] ? values[name] : token,
+  );
+}
+
+/**
+ * Create a new, unsaved file from a template: placeholders filled in and
+ * fresh IDs throughout so several files can come from the same template.
+ * Format extension data is kept at every level except ForeFlight objectIds,
+ * which each file gets new on export. Placeholders left blank become empty
+ * variables, so the file still exports until they are filled in.
+ */
+export function instantiateTemplate(
+  template: ChecklistFile,
+  values: Record<string, string>,
+): ChecklistFile {
+  const variables = [
+    ...(template.metadata.variables ?? []).map((v) => ({ ...v })),
+    ...findPlaceholders(template)
+      .filter((name) => !values[name])
+      .map((name) => ({ name, value: "" })),
+  ];
+
+  return {
+    id: uid(),
+    name: fillText(template.name, values),
+    format: template.format,
+    groups: template.groups.map((group) => ({
+      ...group,
+      id: uid(),
+      name: fillText(group.name, values),
+      extensions: withoutObjectIds(group.extensions),
+      checklists: group.checklists.map((checklist) => ({
+        ...checklist,
+        id: uid(),
+        name: fillText(checklist.name, values),
+        extensions: withoutObjectIds(checklist.extensions),
+        items: checklist.items.map((item) => ({
+          ...item,
+          id: uid(),
+          challengeText: fillText(item.challengeText, values),
+          responseText: fillText(item.responseText, values),
+          extensions: withoutObjectIds(item.extensions),
+        })),
+      })),
+    })),
+    metadata: {
+      aircraftRegistration: fillText(
+        template.metadata.aircraftRegistration,
+        values,
+      ),
+      makeModel: fillText(template.metadata.makeModel, values),
+      copyright: fillText(template.metadata.copyright, values),
+      ...(template.metadata.description !== undefined
+        ? { description: fillText(template.metadata.description, values) }
+        : {}),
+      variables: variables.length > 0 ? variables : undefined,
+    },
+    lastModified: Date.now(),
+    dirty: true,
+    extensions: withoutObjectIds(template.extensions),
+  };
+}
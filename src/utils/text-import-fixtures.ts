@@ -0,0 +1,102 @@
+import { ChecklistItemType } from "@/types/checklist";
+import type { TextImportLine } from "./text-import";
+
+const { ChallengeOnly, ChallengeResponse, Caution, Note, Warning } =
+  ChecklistItemType;
+
+/** Source text and the lines the default rules should parse it into */
+export interface TextImportFixture {
+  name: string;
+  text: string;
+  expected: Pick<TextImportLine, "role" | "challengeText" | "responseText">[];
+}
+
+export const TEXT_IMPORT_FIXTURES: TextImportFixture[] = [
+  {
+    name: "poh-steps",
+    text: [
+      "BEFORE STARTING ENGINE",
+      "1. Preflight Inspection ....... COMPLETE",
+      "2. Fuel Selector - BOTH",
+      "3. Avionics",
+      "  a. Master switch ..... OFF",
+    ].join("\n"),
+    expected: [
+      {
+        role: "heading",
+        challengeText: "BEFORE STARTING ENGINE",
+        responseText: "",
+      },
+      {
+        role: ChallengeResponse,
+        challengeText: "Preflight Inspection",
+        responseText: "COMPLETE",
+      },
+      {
+        role: ChallengeResponse,
+        challengeText: "Fuel Selector",
+        responseText: "BOTH",
+      },
+      { role: ChallengeOnly, challengeText: "Avionics", responseText: "" },
+      {
+        role: ChallengeResponse,
+        challengeText: "Master switch",
+        responseText: "OFF",
+      },
+    ],
+  },
+  {
+    name: "callouts",
+    text: [
+      "WARNING: Do not exceed VNE",
+      "CAUTION",
+      "Engine may be hot",
+      "NOTE - Use full flaps on soft fields",
+      "NOTES. Lean for best power",
+    ].join("\n"),
+    expected: [
+      { role: Warning, challengeText: "Do not exceed VNE", responseText: "" },
+      { role: "skip", challengeText: "CAUTION", responseText: "" },
+      { role: Caution, challengeText: "Engine may be hot", responseText: "" },
+      {
+        role: Note,
+        challengeText: "Use full flaps on soft fields",
+        responseText: "",
+      },
+      { role: Note, challengeText: "Lean for best power", responseText: "" },
+    ],
+  },
+  {
+    name: "callout-words-in-steps",
+    text: [
+      "1. Warning lights....TEST",
+      "2. Caution panel - CHECK",
+      "Notes on fuel ..... READ",
+      "WARNING LIGHTS....TEST",
+      "NOTE....READ",
+    ].join("\n"),
+    expected: [
+      {
+        role: ChallengeResponse,
+        challengeText: "Warning lights",
+        responseText: "TEST",
+      },
+      {
+        role: ChallengeResponse,
+        challengeText: "Caution panel",
+        responseText: "CHECK",
+      },
+      {
+        role: ChallengeResponse,
+        challengeText: "Notes on fuel",
+        responseText: "READ",
+      },
+      {
+        role: ChallengeResponse,
+        challengeText: "WARNING LIGHTS",
+        responseText: "TEST",
+      },
+      { role: ChallengeResponse, challengeText: "NOTE", responseText: "READ" },
+    ],
+  },
+];
@@ -0,0 +1,242 @@
+import { ChecklistItemType } from "@/types/checklist";
+import type { Checklist, ChecklistItem } from "@/types/checklist";
+import { CHALLENGE_RESPONSE_SEPARATOR } from "@/ipc/formats/format-utils";
+
+/** Which structure the text import looks for */
+export interface TextImportRules {
+  /** Unindented lines ending in ":" or written in capitals start a checklist */
+  headings: boolean;
+  /** "CHALLENGE....RESPONSE" */
+  dotLeaders: boolean;
+  /** "CHALLENGE - RESPONSE" */
+  dashSeparator: boolean;
+  /** Drop "1." / "1)" step numbers and bullets; "a." sub-steps are indented */
+  numberedSteps: boolean;
+  /** Leading whitespace becomes the item indent */
+  indentation: boolean;
+  /**
+   * NOTE / CAUTION / WARNING in capitals at the start of a line, followed by
+   * ":", "-" or "." or alone on the line, sets the item type
+   */
+  callouts: boolean;
+  /** Spaces per indent level; a tab counts as one level */
+  indentWidth: number;
+}
+
+export const DEFAULT_TEXT_IMPORT_RULES: TextImportRules = {
+  headings: true,
+  dotLeaders: true,
+  dashSeparator: true,
+  numberedSteps: true,
+  indentation: true,
+  callouts: true,
+  indentWidth: 2,
+};
+
+/** What a line becomes: a checklist heading, an item of a type, or nothing */
+export type TextLineRole = "heading" | "skip" | ChecklistItemType;
+
+/** One non-blank line of the source text, as parsed */
+export interface TextImportLine {
+  /** Zero-based line number in the source text */
+  lineIndex: number;
+  source: string;
+  role: TextLineRole;
+  challengeText: string;
+  responseText: string;
+  indent: ChecklistItem["indent"];
+}
+
+/** A checklist built from text, before the store gives it IDs */
+export type ImportedChecklist = Omit<Checklist, "id" | "items"> & {
+  items: Omit<ChecklistItem, "id">[];
+};
+
+/** Name of the checklist collecting items that come before any heading */
+export const UNTITLED_CHECKLIST_NAME = "Imported Checklist";
+
+/** Two or more dots (or an ellipsis, or underscores) between challenge and response */
+const DOT_LEADER = /^(.*?\S)\s*(?:\.{2,}|…+|_{3,})[\s.…_]*(\S.*)$/;
+
+const STEP_NUMBER = /^\d{1,3}[.)]\s+/;
+const SUB_STEP_LETTER = /^[a-z][.)]\s+/;
+const BULLET = /^[-*•◦▪]\s+/;
+
+/**
+ * A callout word in capitals ending the line or followed by a separator; a
+ * run of dots after it is a dot leader instead
+ */
+const CALLOUT =
+  /^(NOTE|CAUTION|WARNING)S?(?:\s*(?:[:\-–—]|\.(?![.…]))\s*|\s*$)/;
+
+const CALLOUT_TYPES: Record<string, ChecklistItemType> = {
+  NOTE: ChecklistItemType.Note,
+  CAUTION: ChecklistItemType.Caution,
+  WARNING: ChecklistItemType.Warning,
+};
+
+function leadingWidth(line: string, indentWidth: number): number {
+  const whitespace = line.match(/^\s*/)![0];
+  return whitespace.replace(/\t/g, " ".repeat(indentWidth)).length;
+}
+
+function isHeadingText(text: string): boolean {
+  if (text.endsWith(":")) return true;
+  return /[A-Z]/.test(text) && text === text.toUpperCase() && text.length <= 60;
+}
+
+/** Parse `text` line by line under `rules`; blank lines are left out */
+export function parseTextLines(
+  text: string,
+  rules: TextImportRules,
+): TextImportLine[] {
+  const sourceLines = text.split(/\r?\n/);
+  const filled = sourceLines.filter((line) => line.trim());
+  const margin = Math.min(
+    ...filled.map((line) => leadingWidth(line, rules.indentWidth)),
+  );
+
+  const lines: TextImportLine[] = [];
+  // A callout word on a line of its own types the line after it
+  let pendingCallout: ChecklistItemType | null = null;
+  sourceLines.forEach((source, lineIndex) => {
+    let text = source.trim();
+    if (!text) return;
+
+    let depth = rules.indentation
+      ? Math.floor(
+          (leadingWidth(source, rules.indentWidth) - margin) /
+            Math.max(rules.indentWidth, 1),
+        )
+      : 0;
+
+    let isStep = false;
+    if (rules.numberedSteps) {
+      if (STEP_NUMBER.test(text)) {
+        text = text.replace(STEP_NUMBER, "");
+        isStep = true;
+      } else if (SUB_STEP_LETTER.test(text)) {
+        text = text.replace(SUB_STEP_LETTER, "");
+        depth = Math.max(depth, 1);
+        isStep = true;
+      } else if (BULLET.test(text)) {
+        text = text.replace(BULLET, "");
+        isStep = true;
+      }
+    }
+    const indent = Math.min(depth, 3) as ChecklistItem["indent"];
+    const line = { lineIndex, source, indent, responseText: "" };
+
+    const callout = rules.callouts ? text.match(CALLOUT) : null;
+    if (callout) {
+      const type = CALLOUT_TYPES[callout[1]];
+      if (callout[0].length === text.length) {
+        pendingCallout = type;
+        lines.push({ ...line, role: "skip", challengeText: text });
+      } else {
+        pendingCallout = null;
+        lines.push({
+          ...line,
+          role: type,
+          challengeText: text.slice(callout[0].length),
+        });
+      }
+      return;
+    }
+    if (pendingCallout) {
+      lines.push({ ...line, role: pendingCallout, challengeText: text });
+      pendingCallout = null;
+      return;
+    }
+
+    const leader = rules.dotLeaders ? text.match(DOT_LEADER) : null;
+    if (leader) {
+      lines.push({
+        ...line,
+        role: ChecklistItemType.ChallengeResponse,
+        challengeText: leader[1],
+        responseText: leader[2],
+      });
+      return;
+    }
+
+    const sepIdx = rules.dashSeparator
+      ? text.indexOf(CHALLENGE_RESPONSE_SEPARATOR)
+      : -1;
+    if (sepIdx > 0) {
+      lines.push({
+        ...line,
+        role: ChecklistItemType.ChallengeResponse,
+        challengeText: text.slice(0, sepIdx).trimEnd(),
+        responseText: text
+          .slice(sepIdx + CHALLENGE_RESPONSE_SEPARATOR.length)
+          .trimStart(),
+      });
+      return;
+    }
+
+    if (rules.headings && !isStep && depth === 0 && isHeadingText(text)) {
+      lines.push({
+        ...line,
+        role: "heading",
+        challengeText: text.replace(/:$/, "").trimEnd(),
+      });
+      return;
+    }
+
+    lines.push({
+      ...line,
+      role: ChecklistItemType.ChallengeOnly,
+      challengeText: text,
+    });
+  });
+  return lines;
+}
+
+/** The whole text of a line, for roles that have no response */
+export function lineText(line: TextImportLine): string {
+  return line.responseText
+    ? line.challengeText + CHALLENGE_RESPONSE_SEPARATOR + line.responseText
+    : line.challengeText;
+}
+
+/**
+ * Build checklists from parsed lines: each heading starts a checklist, and
+ * items before the first heading go into one named `UNTITLED_CHECKLIST_NAME`.
+ */
+export function textLinesToChecklists(
+  lines: TextImportLine[],
+): ImportedChecklist[] {
+  const checklists: ImportedChecklist[] = [];
+  let current: ImportedChecklist | null = null;
+
+  for (const line of lines) {
+    if (line.role === "skip") continue;
+    if (line.role === "heading") {
+      current = { name: lineText(line), items: [] };
+      checklists.push(current);
+      continue;
+    }
+    if (!current) {
+      current = { name: UNTITLED_CHECKLIST_NAME, items: [] };
+      checklists.push(current);
+    }
+
+    const isChallengeResponse =
+      line.role === ChecklistItemType.ChallengeResponse;
+    const isSpace = line.role === ChecklistItemType.Space;
+    current.items.push({
+      type: line.role,
+      challengeText: isChallengeResponse
+        ? line.challengeText
+        : isSpace
+          ? ""
+          : lineText(line),
+      responseText: isChallengeResponse ? line.responseText : "",
+      indent: line.indent,
+      centered: false,
+      collapsible: false,
+    });
+  }
+  return checklists;
+}